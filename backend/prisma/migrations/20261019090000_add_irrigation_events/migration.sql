@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "IrrigationEvent" (
+    "id" SERIAL NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "irrigationLogId" INTEGER,
+    "appliedAt" TIMESTAMP(3) NOT NULL,
+    "method" TEXT NOT NULL,
+    "depthMm" DOUBLE PRECISION NOT NULL,
+    "volumeLiters" DOUBLE PRECISION,
+    "effectiveDepthMm" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IrrigationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IrrigationEvent_nodeId_appliedAt_idx" ON "IrrigationEvent"("nodeId", "appliedAt");
+
+-- CreateIndex
+CREATE INDEX "IrrigationEvent_irrigationLogId_idx" ON "IrrigationEvent"("irrigationLogId");
+
+-- AddForeignKey
+ALTER TABLE "IrrigationEvent" ADD CONSTRAINT "IrrigationEvent_irrigationLogId_fkey" FOREIGN KEY ("irrigationLogId") REFERENCES "IrrigationLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
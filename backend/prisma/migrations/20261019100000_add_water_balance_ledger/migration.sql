@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "WaterBalanceRecord" (
+    "id" SERIAL NOT NULL,
+    "fieldId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "rainfallMm" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "rainfallSource" TEXT NOT NULL DEFAULT 'none',
+    "irrigationMm" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "et0Mm" DOUBLE PRECISION NOT NULL,
+    "kc" DOUBLE PRECISION NOT NULL,
+    "etcMm" DOUBLE PRECISION NOT NULL,
+    "deepPercolationMm" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "depletionStartMm" DOUBLE PRECISION NOT NULL,
+    "depletionEndMm" DOUBLE PRECISION NOT NULL,
+    "measuredVWC" DOUBLE PRECISION,
+    "measuredDepletionMm" DOUBLE PRECISION,
+    "correctionMm" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tawMm" DOUBLE PRECISION NOT NULL,
+    "rawMm" DOUBLE PRECISION NOT NULL,
+    "cropType" TEXT,
+    "growthStage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaterBalanceRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WaterBalanceRecord_fieldId_idx" ON "WaterBalanceRecord"("fieldId");
+
+-- CreateIndex
+CREATE INDEX "WaterBalanceRecord_date_idx" ON "WaterBalanceRecord"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaterBalanceRecord_fieldId_date_key" ON "WaterBalanceRecord"("fieldId", "date");
+
+-- AddForeignKey
+ALTER TABLE "WaterBalanceRecord" ADD CONSTRAINT "WaterBalanceRecord_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
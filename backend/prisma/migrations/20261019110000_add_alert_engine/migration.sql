@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN     "severity" TEXT NOT NULL DEFAULT 'WARNING',
+ADD COLUMN     "threshold" DOUBLE PRECISION,
+ADD COLUMN     "value" DOUBLE PRECISION,
+ALTER COLUMN "readingId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Alert_nodeId_alertType_sentAt_idx" ON "Alert"("nodeId", "alertType", "sentAt");
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "ruleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" SERIAL NOT NULL,
+    "fieldId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "operator" TEXT NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "durationMinutes" INTEGER NOT NULL DEFAULT 0,
+    "hysteresis" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "severity" TEXT NOT NULL DEFAULT 'WARNING',
+    "quietHoursStart" INTEGER,
+    "quietHoursEnd" INTEGER,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "conditionSince" TIMESTAMP(3),
+    "triggered" BOOLEAN NOT NULL DEFAULT false,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "lastValue" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Alert_ruleId_idx" ON "Alert"("ruleId");
+
+-- CreateIndex
+CREATE INDEX "AlertRule_fieldId_enabled_idx" ON "AlertRule"("fieldId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Node" ADD COLUMN     "offlineSince" TIMESTAMP(3),
+ADD COLUMN     "reportIntervalSec" INTEGER NOT NULL DEFAULT 600;
+
+-- CreateIndex
+CREATE INDEX "Node_isActive_lastSeen_idx" ON "Node"("isActive", "lastSeen");
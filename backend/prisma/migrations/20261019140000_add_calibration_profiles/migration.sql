@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "calibrationVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CalibrationSample" (
+    "id" SERIAL NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "rawValue" DOUBLE PRECISION NOT NULL,
+    "labVWC" DOUBLE PRECISION NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalibrationSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalibrationProfile" (
+    "id" SERIAL NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "fitMethod" TEXT NOT NULL,
+    "degree" INTEGER,
+    "coefficients" DOUBLE PRECISION[],
+    "knots" JSONB,
+    "rawMin" DOUBLE PRECISION NOT NULL,
+    "rawMax" DOUBLE PRECISION NOT NULL,
+    "sampleCount" INTEGER NOT NULL,
+    "rSquared" DOUBLE PRECISION NOT NULL,
+    "rmse" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalibrationProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CalibrationSample_nodeId_sampledAt_idx" ON "CalibrationSample"("nodeId", "sampledAt");
+
+-- CreateIndex
+CREATE INDEX "CalibrationProfile_nodeId_isActive_idx" ON "CalibrationProfile"("nodeId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalibrationProfile_nodeId_version_key" ON "CalibrationProfile"("nodeId", "version");
+
+-- AddForeignKey
+ALTER TABLE "CalibrationSample" ADD CONSTRAINT "CalibrationSample_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "Node"("nodeId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalibrationProfile" ADD CONSTRAINT "CalibrationProfile_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "Node"("nodeId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Node" ADD COLUMN     "payloadEncoding" TEXT NOT NULL DEFAULT 'PRESCALED';
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Node" ADD COLUMN     "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "gapCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastSeq" INTEGER,
+ADD COLUMN     "lastSeqAt" TIMESTAMP(3),
+ADD COLUMN     "seqResetCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "seq" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "SensorReading_nodeId_seq_timestamp_idx" ON "SensorReading"("nodeId", "seq", "timestamp");
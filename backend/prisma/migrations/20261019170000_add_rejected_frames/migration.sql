@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "RejectedFrame" (
+    "id" SERIAL NOT NULL,
+    "gatewayId" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "encoding" TEXT,
+    "reason" TEXT NOT NULL,
+    "detail" TEXT,
+    "nodeId" INTEGER,
+    "rssi" INTEGER,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RejectedFrame_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RejectedFrame_gatewayId_receivedAt_idx" ON "RejectedFrame"("gatewayId", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "RejectedFrame_receivedAt_idx" ON "RejectedFrame"("receivedAt");
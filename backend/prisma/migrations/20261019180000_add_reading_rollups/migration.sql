@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "SensorReadingHourly" (
+    "nodeId" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "vwcMin" DOUBLE PRECISION,
+    "vwcMax" DOUBLE PRECISION,
+    "vwcSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vwcCount" INTEGER NOT NULL DEFAULT 0,
+    "tempMin" DOUBLE PRECISION,
+    "tempMax" DOUBLE PRECISION,
+    "tempSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tempCount" INTEGER NOT NULL DEFAULT 0,
+    "readingsCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SensorReadingHourly_pkey" PRIMARY KEY ("nodeId","bucket")
+);
+
+-- CreateTable
+CREATE TABLE "SensorReadingDaily" (
+    "nodeId" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "vwcMin" DOUBLE PRECISION,
+    "vwcMax" DOUBLE PRECISION,
+    "vwcSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vwcCount" INTEGER NOT NULL DEFAULT 0,
+    "tempMin" DOUBLE PRECISION,
+    "tempMax" DOUBLE PRECISION,
+    "tempSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tempCount" INTEGER NOT NULL DEFAULT 0,
+    "readingsCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SensorReadingDaily_pkey" PRIMARY KEY ("nodeId","bucket")
+);
+
+-- CreateIndex
+CREATE INDEX "SensorReadingHourly_bucket_idx" ON "SensorReadingHourly"("bucket");
+
+-- CreateIndex
+CREATE INDEX "SensorReadingDaily_bucket_idx" ON "SensorReadingDaily"("bucket");
+
+-- AddForeignKey
+ALTER TABLE "SensorReadingHourly" ADD CONSTRAINT "SensorReadingHourly_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "Node"("nodeId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SensorReadingDaily" ADD CONSTRAINT "SensorReadingDaily_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "Node"("nodeId") ON DELETE CASCADE ON UPDATE CASCADE;
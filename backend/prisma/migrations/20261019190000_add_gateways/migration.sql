@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Gateway" (
+    "id" SERIAL NOT NULL,
+    "gatewayId" TEXT NOT NULL,
+    "name" TEXT,
+    "location" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "firmwareVersion" TEXT,
+    "lastSeen" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Gateway_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gateway_gatewayId_key" ON "Gateway"("gatewayId");
+
+-- CreateIndex
+CREATE INDEX "Gateway_lastSeen_idx" ON "Gateway"("lastSeen");
+
+-- AlterTable
+ALTER TABLE "fields" ALTER COLUMN "gatewayId" DROP NOT NULL;
+
+-- Unlink placeholder gateways given to auto-created fields (no gateway ever reported under them)
+UPDATE "fields" f
+SET "gatewayId" = NULL
+WHERE f."gatewayId" = 'gateway-' || f."nodeId"
+    AND NOT EXISTS (SELECT 1 FROM "WeatherReading" w WHERE w."gatewayId" = f."gatewayId");
+
+-- Register gateways already referenced by fields or weather readings
+INSERT INTO "Gateway" ("gatewayId", "lastSeen", "updatedAt")
+SELECT ids."gatewayId", (SELECT MAX(w."timestamp") FROM "WeatherReading" w WHERE w."gatewayId" = ids."gatewayId"), CURRENT_TIMESTAMP
+FROM (
+    SELECT "gatewayId" FROM "fields" WHERE "gatewayId" IS NOT NULL
+    UNION
+    SELECT DISTINCT "gatewayId" FROM "WeatherReading"
+) ids;
+
+-- AddForeignKey
+ALTER TABLE "fields" ADD CONSTRAINT "fields_gatewayId_fkey" FOREIGN KEY ("gatewayId") REFERENCES "Gateway"("gatewayId") ON DELETE RESTRICT ON UPDATE CASCADE;
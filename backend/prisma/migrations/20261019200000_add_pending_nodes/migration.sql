@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "PendingNode" (
+    "id" SERIAL NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "firstSeen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeen" TIMESTAMP(3) NOT NULL,
+    "droppedCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "PendingNode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PendingReading" (
+    "id" SERIAL NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "moisture" INTEGER NOT NULL,
+    "temperature" INTEGER NOT NULL,
+    "rssi" INTEGER,
+    "batteryLevel" INTEGER,
+    "seq" INTEGER,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingNode_nodeId_key" ON "PendingNode"("nodeId");
+
+-- CreateIndex
+CREATE INDEX "PendingNode_lastSeen_idx" ON "PendingNode"("lastSeen");
+
+-- CreateIndex
+CREATE INDEX "PendingReading_nodeId_timestamp_idx" ON "PendingReading"("nodeId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "PendingReading" ADD CONSTRAINT "PendingReading_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "PendingNode"("nodeId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Node" ADD COLUMN "fieldId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "fields" ADD COLUMN "aggregationStrategy" TEXT NOT NULL DEFAULT 'MEAN';
+
+-- AlterTable
+ALTER TABLE "AggregatedReading" ADD COLUMN "fieldId" INTEGER,
+ADD COLUMN "strategy" TEXT,
+ADD COLUMN "soilMoistureVWC" DOUBLE PRECISION,
+ADD COLUMN "soilTemperature" DOUBLE PRECISION,
+ADD COLUMN "nodeCount" INTEGER;
+
+-- Existing one-node fields: the primary node is the only member
+UPDATE "Node" n
+SET "fieldId" = f."id"
+FROM "fields" f
+WHERE f."nodeId" = n."nodeId";
+
+-- CreateIndex
+CREATE INDEX "Node_fieldId_idx" ON "Node"("fieldId");
+
+-- CreateIndex
+CREATE INDEX "AggregatedReading_fieldId_timestamp_idx" ON "AggregatedReading"("fieldId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "Node" ADD CONSTRAINT "Node_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AggregatedReading" ADD CONSTRAINT "AggregatedReading_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
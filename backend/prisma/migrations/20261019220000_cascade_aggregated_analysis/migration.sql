@@ -0,0 +1,6 @@
+-- Field-level analyses go with their aggregated reading (deleted with the field)
+-- DropForeignKey
+ALTER TABLE "AggregatedAnalysis" DROP CONSTRAINT "AggregatedAnalysis_aggregatedReadingId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "AggregatedAnalysis" ADD CONSTRAINT "AggregatedAnalysis_aggregatedReadingId_fkey" FOREIGN KEY ("aggregatedReadingId") REFERENCES "AggregatedReading"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "CropRecommendation" ADD COLUMN "runId" INTEGER,
+ADD COLUMN "suitable" BOOLEAN,
+ADD COLUMN "scores" JSONB;
+
+-- CreateTable
+CREATE TABLE "CropRecommendationRun" (
+    "id" SERIAL NOT NULL,
+    "fieldId" INTEGER NOT NULL,
+    "nodeId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "season" TEXT NOT NULL,
+    "soilMoistureVWC" DOUBLE PRECISION NOT NULL,
+    "soilTemperature" DOUBLE PRECISION NOT NULL,
+    "soilTexture" TEXT NOT NULL,
+    "accumulatedGDD" DOUBLE PRECISION NOT NULL,
+    "aggregated" BOOLEAN NOT NULL DEFAULT false,
+    "recommendedCrop" TEXT NOT NULL,
+
+    CONSTRAINT "CropRecommendationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CropRecommendationRun_fieldId_timestamp_idx" ON "CropRecommendationRun"("fieldId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "CropRecommendation_runId_idx" ON "CropRecommendation"("runId");
+
+-- AddForeignKey
+ALTER TABLE "CropRecommendation" ADD CONSTRAINT "CropRecommendation_runId_fkey" FOREIGN KEY ("runId") REFERENCES "CropRecommendationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CropRecommendationRun" ADD CONSTRAINT "CropRecommendationRun_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Quiet hours were evaluated in the server's local time
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN "quietHoursTimezone" TEXT;
@@ -0,0 +1,3 @@
+-- Late packets only fill gaps that were actually counted
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN "gapBefore" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,49 @@
+// src/api/middleware/gatewayAuth.ts
+/**
+ * Gateway Authentication Middleware
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { env } from '../../config/environment.js';
+import { UnauthorizedError } from '../../utils/errors.js';
+
+/**
+ * Gateway keys from GATEWAY_API_KEYS ("gatewayId:key" pairs, comma separated)
+ */
+const gatewayKeys = new Map(
+    env.GATEWAY_API_KEYS
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.includes(':'))
+        .map(entry => {
+            const separator = entry.indexOf(':');
+            return [entry.slice(0, separator), entry.slice(separator + 1)] as const;
+        })
+);
+
+function keysMatch(expected: string, provided: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(provided);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Require X-Gateway-Id and Authorization: Bearer <key>
+ * Authenticated gateway ID is exposed as res.locals.gatewayId
+ */
+export function requireGatewayAuth(req: Request, res: Response, next: NextFunction): void {
+    const gatewayId = req.header('x-gateway-id');
+    const authorization = req.header('authorization');
+    const key = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : undefined;
+
+    const expected = gatewayId ? gatewayKeys.get(gatewayId) : undefined;
+
+    if (!gatewayId || !key || !expected || !keysMatch(expected, key)) {
+        next(new UnauthorizedError('Invalid gateway credentials'));
+        return;
+    }
+
+    res.locals.gatewayId = gatewayId;
+    next();
+}
@@ -0,0 +1,25 @@
+// src/api/middleware/resolveField.ts
+/**
+ * Field Resolution Middleware
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { getFieldById, getFieldByNodeId } from '../../repositories/field.repository.js';
+
+const idSchema = z.coerce.number().int().positive();
+
+/**
+ * Resolve :fieldId or :nodeId (primary or member node) to the field's primary node
+ * Field-level data (GDD, irrigation logs, water balance) is keyed by the primary node,
+ * exposed as res.locals.nodeId; the field itself as res.locals.fieldId
+ */
+export async function resolveFieldNode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const field = req.params.fieldId !== undefined
+        ? await getFieldById(idSchema.parse(req.params.fieldId))
+        : await getFieldByNodeId(idSchema.parse(req.params.nodeId));
+
+    res.locals.nodeId = field.nodeId;
+    res.locals.fieldId = field.id;
+    next();
+}
@@ -13,6 +13,10 @@ import irrigationRoutes from './routes/irrigation.routes.js';
 import gddRoutes from './routes/gdd.routes.js';
 import weatherRoutes from './routes/weather.routes.js';
 import nodeRoutes from './routes/nodeRoutes.js'; // ADD THIS
+import alertRoutes from './routes/alert.routes.js';
+import importRoutes from './routes/import.routes.js';
+import exportRoutes from './routes/export.routes.js';
+import gatewayRoutes from './routes/gateway.routes.js';
 
 const logger = createLogger({ service: 'app' });
 
@@ -38,6 +42,10 @@ export function createApp() {
     app.use('/api/gdd', gddRoutes);
     app.use('/api/weather', weatherRoutes);
     app.use('/api/nodes', nodeRoutes); // ADD THIS
+    app.use('/api/alerts', alertRoutes);
+    app.use('/api/imports', importRoutes);
+    app.use('/api/exports', exportRoutes);
+    app.use('/api/gateways', gatewayRoutes);
 
     // Error handling
     app.use(errorHandler);
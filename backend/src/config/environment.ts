@@ -30,13 +30,33 @@ const envSchema = z.object({
     // OpenWeatherMap API
     OPENWEATHER_API_KEY: z.string().min(1, 'OPENWEATHER_API_KEY is required'),
 
+    // Gateway HTTP ingest credentials: "gw-01:secret1,gw-02:secret2"
+    GATEWAY_API_KEYS: z.string().default(''),
+
     // Logging
     LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
     LOG_PRETTY: z.coerce.boolean().default(false),
 
+    // Alert rule quiet hours are local hours in this IANA zone unless the rule sets its own
+    ALERT_TIMEZONE: z
+        .string()
+        .refine(tz => tz === 'UTC' || Intl.supportedValuesOf('timeZone').includes(tz), {
+            message: 'Unknown IANA time zone',
+        })
+        .default('UTC'),
+
     // Application
     WEATHER_CACHE_TTL_HOURS: z.coerce.number().positive().default(1),
     GDD_CALCULATION_HOUR: z.coerce.number().int().min(0).max(23).default(1),
+
+    // Retention: raw readings are rolled up into hourly/daily summaries, then pruned
+    // Raw minimum covers the 168 h average window
+    READING_RETENTION_DAYS: z.coerce.number().int().min(14).default(90),
+    HOURLY_ROLLUP_RETENTION_DAYS: z.coerce.number().int().positive().default(730),
+    RETENTION_JOB_HOUR: z.coerce.number().int().min(0).max(23).default(3),
+}).refine(env => env.HOURLY_ROLLUP_RETENTION_DAYS >= env.READING_RETENTION_DAYS, {
+    message: 'HOURLY_ROLLUP_RETENTION_DAYS must be at least READING_RETENTION_DAYS',
+    path: ['HOURLY_ROLLUP_RETENTION_DAYS'],
 });
 
 /**
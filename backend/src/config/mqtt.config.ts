@@ -11,6 +11,7 @@ import { env } from './environment.js';
  */
 export const MQTT_TOPICS = {
     SENSOR_DATA: 'wusn/sensor/+/data',
+    GATEWAY_RAW: 'wusn/gateway/+/raw',
     DASHBOARD_UPDATES: 'wusn/dashboard/updates',
     ALERTS: 'wusn/alerts/#',
 } as const;
@@ -48,7 +49,7 @@ export const MQTT_CONFIG = {
 export const SENSOR_THRESHOLDS = {
     MOISTURE: {
         MIN: 0,
-        MAX: 1023,
+        MAX: 4095,  // Widest payload encoding (12-bit raw ADC)
     },
     TEMPERATURE: {
         MIN: -10,
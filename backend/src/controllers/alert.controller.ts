@@ -0,0 +1,126 @@
+/**
+ * Alert Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+    getAlerts,
+    getAlertById,
+    acknowledgeAlert,
+    acknowledgeNodeAlerts,
+} from '../repositories/alert.repository.js';
+import type { AlertFilters } from '../repositories/alert.repository.js';
+import { ALERT_TYPES, ALERT_SEVERITY } from '../utils/constants.js';
+
+const alertIdSchema = z.object({
+    id: z.coerce.number().int().positive(),
+});
+
+const alertsQuerySchema = z.object({
+    nodeId: z.coerce.number().int().positive().optional(),
+    type: z
+        .string()
+        .transform(value => value.split(',').map(t => t.trim().toUpperCase()))
+        .pipe(z.array(z.nativeEnum(ALERT_TYPES)))
+        .optional(),
+    severity: z
+        .string()
+        .transform(value => value.split(',').map(s => s.trim().toUpperCase()))
+        .pipe(z.array(z.nativeEnum(ALERT_SEVERITY)))
+        .optional(),
+    acknowledged: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+const acknowledgeNodeSchema = z.object({
+    nodeId: z.number().int().positive(),
+    alertType: z.nativeEnum(ALERT_TYPES).optional(),
+});
+
+/**
+ * GET /api/alerts?nodeId=1&type=FROST,HEAT_STRESS&severity=CRITICAL&acknowledged=false
+ * List alerts, newest first
+ */
+export async function getAlertsController(req: Request, res: Response): Promise<void> {
+    const query = alertsQuerySchema.parse(req.query);
+
+    const filters: AlertFilters = {
+        nodeId: query.nodeId,
+        alertType: query.type,
+        severity: query.severity,
+        acknowledged: query.acknowledged,
+        limit: query.limit,
+    };
+    if (query.startDate) filters.startDate = new Date(query.startDate);
+    if (query.endDate) {
+        const endDate = new Date(query.endDate);
+        endDate.setHours(23, 59, 59, 999);
+        filters.endDate = endDate;
+    }
+
+    const alerts = await getAlerts(filters);
+
+    res.json({
+        status: 'ok',
+        data: {
+            total: alerts.length,
+            alerts,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/alerts/:id
+ * Get single alert
+ */
+export async function getAlertController(req: Request, res: Response): Promise<void> {
+    const { id } = alertIdSchema.parse(req.params);
+
+    const alert = await getAlertById(id);
+
+    res.json({
+        status: 'ok',
+        data: alert,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/alerts/:id/acknowledge
+ * Acknowledge single alert
+ */
+export async function acknowledgeAlertController(req: Request, res: Response): Promise<void> {
+    const { id } = alertIdSchema.parse(req.params);
+
+    const alert = await acknowledgeAlert(id);
+
+    res.json({
+        status: 'ok',
+        data: alert,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/alerts/acknowledge
+ * Acknowledge all open alerts for a node, optionally of one type
+ */
+export async function acknowledgeNodeAlertsController(req: Request, res: Response): Promise<void> {
+    const { nodeId, alertType } = acknowledgeNodeSchema.parse(req.body);
+
+    const acknowledged = await acknowledgeNodeAlerts(nodeId, alertType);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            alertType: alertType ?? null,
+            acknowledged,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
@@ -0,0 +1,163 @@
+/**
+ * Field Alert Rule Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { getFieldByNodeId } from '../repositories/field.repository.js';
+import {
+    createAlertRule,
+    getAlertRules,
+    getAlertRuleById,
+    updateAlertRule,
+    deleteAlertRule,
+} from '../repositories/alertRule.repository.js';
+import { ALERT_RULE_METRICS, ALERT_RULE_OPERATORS, ALERT_SEVERITY } from '../utils/constants.js';
+
+const nodeIdSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+});
+
+const ruleParamsSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+    ruleId: z.coerce.number().int().positive(),
+});
+
+const quietHourSchema = z.number().int().min(0).max(23).nullable();
+
+// null = server-wide ALERT_TIMEZONE
+const timezoneSchema = z
+    .string()
+    .refine(tz => tz === 'UTC' || Intl.supportedValuesOf('timeZone').includes(tz), {
+        message: 'Unknown IANA time zone',
+    })
+    .nullable();
+
+const alertRuleFieldsSchema = z.object({
+    name: z.string().min(1).max(100),
+    metric: z.nativeEnum(ALERT_RULE_METRICS),
+    operator: z.nativeEnum(ALERT_RULE_OPERATORS),
+    threshold: z.number(),
+    durationMinutes: z.number().int().min(0).max(10080),   // Up to 7 days
+    hysteresis: z.number().min(0),
+    severity: z.nativeEnum(ALERT_SEVERITY),
+    quietHoursStart: quietHourSchema,
+    quietHoursEnd: quietHourSchema,
+    quietHoursTimezone: timezoneSchema,
+    enabled: z.boolean(),
+});
+
+const quietHoursPaired = (data: { quietHoursStart?: number | null | undefined; quietHoursEnd?: number | null | undefined }) =>
+    (data.quietHoursStart === undefined) === (data.quietHoursEnd === undefined) &&
+    (data.quietHoursStart === null) === (data.quietHoursEnd === null);
+
+const quietHoursMessage = { message: 'quietHoursStart and quietHoursEnd must be set (or cleared) together' };
+
+const createAlertRuleSchema = alertRuleFieldsSchema
+    .partial({
+        durationMinutes: true,
+        hysteresis: true,
+        severity: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        quietHoursTimezone: true,
+        enabled: true,
+    })
+    .refine(quietHoursPaired, quietHoursMessage);
+
+const updateAlertRuleSchema = alertRuleFieldsSchema
+    .partial()
+    .refine(data => Object.keys(data).length > 0, { message: 'No fields to update' })
+    .refine(quietHoursPaired, quietHoursMessage);
+
+/**
+ * GET /api/fields/:nodeId/alert-rules
+ * List alert rules for field
+ */
+export async function getAlertRulesController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    const field = await getFieldByNodeId(nodeId);
+    const rules = await getAlertRules(field.id);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            total: rules.length,
+            rules,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/fields/:nodeId/alert-rules
+ * Create alert rule, e.g. { name, metric: 'VWC', operator: 'LT', threshold: 18, durationMinutes: 360 }
+ * Quiet hours are local to quietHoursTimezone, e.g. { quietHoursStart: 22, quietHoursEnd: 6, quietHoursTimezone: 'Asia/Kolkata' }
+ */
+export async function createAlertRuleController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+    const data = createAlertRuleSchema.parse(req.body);
+
+    const field = await getFieldByNodeId(nodeId);
+    const rule = await createAlertRule({ fieldId: field.id, ...data });
+
+    res.status(201).json({
+        status: 'ok',
+        data: rule,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/fields/:nodeId/alert-rules/:ruleId
+ * Get alert rule with its current evaluation state
+ */
+export async function getAlertRuleController(req: Request, res: Response): Promise<void> {
+    const { nodeId, ruleId } = ruleParamsSchema.parse(req.params);
+
+    const field = await getFieldByNodeId(nodeId);
+    const rule = await getAlertRuleById(field.id, ruleId);
+
+    res.json({
+        status: 'ok',
+        data: rule,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * PATCH /api/fields/:nodeId/alert-rules/:ruleId
+ * Update alert rule
+ */
+export async function updateAlertRuleController(req: Request, res: Response): Promise<void> {
+    const { nodeId, ruleId } = ruleParamsSchema.parse(req.params);
+    const data = updateAlertRuleSchema.parse(req.body);
+
+    const field = await getFieldByNodeId(nodeId);
+    const rule = await updateAlertRule(field.id, ruleId, data);
+
+    res.json({
+        status: 'ok',
+        data: rule,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * DELETE /api/fields/:nodeId/alert-rules/:ruleId
+ * Delete alert rule
+ */
+export async function deleteAlertRuleController(req: Request, res: Response): Promise<void> {
+    const { nodeId, ruleId } = ruleParamsSchema.parse(req.params);
+
+    const field = await getFieldByNodeId(nodeId);
+    await deleteAlertRule(field.id, ruleId);
+
+    res.json({
+        status: 'ok',
+        data: { nodeId, ruleId, deleted: true },
+        timestamp: new Date().toISOString(),
+    });
+}
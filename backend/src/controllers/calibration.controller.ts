@@ -0,0 +1,193 @@
+/**
+ * Node Calibration Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { getNodeByNodeId } from '../repositories/node.repository.js';
+import {
+    createCalibrationSamples,
+    getCalibrationSamples,
+    deleteCalibrationSample,
+    getCalibrationProfiles,
+    activateCalibrationProfile,
+    deactivateCalibrationProfiles,
+} from '../repositories/calibration.repository.js';
+import { fitCalibrationProfile } from '../services/sensor/calibrationProfile.service.js';
+import { CALIBRATION_CONSTANTS, CALIBRATION_FIT_METHODS } from '../utils/constants.js';
+
+const nodeIdSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+});
+
+const sampleParamsSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+    sampleId: z.coerce.number().int().positive(),
+});
+
+const versionParamsSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+    version: z.coerce.number().int().positive(),
+});
+
+const calibrationSamplesSchema = z.object({
+    samples: z
+        .array(
+            z.object({
+                rawValue: z.number().min(0),
+                labVWC: z.number().min(0).max(100),
+                sampledAt: z.string().datetime().optional(),
+                notes: z.string().max(500).optional(),
+            })
+        )
+        .min(1)
+        .max(500),
+});
+
+const fitCalibrationSchema = z.object({
+    method: z.nativeEnum(CALIBRATION_FIT_METHODS).default('POLYNOMIAL'),
+    degree: z.number().int().min(1).max(CALIBRATION_CONSTANTS.MAX_POLYNOMIAL_DEGREE).optional(),
+    since: z.string().datetime().optional(),
+    activate: z.boolean().default(true),
+    notes: z.string().max(500).optional(),
+});
+
+/**
+ * GET /api/nodes/:nodeId/calibration
+ * List calibration profile versions and the active one
+ */
+export async function getCalibrationController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    await getNodeByNodeId(nodeId);
+    const profiles = await getCalibrationProfiles(nodeId);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            active: profiles.find(p => p.isActive) ?? null,
+            profiles,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/nodes/:nodeId/calibration/samples
+ * List gravimetric calibration samples
+ */
+export async function getCalibrationSamplesController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    await getNodeByNodeId(nodeId);
+    const samples = await getCalibrationSamples(nodeId);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            total: samples.length,
+            samples,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/nodes/:nodeId/calibration/samples
+ * Upload paired (raw reading, lab VWC) samples
+ */
+export async function addCalibrationSamplesController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+    const { samples } = calibrationSamplesSchema.parse(req.body);
+
+    await getNodeByNodeId(nodeId);
+    const created = await createCalibrationSamples(
+        nodeId,
+        samples.map(s => ({
+            rawValue: s.rawValue,
+            labVWC: s.labVWC,
+            sampledAt: s.sampledAt ? new Date(s.sampledAt) : undefined,
+            notes: s.notes,
+        }))
+    );
+
+    res.status(201).json({
+        status: 'ok',
+        data: { nodeId, created },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * DELETE /api/nodes/:nodeId/calibration/samples/:sampleId
+ * Remove an outlier sample before refitting
+ */
+export async function deleteCalibrationSampleController(req: Request, res: Response): Promise<void> {
+    const { nodeId, sampleId } = sampleParamsSchema.parse(req.params);
+
+    await deleteCalibrationSample(nodeId, sampleId);
+
+    res.json({
+        status: 'ok',
+        data: { nodeId, sampleId, deleted: true },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/nodes/:nodeId/calibration/fit
+ * Fit new profile version from samples (activated by default)
+ */
+export async function fitCalibrationController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+    const options = fitCalibrationSchema.parse(req.body ?? {});
+
+    const profile = await fitCalibrationProfile(nodeId, {
+        method: options.method,
+        degree: options.degree,
+        since: options.since ? new Date(options.since) : undefined,
+        activate: options.activate,
+        notes: options.notes,
+    });
+
+    res.status(201).json({
+        status: 'ok',
+        data: profile,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/nodes/:nodeId/calibration/:version/activate
+ * Switch active profile version
+ */
+export async function activateCalibrationController(req: Request, res: Response): Promise<void> {
+    const { nodeId, version } = versionParamsSchema.parse(req.params);
+
+    const profile = await activateCalibrationProfile(nodeId, version);
+
+    res.json({
+        status: 'ok',
+        data: profile,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/nodes/:nodeId/calibration/deactivate
+ * Revert node to default conversion
+ */
+export async function deactivateCalibrationController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    await getNodeByNodeId(nodeId);
+    const deactivated = await deactivateCalibrationProfiles(nodeId);
+
+    res.json({
+        status: 'ok',
+        data: { nodeId, deactivated },
+        timestamp: new Date().toISOString(),
+    });
+}
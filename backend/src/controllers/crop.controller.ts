@@ -4,18 +4,24 @@
 
 import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { getCropRecommendations } from '../services/crop/crop.service.js';
+import { getCropRecommendations, getCropRecommendationHistory } from '../services/crop/crop.service.js';
+import { CROP_RECOMMENDATION_CONSTANTS } from '../utils/constants.js';
 
-const nodeIdSchema = z.object({
-    nodeId: z.coerce.number().int().positive(),
+const historyQuerySchema = z.object({
+    weeks: z.coerce
+        .number()
+        .int()
+        .positive()
+        .max(CROP_RECOMMENDATION_CONSTANTS.MAX_HISTORY_WEEKS)
+        .default(CROP_RECOMMENDATION_CONSTANTS.HISTORY_WEEKS),
 });
 
 /**
  * GET /api/crops/recommend/:nodeId
- * Get crop recommendations for field
+ * Get crop recommendations for field (each run is stored for history)
  */
 export async function getCropRecommendationsController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
 
     const recommendation = await getCropRecommendations(nodeId);
 
@@ -25,3 +31,20 @@ export async function getCropRecommendationsController(req: Request, res: Respon
         timestamp: new Date().toISOString(),
     });
 }
+
+/**
+ * GET /api/crops/recommend/:nodeId/history?weeks=8
+ * Stored recommendation runs and weekly suitability trend up to sowing (or now)
+ */
+export async function getCropRecommendationHistoryController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { weeks } = historyQuerySchema.parse(req.query);
+
+    const history = await getCropRecommendationHistory(nodeId, weeks);
+
+    res.json({
+        status: 'ok',
+        data: history,
+        timestamp: new Date().toISOString(),
+    });
+}
@@ -0,0 +1,106 @@
+/**
+ * Data Export Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { streamExport } from '../services/export.service.js';
+import { EXPORT_DATASETS, EXPORT_FORMATS } from '../utils/constants.js';
+import type { ExportFilters } from '../models/common.types.js';
+
+const datasetParamSchema = z.object({
+    // URL form is kebab-case: /api/exports/sensor-readings
+    dataset: z
+        .string()
+        .transform(value => value.toUpperCase().replace(/-/g, '_'))
+        .pipe(z.nativeEnum(EXPORT_DATASETS)),
+});
+
+const exportQuerySchema = z
+    .object({
+        format: z
+            .string()
+            .transform(value => value.toUpperCase())
+            .pipe(z.nativeEnum(EXPORT_FORMATS))
+            .default(EXPORT_FORMATS.CSV),
+        nodeIds: z
+            .string()
+            .transform(value => value.split(',').map(id => id.trim()))
+            .pipe(z.array(z.coerce.number().int().positive()))
+            .optional(),
+        gatewayIds: z
+            .string()
+            .transform(value => value.split(',').map(id => id.trim()).filter(Boolean))
+            .optional(),
+        startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    })
+    .refine(query => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+        message: 'startDate must be on or before endDate',
+    });
+
+const CONTENT_TYPES = {
+    CSV: 'text/csv; charset=utf-8',
+    NDJSON: 'application/x-ndjson; charset=utf-8',
+} as const;
+
+/**
+ * Resolve once the socket can take more data, or the client has gone
+ */
+function waitForDrain(res: Response): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+    });
+}
+
+/**
+ * GET /api/exports/:dataset?format=csv&nodeIds=1,2&startDate=2025-06-01&endDate=2025-10-31
+ * Stream sensor-readings, weather-readings, gdd-records, irrigation-decisions or irrigation-events
+ */
+export async function exportDatasetController(req: Request, res: Response): Promise<void> {
+    const { dataset } = datasetParamSchema.parse(req.params);
+    const query = exportQuerySchema.parse(req.query);
+
+    const filters: ExportFilters = {
+        nodeIds: query.nodeIds,
+        gatewayIds: query.gatewayIds,
+    };
+    if (query.startDate) filters.startDate = new Date(query.startDate);
+    if (query.endDate) {
+        const endDate = new Date(query.endDate);
+        endDate.setHours(23, 59, 59, 999);
+        filters.endDate = endDate;
+    }
+
+    const extension = query.format === EXPORT_FORMATS.CSV ? 'csv' : 'ndjson';
+    const filename = [req.params.dataset, query.startDate, query.endDate].filter(Boolean).join('_');
+
+    res.setHeader('Content-Type', CONTENT_TYPES[query.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${extension}"`);
+
+    try {
+        for await (const chunk of streamExport(dataset, query.format, filters)) {
+            // Client went away: leaving the loop stops the cursor
+            if (res.destroyed) {
+                return;
+            }
+            if (!res.write(chunk)) {
+                await waitForDrain(res);
+            }
+        }
+        res.end();
+    } catch (error) {
+        if (!res.headersSent) {
+            res.removeHeader('Content-Disposition');
+            throw error;
+        }
+        // Mid-stream failure: abort so the client sees a truncated transfer, not a complete file
+        res.destroy(error as Error);
+    }
+}
@@ -3,7 +3,14 @@ import type { Request, Response } from 'express';
 import { z } from 'zod';
 import * as fieldRepo from '../repositories/field.repository.js';
 import type { UPCropName } from '../utils/constants.js';
-import { UP_VALID_CROPS, CROP_DATABASE } from '../utils/constants.js';
+import { UP_VALID_CROPS, CROP_DATABASE, AIR_DATA_STATUS, FIELD_AGGREGATION_STRATEGIES } from '../utils/constants.js';
+import type { FieldAggregationStrategy } from '../utils/constants.js';
+import { assertGatewayRegistered, getFieldAirDataStatus } from '../services/gateway/gateway.service.js';
+import { addFieldNode, removeFieldNode } from '../services/field/fieldNode.service.js';
+import { aggregateFieldMoisture, analyzeFieldMoisture } from '../services/field/fieldMoisture.service.js';
+import { findPendingNode } from '../repositories/pendingNode.repository.js';
+import { getAggregatedReadings } from '../repositories/aggregatedReading.repository.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
 
 const createFieldSchema = z.object({
     nodeId: z.number().int().positive(),
@@ -16,11 +23,13 @@ const createFieldSchema = z.object({
 });
 
 const updateFieldSchema = z.object({
+    gatewayId: z.string().min(1).optional(),
     fieldName: z.string().min(1).optional(),
     latitude: z.number().min(-90).max(90).optional(),
     longitude: z.number().min(-180).max(180).optional(),
     soilTexture: z.enum(['SANDY', 'SANDY_LOAM', 'LOAM', 'CLAY_LOAM', 'CLAY']).optional(),
     location: z.string().optional(),
+    aggregationStrategy: z.nativeEnum(FIELD_AGGREGATION_STRATEGIES).optional(),
 });
 
 // ✅ FIXED: Uses UP_VALID_CROPS from constants (9 crops only)
@@ -29,8 +38,25 @@ const setCropSchema = z.object({
     sowingDate: z.string().datetime(),
 });
 
-const nodeIdSchema = z.object({
-    nodeId: z.coerce.number().int().positive(),
+const memberNodeSchema = z.object({
+    nodeId: z.number().int().positive(),
+});
+
+const memberNodeParamsSchema = z.object({
+    memberNodeId: z.coerce.number().int().positive(),
+});
+
+const moistureQuerySchema = z.object({
+    strategy: z.nativeEnum(FIELD_AGGREGATION_STRATEGIES).optional(),
+});
+
+const aggregatesQuerySchema = z.object({
+    hours: z.coerce.number().int().positive().max(24 * 90).default(24),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+const airDataQuerySchema = z.object({
+    missingOnly: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
 });
 
 /**
@@ -39,6 +65,26 @@ const nodeIdSchema = z.object({
 export async function createFieldController(req: Request, res: Response): Promise<void> {
     const data = createFieldSchema.parse(req.body);
 
+    await assertGatewayRegistered(data.gatewayId);
+
+    // Held readings would be orphaned; the claim creates the field and replays them
+    if (await findPendingNode(data.nodeId)) {
+        throw new ConflictError(
+            `Node ${data.nodeId} is pending registration; claim it via POST /api/nodes/pending/${data.nodeId}/claim`
+        );
+    }
+
+    // Member nodes belong to their field; making one a primary would silently move it
+    try {
+        const existing = await fieldRepo.getFieldByNodeId(data.nodeId);
+        throw new ConflictError(`Node ${data.nodeId} already belongs to field ${existing.id}`, {
+            nodeId: data.nodeId,
+            fieldId: existing.id,
+        });
+    } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+    }
+
     const field = await fieldRepo.createField(data);
 
     res.status(201).json({
@@ -49,12 +95,10 @@ export async function createFieldController(req: Request, res: Response): Promis
 }
 
 /**
- * GET /api/fields/:nodeId
+ * GET /api/fields/:nodeId | /api/fields/field/:fieldId
  */
-export async function getFieldController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
-
-    const field = await fieldRepo.getFieldByNodeId(nodeId);
+export async function getFieldController(_req: Request, res: Response): Promise<void> {
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
 
     res.json({
         status: 'ok',
@@ -77,27 +121,38 @@ export async function getAllFieldsController(_req: Request, res: Response): Prom
 }
 
 /**
- * PATCH /api/fields/:nodeId
+ * GET /api/fields/air-data?missingOnly=true
+ * Fields whose gateway link supplies no (recent) air temperature, which stalls GDD
  */
-export async function updateFieldController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
-    const updates = updateFieldSchema.parse(req.body);
+export async function getFieldAirDataController(req: Request, res: Response): Promise<void> {
+    const { missingOnly } = airDataQuerySchema.parse(req.query);
 
-    const { prisma } = await import('../config/database.js');
+    const statuses = await getFieldAirDataStatus();
+    const missing = statuses.filter(s => s.status !== AIR_DATA_STATUS.OK);
+
+    res.json({
+        status: 'ok',
+        data: {
+            total: statuses.length,
+            missing: missing.length,
+            fields: missingOnly ? missing : statuses,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
 
-    // Only include fields that were actually provided (not undefined)
-    const updateData: Record<string, string | number> = {};
+/**
+ * PATCH /api/fields/:nodeId | /api/fields/field/:fieldId
+ */
+export async function updateFieldController(req: Request, res: Response): Promise<void> {
+    const fieldId = res.locals.fieldId as number;
+    const updates = updateFieldSchema.parse(req.body);
 
-    if (updates.fieldName !== undefined) updateData.fieldName = updates.fieldName;
-    if (updates.latitude !== undefined) updateData.latitude = updates.latitude;
-    if (updates.longitude !== undefined) updateData.longitude = updates.longitude;
-    if (updates.soilTexture !== undefined) updateData.soilTexture = updates.soilTexture;
-    if (updates.location !== undefined) updateData.location = updates.location;
+    if (updates.gatewayId !== undefined) {
+        await assertGatewayRegistered(updates.gatewayId);
+    }
 
-    const field = await prisma.field.update({
-        where: { nodeId },
-        data: updateData as any,
-    });
+    const field = await fieldRepo.updateField(fieldId, updates);
 
     res.json({
         status: 'ok',
@@ -107,11 +162,11 @@ export async function updateFieldController(req: Request, res: Response): Promis
 }
 
 /**
- * POST /api/fields/:nodeId/crop
+ * POST /api/fields/:nodeId/crop | /api/fields/field/:fieldId/crop
  * ✅ FIXED: Only accepts 9 crops from UP_VALID_CROPS
  */
 export async function setCropController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const fieldId = res.locals.fieldId as number;
     const { cropType, sowingDate } = setCropSchema.parse(req.body);
 
     // Type assertion for cropType - guaranteed valid by Zod
@@ -128,7 +183,7 @@ export async function setCropController(req: Request, res: Response): Promise<vo
         return;
     }
 
-    const field = await fieldRepo.updateFieldCrop(nodeId, {
+    const field = await fieldRepo.updateFieldCrop(fieldId, {
         cropType: validCropType,
         sowingDate: new Date(sowingDate),
         baseTemperature: cropParams.baseTemperature,
@@ -143,20 +198,115 @@ export async function setCropController(req: Request, res: Response): Promise<vo
 }
 
 /**
- * DELETE /api/fields/:nodeId
+ * DELETE /api/fields/:nodeId | /api/fields/field/:fieldId
  */
-export async function deleteFieldController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+export async function deleteFieldController(_req: Request, res: Response): Promise<void> {
+    const fieldId = res.locals.fieldId as number;
 
-    const { prisma } = await import('../config/database.js');
+    const field = await fieldRepo.deleteField(fieldId);
 
-    await prisma.field.delete({
-        where: { nodeId },
+    res.json({
+        status: 'ok',
+        data: { fieldId, nodeId: field.nodeId, deleted: true },
+        timestamp: new Date().toISOString(),
     });
+}
+
+/**
+ * GET /api/fields/:nodeId/nodes | /api/fields/field/:fieldId/nodes
+ */
+export async function getFieldNodesController(_req: Request, res: Response): Promise<void> {
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
+    const nodes = await fieldRepo.getFieldNodes(field.id);
+
+    res.json({
+        status: 'ok',
+        data: {
+            fieldId: field.id,
+            primaryNodeId: field.nodeId,
+            aggregationStrategy: field.aggregationStrategy,
+            nodes,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/fields/:nodeId/nodes | /api/fields/field/:fieldId/nodes
+ * Add member node to field
+ */
+export async function addFieldNodeController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = memberNodeSchema.parse(req.body);
+
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
+    const nodes = await addFieldNode(field.id, nodeId);
+
+    res.status(201).json({
+        status: 'ok',
+        data: { fieldId: field.id, primaryNodeId: field.nodeId, nodes },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * DELETE /api/fields/:nodeId/nodes/:memberNodeId | /api/fields/field/:fieldId/nodes/:memberNodeId
+ */
+export async function removeFieldNodeController(req: Request, res: Response): Promise<void> {
+    const { memberNodeId } = memberNodeParamsSchema.parse(req.params);
+
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
+    const nodes = await removeFieldNode(field.id, memberNodeId);
+
+    res.json({
+        status: 'ok',
+        data: { fieldId: field.id, primaryNodeId: field.nodeId, nodes },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/fields/:nodeId/moisture?strategy=DRIEST (or /api/fields/field/:fieldId/moisture)
+ * Live field-level moisture with fuzzy soil status; strategy overrides the field's configured one for comparison
+ */
+export async function getFieldMoistureController(req: Request, res: Response): Promise<void> {
+    const { strategy } = moistureQuerySchema.parse(req.query);
+
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
+    const moisture = await aggregateFieldMoisture(field, strategy ?? (field.aggregationStrategy as FieldAggregationStrategy));
+
+    if (!moisture) {
+        throw new NotFoundError('SensorReading', `No fresh readings for fieldId=${field.id}`);
+    }
+
+    res.json({
+        status: 'ok',
+        data: {
+            ...moisture,
+            analysis: analyzeFieldMoisture(field, moisture),
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/fields/:nodeId/aggregates?hours=24&limit=100 (or /api/fields/field/:fieldId/aggregates)
+ * Stored field-level moisture selections
+ */
+export async function getFieldAggregatesController(req: Request, res: Response): Promise<void> {
+    const { hours, limit } = aggregatesQuerySchema.parse(req.query);
+
+    const field = await fieldRepo.getFieldById(res.locals.fieldId as number);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const aggregates = await getAggregatedReadings(field.id, since, limit);
 
     res.json({
         status: 'ok',
-        data: { nodeId, deleted: true },
+        data: {
+            fieldId: field.id,
+            hours,
+            count: aggregates.length,
+            aggregates,
+        },
         timestamp: new Date().toISOString(),
     });
 }
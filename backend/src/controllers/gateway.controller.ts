@@ -0,0 +1,120 @@
+/**
+ * Gateway Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { getAllGateways, getGateway, updateGateway } from '../repositories/gateway.repository.js';
+import {
+    registerGateway,
+    getGatewayDetails,
+    removeGateway,
+    getAttachedNodeIds,
+} from '../services/gateway/gateway.service.js';
+
+// Used in MQTT topics, so no topic separators or wildcards
+const gatewayIdSchema = z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, "-" and "_"');
+
+const gatewayParamsSchema = z.object({
+    gatewayId: gatewayIdSchema,
+});
+
+const createGatewaySchema = z.object({
+    gatewayId: gatewayIdSchema,
+    name: z.string().min(1).max(100).optional(),
+    location: z.string().min(1).optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    firmwareVersion: z.string().min(1).max(32).optional(),
+});
+
+const updateGatewaySchema = z
+    .object({
+        name: z.string().min(1).max(100).nullable(),
+        location: z.string().min(1).nullable(),
+        latitude: z.number().min(-90).max(90).nullable(),
+        longitude: z.number().min(-180).max(180).nullable(),
+        firmwareVersion: z.string().min(1).max(32).nullable(),
+    })
+    .partial()
+    .refine(data => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+/**
+ * POST /api/gateways
+ */
+export async function createGatewayController(req: Request, res: Response): Promise<void> {
+    const data = createGatewaySchema.parse(req.body);
+
+    const gateway = await registerGateway(data);
+
+    res.status(201).json({
+        status: 'ok',
+        data: gateway,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/gateways
+ */
+export async function getGatewaysController(_req: Request, res: Response): Promise<void> {
+    const gateways = await getAllGateways();
+
+    res.json({
+        status: 'ok',
+        data: gateways.map(gateway => ({
+            ...gateway,
+            nodeIds: getAttachedNodeIds(gateway.fields),
+        })),
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/gateways/:gatewayId
+ * Gateway with attached nodes and latest weather reading
+ */
+export async function getGatewayController(req: Request, res: Response): Promise<void> {
+    const { gatewayId } = gatewayParamsSchema.parse(req.params);
+
+    const gateway = await getGatewayDetails(gatewayId);
+
+    res.json({
+        status: 'ok',
+        data: gateway,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * PATCH /api/gateways/:gatewayId
+ */
+export async function updateGatewayController(req: Request, res: Response): Promise<void> {
+    const { gatewayId } = gatewayParamsSchema.parse(req.params);
+    const updates = updateGatewaySchema.parse(req.body);
+
+    await getGateway(gatewayId); // 404 before update
+    const gateway = await updateGateway(gatewayId, updates);
+
+    res.json({
+        status: 'ok',
+        data: gateway,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * DELETE /api/gateways/:gatewayId
+ * Refused while fields are linked to the gateway
+ */
+export async function deleteGatewayController(req: Request, res: Response): Promise<void> {
+    const { gatewayId } = gatewayParamsSchema.parse(req.params);
+
+    await removeGateway(gatewayId);
+
+    res.json({
+        status: 'ok',
+        data: { gatewayId, deleted: true },
+        timestamp: new Date().toISOString(),
+    });
+}
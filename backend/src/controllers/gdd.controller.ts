@@ -11,10 +11,6 @@ import {
     calculateMissingGDD,
 } from '../services/gdd/gdd.service.js';
 
-const nodeIdSchema = z.object({
-    nodeId: z.coerce.number().int().positive(),
-});
-
 const dateSchema = z.object({
     date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 });
@@ -29,7 +25,7 @@ const dateRangeSchema = z.object({
  * Get current GDD status for field
  */
 export async function getGDDStatusController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
 
     const status = await getGDDStatus(nodeId);
 
@@ -45,7 +41,7 @@ export async function getGDDStatusController(req: Request, res: Response): Promi
  * Calculate GDD for specific date
  */
 export async function calculateGDDController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
     const { date } = dateSchema.parse(req.body);
 
     const result = await calculateDailyGDD(nodeId, new Date(date));
@@ -62,7 +58,7 @@ export async function calculateGDDController(req: Request, res: Response): Promi
  * Recalculate GDD for date range
  */
 export async function recalculateGDDController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
     const { startDate, endDate } = dateRangeSchema.parse(req.body);
 
     const count = await recalculateGDDRange(
@@ -88,7 +84,7 @@ export async function recalculateGDDController(req: Request, res: Response): Pro
  * Calculate missing GDD records since sowing
  */
 export async function calculateMissingGDDController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
 
     const count = await calculateMissingGDD(nodeId);
 
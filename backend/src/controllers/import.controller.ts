@@ -0,0 +1,82 @@
+/**
+ * CSV Import Controller
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { importCsv, CSV_IMPORT_TARGETS } from '../services/csvImport.service.js';
+import {
+    CSV_IMPORT_TYPES,
+    MOISTURE_UNITS,
+    TEMPERATURE_UNITS,
+    TIMESTAMP_FORMATS,
+    CSV_CHARSETS,
+} from '../utils/constants.js';
+import type { CsvImportType } from '../utils/constants.js';
+import { ValidationError } from '../utils/errors.js';
+
+const importQuerySchema = z.object({
+    mapping: z
+        .string()
+        .transform((value, ctx) => {
+            try {
+                return JSON.parse(value) as unknown;
+            } catch {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'mapping must be a JSON object' });
+                return z.NEVER;
+            }
+        })
+        .pipe(z.record(z.string().min(1)))
+        .default('{}'),
+    nodeId: z.coerce.number().int().positive().optional(),
+    gatewayId: z.string().min(1).optional(),
+    moistureUnit: z.nativeEnum(MOISTURE_UNITS).default(MOISTURE_UNITS.VWC_PERCENT),
+    temperatureUnit: z.nativeEnum(TEMPERATURE_UNITS).default(TEMPERATURE_UNITS.CELSIUS),
+    timestampFormat: z.nativeEnum(TIMESTAMP_FORMATS).default(TIMESTAMP_FORMATS.ISO),
+    charset: z.nativeEnum(CSV_CHARSETS).default(CSV_CHARSETS.UTF8),
+    delimiter: z.string().length(1).default(','),
+    dryRun: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+});
+
+/**
+ * Parse query options and run import for target table
+ */
+async function runImport(type: CsvImportType, req: Request, res: Response): Promise<void> {
+    const query = importQuerySchema.parse(req.query);
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Request body must be CSV (Content-Type: text/csv)');
+    }
+
+    const unknownTargets = Object.keys(query.mapping)
+        .filter(target => !(CSV_IMPORT_TARGETS[type] as readonly string[]).includes(target));
+    if (unknownTargets.length > 0) {
+        throw new ValidationError(
+            `Unknown mapping fields: ${unknownTargets.join(', ')} (expected ${CSV_IMPORT_TARGETS[type].join(', ')})`
+        );
+    }
+
+    const result = await importCsv(req.body, { type, ...query });
+
+    res.status(query.dryRun ? 200 : 201).json({
+        status: 'ok',
+        data: result,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/imports/sensors?nodeId=1&mapping={"timestamp":"Date","moisture":"VWC"}&moistureUnit=VWC_PERCENT&dryRun=true
+ * Import historical soil readings from CSV body
+ */
+export async function importSensorCsvController(req: Request, res: Response): Promise<void> {
+    await runImport(CSV_IMPORT_TYPES.SENSOR, req, res);
+}
+
+/**
+ * POST /api/imports/weather?gatewayId=gw-01&temperatureUnit=FAHRENHEIT&dryRun=false
+ * Import historical gateway air readings from CSV body, then backfill GDD
+ */
+export async function importWeatherCsvController(req: Request, res: Response): Promise<void> {
+    await runImport(CSV_IMPORT_TYPES.WEATHER, req, res);
+}
@@ -7,11 +7,73 @@ import { z } from 'zod';
 import {
     makeIrrigationDecision,
     getIrrigationRecommendations,
+    confirmIrrigationAction,
 } from '../services/irrigation/irrigation.service.js';
+import {
+    getWaterBalanceLedger,
+    rebuildWaterBalance,
+    recordObservedRainfall,
+} from '../services/irrigation/waterBalance.service.js';
+import { getIrrigationSchedule } from '../services/irrigation/schedule.service.js';
 import { getAllFields } from '../repositories/field.repository.js';
+import { getIrrigationLogs, getIrrigationEvents } from '../repositories/irrigation.repository.js';
+import type { IrrigationLogFilters } from '../repositories/irrigation.repository.js';
+import { IRRIGATION_URGENCY, IRRIGATION_METHODS, IRRIGATION_CONSTANTS } from '../utils/constants.js';
+
+const historyQuerySchema = z.object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    urgency: z
+        .string()
+        .transform(value => value.split(',').map(u => u.trim().toUpperCase()))
+        .pipe(z.array(z.nativeEnum(IRRIGATION_URGENCY)))
+        .optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+const irrigationActionSchema = z
+    .object({
+        method: z.nativeEnum(IRRIGATION_METHODS),
+        // A future time would hold irrigate decisions until then
+        appliedAt: z
+            .string()
+            .datetime()
+            .refine(
+                value => new Date(value).getTime() <= Date.now() + IRRIGATION_CONSTANTS.ACTION_MAX_CLOCK_SKEW_MINUTES * 60 * 1000,
+                { message: 'appliedAt is in the future' }
+            )
+            .optional(),
+        depthMm: z.number().positive().max(500).optional(),
+        volumeLiters: z.number().positive().optional(),
+        areaM2: z.number().positive().optional(),
+        logId: z.number().int().positive().optional(),
+        notes: z.string().max(500).optional(),
+    })
+    .refine(
+        data => data.depthMm !== undefined || (data.volumeLiters !== undefined && data.areaM2 !== undefined),
+        { message: 'Provide depthMm, or volumeLiters together with areaM2' }
+    );
+
+const waterBalanceQuerySchema = z.object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const observedRainfallSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    rainfallMm: z.number().min(0).max(500),
+});
+
+const rebuildWaterBalanceSchema = z.object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const scheduleQuerySchema = z.object({
+    method: z.nativeEnum(IRRIGATION_METHODS).default('drip'),
+});
 
-const nodeIdSchema = z.object({
-    nodeId: z.coerce.number().int().positive(),
+const actionsQuerySchema = z.object({
+    days: z.coerce.number().int().positive().max(365).default(30),
 });
 
 /**
@@ -19,7 +81,7 @@ const nodeIdSchema = z.object({
  * Get irrigation decision for specific field
  */
 export async function getIrrigationDecisionController(req: Request, res: Response): Promise<void> {
-    const { nodeId } = nodeIdSchema.parse(req.params);
+    const nodeId = res.locals.nodeId as number;
 
     const decision = await makeIrrigationDecision(nodeId);
 
@@ -51,3 +113,157 @@ export async function getIrrigationRecommendationsController(req: Request, res:
         timestamp: new Date().toISOString(),
     });
 }
+
+/**
+ * GET /api/irrigation/:nodeId/history?startDate=2025-01-01&endDate=2025-01-07&urgency=HIGH,CRITICAL
+ * Get logged irrigation decisions for field
+ */
+export async function getIrrigationHistoryController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const query = historyQuerySchema.parse(req.query);
+
+    const filters: IrrigationLogFilters = { nodeId, limit: query.limit };
+    if (query.startDate) filters.startDate = new Date(query.startDate);
+    if (query.endDate) filters.endDate = new Date(query.endDate);
+    if (query.urgency) filters.urgency = query.urgency;
+
+    const logs = await getIrrigationLogs(filters);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            total: logs.length,
+            logs,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/irrigation/:nodeId/actions
+ * Record water actually applied to field
+ */
+export async function recordIrrigationActionController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { appliedAt, ...body } = irrigationActionSchema.parse(req.body);
+
+    const result = await confirmIrrigationAction(nodeId, {
+        ...body,
+        appliedAt: appliedAt ? new Date(appliedAt) : new Date(),
+    });
+
+    res.status(201).json({
+        status: 'ok',
+        data: result,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/irrigation/:nodeId/actions?days=30
+ * Get recorded irrigation actions for field
+ */
+export async function getIrrigationActionsController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { days } = actionsQuerySchema.parse(req.query);
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const events = await getIrrigationEvents(nodeId, since);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            days,
+            total: events.length,
+            totalDepthMm: Number(events.reduce((sum, e) => sum + e.depthMm, 0).toFixed(1)),
+            events,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/irrigation/:nodeId/water-balance?startDate=2025-01-01&endDate=2025-01-31
+ * Get daily root-zone depletion ledger (defaults to last 30 days)
+ */
+export async function getWaterBalanceController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const query = waterBalanceQuerySchema.parse(req.query);
+
+    const endDate = query.endDate ? new Date(query.endDate) : new Date();
+    const startDate = query.startDate ? new Date(query.startDate) : new Date(endDate);
+    if (!query.startDate) {
+        startDate.setDate(startDate.getDate() - 30);
+    }
+
+    const ledger = await getWaterBalanceLedger(nodeId, startDate, endDate);
+
+    res.json({
+        status: 'ok',
+        data: ledger,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/irrigation/:nodeId/water-balance/rainfall
+ * Record observed rainfall for a day
+ */
+export async function recordObservedRainfallController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { date, rainfallMm } = observedRainfallSchema.parse(req.body);
+
+    const recalculated = await recordObservedRainfall(nodeId, new Date(date), rainfallMm);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            date,
+            rainfallMm,
+            recalculated,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/irrigation/:nodeId/water-balance/rebuild
+ * Recompute ledger from date (defaults to sowing date)
+ */
+export async function rebuildWaterBalanceController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { startDate } = rebuildWaterBalanceSchema.parse(req.body ?? {});
+
+    const recalculated = await rebuildWaterBalance(nodeId, startDate ? new Date(startDate) : undefined);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            recalculated,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/irrigation/:nodeId/schedule?method=drip
+ * Project depletion over forecast window and plan irrigation dates and depths
+ */
+export async function getIrrigationScheduleController(req: Request, res: Response): Promise<void> {
+    const nodeId = res.locals.nodeId as number;
+    const { method } = scheduleQuerySchema.parse(req.query);
+
+    const schedule = await getIrrigationSchedule(nodeId, method);
+
+    res.json({
+        status: 'ok',
+        data: schedule,
+        timestamp: new Date().toISOString(),
+    });
+}
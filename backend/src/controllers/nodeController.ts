@@ -2,12 +2,48 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
+import { getNodeHealth } from '../services/node/nodeHealth.service.js';
+import { getFleetStatus } from '../services/node/nodeStatus.service.js';
+import { claimPendingNode, discardPendingNode } from '../services/node/pendingNode.service.js';
+import { getPendingNodes } from '../repositories/pendingNode.repository.js';
+import { NODE_CONSTANTS, PAYLOAD_ENCODINGS, SOIL_TEXTURES } from '../utils/constants.js';
 
 const createNodeSchema = z.object({
     nodeId: z.number().int().positive(),
     location: z.string().optional(),
     burialDepth: z.number().int().optional(),
     distanceToGW: z.number().optional(),
+    reportIntervalSec: z.number().int().min(10).max(86400).optional(),
+    payloadEncoding: z.nativeEnum(PAYLOAD_ENCODINGS).optional(),
+});
+
+const nodeIdSchema = z.object({
+    nodeId: z.coerce.number().int().positive(),
+});
+
+// Real location and soil are required: they drive weather lookups, VWC conversion and irrigation math
+const claimPendingNodeSchema = z.object({
+    gatewayId: z.string().min(1),
+    fieldName: z.string().min(1),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    soilTexture: z.nativeEnum(SOIL_TEXTURES),
+    location: z.string().optional(),
+    burialDepth: z.number().int().optional(),
+    reportIntervalSec: z.number().int().min(10).max(86400).optional(),
+    payloadEncoding: z.nativeEnum(PAYLOAD_ENCODINGS).optional(),
+});
+
+const claimIntoFieldSchema = z.object({
+    fieldId: z.number().int().positive(),
+    location: z.string().optional(),
+    burialDepth: z.number().int().optional(),
+    reportIntervalSec: z.number().int().min(10).max(86400).optional(),
+    payloadEncoding: z.nativeEnum(PAYLOAD_ENCODINGS).optional(),
+});
+
+const healthQuerySchema = z.object({
+    days: z.coerce.number().int().positive().max(90).default(NODE_CONSTANTS.HEALTH_WINDOW_DAYS),
 });
 
 export async function createNodeController(req: Request, res: Response): Promise<void> {
@@ -21,6 +57,8 @@ export async function createNodeController(req: Request, res: Response): Promise
     if (data.location !== undefined) createData.location = data.location;
     if (data.burialDepth !== undefined) createData.burialDepth = data.burialDepth;
     if (data.distanceToGW !== undefined) createData.distanceToGW = data.distanceToGW;
+    if (data.reportIntervalSec !== undefined) createData.reportIntervalSec = data.reportIntervalSec;
+    if (data.payloadEncoding !== undefined) createData.payloadEncoding = data.payloadEncoding;
 
     // Build update data conditionally
     const updateData: any = {
@@ -29,6 +67,8 @@ export async function createNodeController(req: Request, res: Response): Promise
     if (data.location !== undefined) updateData.location = data.location;
     if (data.burialDepth !== undefined) updateData.burialDepth = data.burialDepth;
     if (data.distanceToGW !== undefined) updateData.distanceToGW = data.distanceToGW;
+    if (data.reportIntervalSec !== undefined) updateData.reportIntervalSec = data.reportIntervalSec;
+    if (data.payloadEncoding !== undefined) updateData.payloadEncoding = data.payloadEncoding;
 
     const node = await prisma.node.upsert({
         where: { nodeId: data.nodeId },
@@ -103,3 +143,116 @@ export async function getNodeController(req: Request, res: Response): Promise<vo
         timestamp: new Date().toISOString(),
     });
 }
+
+/**
+ * GET /api/nodes/status
+ * Fleet-wide online/late/offline summary
+ */
+export async function getFleetStatusController(_req: Request, res: Response): Promise<void> {
+    const status = await getFleetStatus();
+
+    res.json({
+        status: 'ok',
+        data: status,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/nodes/:nodeId/health?days=7
+ * Battery trend, RSSI statistics, packet delivery and sequence duplicate/gap counts
+ */
+export async function getNodeHealthController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+    const { days } = healthQuerySchema.parse(req.query);
+
+    const health = await getNodeHealth(nodeId, days);
+
+    res.json({
+        status: 'ok',
+        data: health,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/nodes/pending
+ * Nodes that reported without a field, with held reading counts
+ */
+export async function getPendingNodesController(_req: Request, res: Response): Promise<void> {
+    const pending = await getPendingNodes();
+
+    res.json({
+        status: 'ok',
+        data: pending.map(({ readings, _count, ...node }) => ({
+            ...node,
+            heldReadings: _count.readings,
+            latestReading: readings[0] ?? null,
+        })),
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * POST /api/nodes/pending/:nodeId/claim
+ * Create the node's field (or join an existing one with { fieldId }) and replay held readings
+ */
+export async function claimPendingNodeController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    let result;
+    if (req.body?.fieldId !== undefined) {
+        const body = claimIntoFieldSchema.parse(req.body);
+
+        result = await claimPendingNode(nodeId, {
+            fieldId: body.fieldId,
+            node: {
+                location: body.location,
+                burialDepth: body.burialDepth,
+                reportIntervalSec: body.reportIntervalSec,
+                payloadEncoding: body.payloadEncoding,
+            },
+        });
+    } else {
+        const body = claimPendingNodeSchema.parse(req.body);
+
+        result = await claimPendingNode(nodeId, {
+            field: {
+                gatewayId: body.gatewayId,
+                fieldName: body.fieldName,
+                latitude: body.latitude,
+                longitude: body.longitude,
+                soilTexture: body.soilTexture,
+                location: body.location,
+            },
+            node: {
+                location: body.location,
+                burialDepth: body.burialDepth,
+                reportIntervalSec: body.reportIntervalSec,
+                payloadEncoding: body.payloadEncoding,
+            },
+        });
+    }
+
+    res.status(201).json({
+        status: 'ok',
+        data: result,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * DELETE /api/nodes/pending/:nodeId
+ * Discard a pending node and its held readings
+ */
+export async function discardPendingNodeController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    const discarded = await discardPendingNode(nodeId);
+
+    res.json({
+        status: 'ok',
+        data: { nodeId, discardedReadings: discarded },
+        timestamp: new Date().toISOString(),
+    });
+}
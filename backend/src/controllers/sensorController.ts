@@ -4,10 +4,58 @@
  */
 
 import type { Request, Response } from 'express';
+import { z } from 'zod';
 import * as sensorService from '../services/sensor/sensor.service.js';
 import * as sensorRepo from '../repositories/sensor.repository.js';
+import { ingestBatch } from '../services/ingest.service.js';
+import { getRejectedFrames } from '../repositories/rejectedFrame.repository.js';
+import type { RejectedFrameFilters } from '../repositories/rejectedFrame.repository.js';
+import { FRAME_REJECTION_REASONS, INGEST_CONSTANTS, SERIES_BUCKETS, SERIES_DEFAULT_RANGE_DAYS } from '../utils/constants.js';
+import type { SeriesBucket } from '../utils/constants.js';
 import { ValidationError } from '../utils/errors.js';
 
+const ingestBatchSchema = z
+    .object({
+        sensors: z.array(z.unknown()).default([]),
+        weather: z.array(z.unknown()).default([]),
+    })
+    .refine(body => body.sensors.length + body.weather.length > 0, {
+        message: 'Batch must contain at least one sensor or weather item',
+    })
+    .refine(body => body.sensors.length + body.weather.length <= INGEST_CONSTANTS.MAX_BATCH_ITEMS, {
+        message: `Batch may contain at most ${INGEST_CONSTANTS.MAX_BATCH_ITEMS} items`,
+    });
+
+const rejectedFramesQuerySchema = z.object({
+    gatewayId: z.string().min(1).optional(),
+    reason: z
+        .string()
+        .transform(value => value.split(',').map(r => r.trim().toUpperCase()))
+        .pipe(z.array(z.nativeEnum(FRAME_REJECTION_REASONS)))
+        .optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+const seriesDateSchema = z.union([
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    z.string().datetime({ offset: true }),
+]);
+
+const seriesQuerySchema = z
+    .object({
+        bucket: z.enum(Object.keys(SERIES_BUCKETS) as [SeriesBucket, ...SeriesBucket[]]).default('1h'),
+        from: seriesDateSchema.optional(),
+        to: seriesDateSchema.optional(),
+        tz: z
+            .string()
+            .refine(tz => tz === 'UTC' || Intl.supportedValuesOf('timeZone').includes(tz), {
+                message: 'Unknown IANA time zone',
+            })
+            .default('UTC'),
+    });
+
 /**
  * Get latest sensor data for a node
  * GET /api/sensors/:nodeId/latest
@@ -113,3 +161,79 @@ export async function getSensorReadings(req: Request, res: Response): Promise<vo
         timestamp: new Date().toISOString(),
     });
 }
+
+/**
+ * Get time-bucketed min/max/avg/count for charts
+ * GET /api/sensors/:nodeId/series?bucket=1h&from=2025-01-01&to=2025-01-03&tz=Asia/Kolkata
+ */
+export async function getSensorSeries(req: Request, res: Response): Promise<void> {
+    const nodeId = z.coerce.number().int().positive().parse(req.params.nodeId);
+    const query = seriesQuerySchema.parse(req.query);
+
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+        ? new Date(query.from)
+        : new Date(to.getTime() - SERIES_DEFAULT_RANGE_DAYS[query.bucket] * 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+        throw new ValidationError('from must be before to');
+    }
+
+    const series = await sensorService.getSensorSeries(nodeId, query.bucket, from, to, query.tz);
+
+    res.json({
+        status: 'ok',
+        data: series,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * Get raw gateway frames that failed decoding or validation
+ * GET /api/sensors/rejected-frames?gatewayId=gw-01&reason=CRC,LENGTH&startDate=2025-01-01
+ */
+export async function getRejectedFramesController(req: Request, res: Response): Promise<void> {
+    const query = rejectedFramesQuerySchema.parse(req.query);
+
+    const filters: RejectedFrameFilters = {
+        gatewayId: query.gatewayId,
+        reason: query.reason,
+        limit: query.limit,
+    };
+    if (query.startDate) filters.startDate = new Date(query.startDate);
+    if (query.endDate) {
+        const endDate = new Date(query.endDate);
+        endDate.setHours(23, 59, 59, 999);
+        filters.endDate = endDate;
+    }
+
+    const frames = await getRejectedFrames(filters);
+
+    res.json({
+        status: 'ok',
+        data: {
+            total: frames.length,
+            frames,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * Batch ingest of buffered sensor and weather payloads from a gateway
+ * POST /api/sensors/ingest
+ * Headers: X-Gateway-Id, Authorization: Bearer <key>
+ * Body: { sensors: SensorPayload[], weather: WeatherPayload[] }
+ */
+export async function ingestBatchController(req: Request, res: Response): Promise<void> {
+    const batch = ingestBatchSchema.parse(req.body ?? {});
+    const gatewayId = res.locals.gatewayId as string;
+
+    const result = await ingestBatch(gatewayId, batch);
+
+    res.json({
+        status: 'ok',
+        data: result,
+        timestamp: new Date().toISOString(),
+    });
+}
@@ -5,7 +5,8 @@
 
 import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { getWeatherForecast } from '../services/weather/weather.sevice.js';
+import { getWeatherForecast, getET0Series } from '../services/weather/weather.sevice.js';
+import { estimateCropET } from '../services/crop/cropCoefficient.service.js';
 import { getFieldByNodeId } from '../repositories/field.repository.js';
 import { ValidationError } from '../utils/errors.js';
 
@@ -44,3 +45,43 @@ export async function getWeatherForecastController(req: Request, res: Response):
         timestamp: new Date().toISOString(),
     });
 }
+
+/**
+ * GET /api/weather/:nodeId/et
+ * Get reference and crop evapotranspiration for field
+ */
+export async function getCropETController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    const et = await estimateCropET(nodeId);
+
+    res.json({
+        status: 'ok',
+        data: et,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * GET /api/weather/:nodeId/et0
+ * Get daily reference ET0 series for forecast window
+ */
+export async function getET0SeriesController(req: Request, res: Response): Promise<void> {
+    const { nodeId } = nodeIdSchema.parse(req.params);
+
+    const field = await getFieldByNodeId(nodeId);
+
+    const series = await getET0Series(field.latitude, field.longitude, field.gatewayId ?? undefined);
+
+    res.json({
+        status: 'ok',
+        data: {
+            nodeId,
+            fieldName: field.fieldName,
+            latitude: field.latitude,
+            totalET0: Number(series.reduce((sum, day) => sum + day.et0, 0).toFixed(1)),
+            series,
+        },
+        timestamp: new Date().toISOString(),
+    });
+}
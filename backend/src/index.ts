@@ -8,6 +8,7 @@ import { env, isDevelopment } from './config/environment.js';
 import { createLogger } from './config/logger.js';
 import { connectDatabase, disconnectDatabase } from './config/database.js';
 import { initializeMQTT, disconnectMQTT } from './services/mqtt.service.js';
+import { initializeWebSocket, closeWebSocket } from './services/websocket.service.js';
 import { startScheduler } from './jobs/scheduler.js';
 
 const logger = createLogger({ service: 'main' });
@@ -40,6 +41,9 @@ async function start(): Promise<void> {
             );
         });
 
+        // Real-time push for dashboards on the same port
+        initializeWebSocket(server);
+
         // Start scheduled jobs
         startScheduler();
 
@@ -53,6 +57,9 @@ async function start(): Promise<void> {
             });
 
             try {
+                // Close WebSocket clients (upgraded sockets would keep the HTTP server open)
+                await closeWebSocket();
+
                 // Disconnect MQTT
                 await disconnectMQTT();
 
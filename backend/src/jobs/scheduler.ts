@@ -2,6 +2,10 @@
  * Scheduled Jobs
  * - Daily GDD calculation
  * - Hourly weather cache refresh
+ * - Hourly water balance ledger update
+ * - Alert checks every 10 minutes
+ * - Offline node detection every 5 minutes
+ * - Daily reading retention (rollup + prune)
  */
 
 import cron from 'node-cron';
@@ -12,6 +16,10 @@ import { calculateMissingGDD } from '../services/gdd/gdd.service.js';
 import { cleanExpiredForecasts } from '../repositories/weather.repository.js';
 import { getAllFields } from '../repositories/field.repository.js';
 import { getWeatherForecast } from '../services/weather/weather.sevice.js';
+import { updateWaterBalance } from '../services/irrigation/waterBalance.service.js';
+import { runScheduledAlertChecks } from '../services/alert/alert.service.js';
+import { detectOfflineNodes } from '../services/node/nodeStatus.service.js';
+import { runRetention } from '../services/retention.service.js';
 
 const logger = createLogger({ service: 'scheduler' });
 
@@ -120,6 +128,112 @@ export function startWeatherCacheJob(): void {
     logger.info({ cronExpression }, 'Weather cache refresh job scheduled');
 }
 
+/**
+ * Hourly water balance ledger job
+ * Runs after weather refresh so today's row uses the latest forecast
+ */
+export function startWaterBalanceJob(): void {
+    const cronExpression = '15 * * * *'; // Every hour at :15
+
+    cron.schedule(cronExpression, async () => {
+        logger.info('Starting water balance ledger job');
+
+        try {
+            const fields = await getAllFields();
+            const activeFields = fields.filter(f => f.cropConfirmed && f.cropType && f.sowingDate);
+
+            let successCount = 0;
+            let failCount = 0;
+
+            for (const field of activeFields) {
+                try {
+                    await updateWaterBalance(field.nodeId);
+                    successCount++;
+                } catch (error) {
+                    logger.error({ error, nodeId: field.nodeId }, 'Water balance update failed for field');
+                    failCount++;
+                }
+            }
+
+            logger.info(
+                { total: activeFields.length, success: successCount, failed: failCount },
+                'Water balance ledger job completed'
+            );
+        } catch (error) {
+            logger.error({ error }, 'Water balance ledger job failed');
+        }
+    });
+
+    logger.info({ cronExpression }, 'Water balance ledger job scheduled');
+}
+
+/**
+ * Alert check job
+ * Gateway weather and silence rules between readings
+ */
+export function startAlertCheckJob(): void {
+    const cronExpression = '*/10 * * * *'; // Every 10 minutes (firmware wake interval)
+
+    cron.schedule(cronExpression, async () => {
+        logger.debug('Starting alert check job');
+
+        try {
+            const { evaluated, raised } = await runScheduledAlertChecks();
+
+            logger.info({ evaluated, raised }, 'Alert check job completed');
+        } catch (error) {
+            logger.error({ error }, 'Alert check job failed');
+        }
+    });
+
+    logger.info({ cronExpression }, 'Alert check job scheduled');
+}
+
+/**
+ * Offline node detection job
+ * Deactivates nodes that missed too many consecutive reports
+ */
+export function startOfflineDetectionJob(): void {
+    const cronExpression = '*/5 * * * *'; // Every 5 minutes (half the default report interval)
+
+    cron.schedule(cronExpression, async () => {
+        logger.debug('Starting offline node detection job');
+
+        try {
+            const { checked, wentOffline } = await detectOfflineNodes();
+
+            logger.info({ checked, wentOffline }, 'Offline node detection job completed');
+        } catch (error) {
+            logger.error({ error }, 'Offline node detection job failed');
+        }
+    });
+
+    logger.info({ cronExpression }, 'Offline node detection job scheduled');
+}
+
+/**
+ * Daily reading retention job
+ * Rolls raw readings past retention into hourly/daily summaries, then prunes them
+ */
+export function startRetentionJob(): void {
+    const hour = env.RETENTION_JOB_HOUR;
+    const cronExpression = `30 ${hour} * * *`; // Daily, clear of the hourly jobs at :00 and :15
+
+    cron.schedule(cronExpression, async () => {
+        logger.info('Starting reading retention job');
+
+        try {
+            const { daysProcessed, readingsPruned, hourlyBucketsPruned } = await runRetention();
+
+            logger.info({ daysProcessed, readingsPruned, hourlyBucketsPruned }, 'Reading retention job completed');
+        } catch (error) {
+            logger.error({ error }, 'Reading retention job failed');
+        }
+    });
+
+    logger.info({ cronExpression, hour }, 'Reading retention job scheduled');
+}
+
 /**
  * Start all scheduled jobs
  */
@@ -128,6 +242,10 @@ export function startScheduler(): void {
 
     startGDDCalculationJob();
     startWeatherCacheJob();
+    startWaterBalanceJob();
+    startAlertCheckJob();
+    startOfflineDetectionJob();
+    startRetentionJob();
 
     logger.info('All scheduled jobs started');
 }
@@ -10,6 +10,14 @@ import type {
     IrrigationUrgency,
     IrrigationMethod,
     Season,
+    NodeStatus,
+    CalibrationFitMethod,
+    SequenceStatus,
+    CsvImportType,
+    SeriesBucket,
+    AirDataStatus,
+    FieldAggregationStrategy,
+    FuzzySoilStatus,
 } from '../utils/constants.js';
 
 /**
@@ -19,9 +27,26 @@ export interface SensorPayload {
     nodeId: number;
     moisture: number;
     temperature: number;
+    rssi?: number | undefined;
+    batteryLevel?: number | undefined;  // %
+    seq?: number | undefined;           // Firmware packet sequence number (0-255)
     timestamp?: string | undefined;
 }
 
+/**
+ * WusnPacket decoded from a raw LoRa frame (firmware struct, little-endian)
+ */
+export interface DecodedWusnPacket {
+    version: number;
+    nodeId: number;
+    seq: number;
+    moisturePctX10: number;     // VWC % × 10
+    tempCX10: number;           // °C × 10
+    batteryPct: number;         // %
+    vbatMv: number;             // mV
+    crc: number;
+}
+
 /**
  * Weather payload from MQTT - air measurements from gateway
  */
@@ -30,6 +55,7 @@ export interface WeatherPayload {
     airTemperature: number;
     humidity: number;
     pressure?: number | undefined;
+    firmwareVersion?: string | undefined;   // Gateway firmware, recorded on the gateway registry
     timestamp?: string | undefined;
 }
 
@@ -38,9 +64,207 @@ export interface WeatherPayload {
  */
 export interface ProcessedSensorData {
     nodeId: number;
+    soilMoistureVWC: number | null;     // Null while the node is pending (soil texture unknown) or for SOS packets
+    soilTemperature: number | null;
+    timestamp: Date;
+    duplicate: boolean;     // Already ingested; nothing stored
+    pending: boolean;       // Node has no field yet; raw reading held for re-processing on claim
+    lowBattery: boolean;    // Low-battery SOS packet: no soil values, only lastSeen and an alert
+}
+
+/**
+ * Per-item result of HTTP batch ingest
+ */
+export interface IngestItemResult {
+    type: 'sensor' | 'weather';
+    index: number;              // Position in the submitted array
+    status: 'stored' | 'duplicate' | 'pending' | 'low_battery' | 'rejected';
+    nodeId?: number | undefined;
+    timestamp?: Date | undefined;
+    error?: string | undefined;
+}
+
+/**
+ * HTTP batch ingest summary
+ */
+export interface IngestBatchResult {
+    gatewayId: string;
+    received: number;
+    stored: number;
+    duplicates: number;
+    pending: number;
+    lowBattery: number;
+    rejected: number;
+    results: IngestItemResult[];
+}
+
+/**
+ * CSV import row validation failure
+ */
+export interface CsvImportRowError {
+    row: number;                // Line number in the file (header is line 1)
+    errors: string[];
+}
+
+/**
+ * CSV import report
+ */
+export interface CsvImportResult {
+    type: CsvImportType;
+    dryRun: boolean;
+    totalRows: number;
+    validRows: number;
+    inserted: number;
+    skippedExisting: number;    // Same node/gateway and timestamp already stored
+    errorRows: number;
+    errors: CsvImportRowError[];
+    errorsTruncated: boolean;
+    analysesCreated: number;    // Fuzzy soil analyses stored for imported sensor readings
+    gddBackfill: Array<{ nodeId: number; calculated: number }>;
+}
+
+/**
+ * Export row filters
+ */
+export interface ExportFilters {
+    nodeIds?: number[] | undefined;
+    gatewayIds?: string[] | undefined;
+    startDate?: Date | undefined;
+    endDate?: Date | undefined;
+}
+
+/**
+ * Keyset cursor: last exported row's sort time and id
+ */
+export interface ExportCursor {
+    at: Date;
+    id: number;
+}
+
+/**
+ * Aggregate of one metric within a time bucket
+ */
+export interface SeriesStats {
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    count: number;
+}
+
+/**
+ * Time bucket of soil (node) and air (gateway) measurements
+ */
+export interface SeriesPoint {
+    bucket: Date;                   // Bucket start (UTC instant of local bucket boundary)
+    soilMoistureVWC: SeriesStats;   // %
+    soilTemperature: SeriesStats;   // °C
+    airTemperature: SeriesStats;    // °C
+    humidity: SeriesStats;          // %
+}
+
+/**
+ * Bucketed series for charts
+ */
+export interface SensorSeries {
+    nodeId: number;
+    gatewayId: string | null;       // Air data source (field gateway)
+    bucket: SeriesBucket;
+    timezone: string;
+    from: Date;
+    to: Date;
+    points: SeriesPoint[];
+}
+
+/**
+ * One member node's contribution to field-level moisture
+ */
+export interface NodeContribution {
+    nodeId: number;
+    readingId: number;
     soilMoistureVWC: number;
-    soilTemperature: number;
+    soilTemperature: number | null;
     timestamp: Date;
+    rssi: number | null;
+    batteryLevel: number | null;
+    calibrated: boolean;
+    quality: number;            // 0-1 (freshness × link × battery × calibration)
+}
+
+/**
+ * Field-level moisture from member nodes
+ */
+export interface FieldMoisture {
+    fieldId: number;
+    strategy: FieldAggregationStrategy;
+    soilMoistureVWC: number;
+    soilTemperature: number | null;
+    timestamp: Date;            // Newest contributing reading
+    nodeCount: number;
+    selectedNodeId: number;     // Node the value comes from (DRIEST/MEDIAN) or most trusted node (MEAN/QUALITY_WEIGHTED)
+    selectionScore: number;     // Quality of selected node
+    selectionReason: string;
+    nodes: NodeContribution[];
+}
+
+/**
+ * Fuzzy dry / optimal / wet classification of a soil moisture reading
+ * Scores are membership degrees (0-100) and sum to 100
+ */
+export interface FuzzySoilAnalysis {
+    fuzzyDryScore: number;
+    fuzzyOptimalScore: number;
+    fuzzyWetScore: number;
+    soilStatus: FuzzySoilStatus;
+    confidence: number;         // 0-100, membership of the dominant set
+    irrigationAdvice: string;
+    urgency: IrrigationUrgency;
+}
+
+/**
+ * Outcome of claiming a pending node and replaying its held readings
+ */
+export interface PendingClaimResult {
+    nodeId: number;
+    fieldId: number;
+    replayed: number;
+    stored: number;
+    duplicates: number;
+    rejected: number;
+    errors: string[];           // First rejection messages
+}
+
+/**
+ * Whether a field gets the gateway air temperature GDD depends on
+ */
+export interface FieldAirData {
+    fieldId: number;
+    nodeId: number;
+    fieldName: string;
+    gatewayId: string | null;
+    status: AirDataStatus;
+    lastAirReadingAt: Date | null;
+    gatewayLastSeen: Date | null;
+}
+
+/**
+ * Retention boundaries (UTC day starts)
+ * Raw readings before rawFrom are moved into rollups; hourly rollups before hourlyFrom are dropped
+ */
+export interface RetentionCutoffs {
+    rawFrom: Date;
+    hourlyFrom: Date;
+}
+
+/**
+ * Outcome of one retention run
+ */
+export interface RetentionRunResult {
+    cutoffs: RetentionCutoffs;
+    daysProcessed: number;
+    readingsPruned: number;
+    hourlyBucketsWritten: number;
+    dailyBucketsWritten: number;
+    hourlyBucketsPruned: number;
 }
 
 /**
@@ -103,9 +327,23 @@ export interface WeatherForecastDay {
     tempAvg: number;        // °C
     humidity: number;       // %
     precipitation: number;  // mm
+    windSpeed?: number | undefined;  // m/s at 10 m (absent in older cached forecasts)
     description: string;
 }
 
+/**
+ * Daily reference ET0 forecast entry
+ */
+export interface ET0ForecastDay {
+    date: string;           // YYYY-MM-DD
+    et0: number;            // mm/day
+    method: 'hargreaves_samani' | 'penman_monteith';
+    ra: number;             // Extraterrestrial radiation (MJ m⁻² day⁻¹)
+    tempMin: number;        // °C
+    tempMax: number;        // °C
+    precipitation: number;  // mm
+}
+
 /**
  * Complete weather forecast
  */
@@ -139,6 +377,7 @@ export interface CropScore {
  * Crop recommendation result
  */
 export interface CropRecommendation {
+    runId: number | null;       // Stored CropRecommendationRun, null when one was stored within the run interval
     nodeId: number;
     fieldName: string;
     currentSeason: Season;
@@ -153,10 +392,57 @@ export interface CropRecommendation {
     timestamp: Date;
 }
 
+/**
+ * Stored crop recommendation run
+ */
+export interface CropRecommendationRunSummary {
+    runId: number;
+    timestamp: Date;
+    season: Season;
+    conditions: {
+        currentVWC: number;
+        currentSoilTemp: number;
+        soilTexture: SoilTexture;
+        accumulatedGDD: number;
+        aggregated: boolean;    // VWC from multi-node field aggregate
+    };
+    recommendedCrop: UPCropName;
+    crops: Array<{ cropName: UPCropName; suitability: number; rank: number }>;
+}
+
+/**
+ * Weekly suitability of one crop across recommendation runs
+ */
+export interface CropSuitabilityTrend {
+    cropName: UPCropName;
+    weeks: Array<{
+        weekStart: Date;        // Monday 00:00 UTC
+        runs: number;
+        avgSuitability: number;
+        bestRank: number;
+    }>;
+    change: number | null;      // Last week average minus first week average (null with fewer than 2 weeks)
+}
+
+/**
+ * Crop recommendation history for a field
+ */
+export interface CropRecommendationHistory {
+    nodeId: number;
+    fieldId: number;
+    fieldName: string;
+    sowingDate: Date | null;
+    from: Date;
+    to: Date;                   // Sowing date if already sown, else now
+    runs: CropRecommendationRunSummary[];
+    trend: CropSuitabilityTrend[];  // Latest weekly suitability first
+}
+
 /**
  * Irrigation decision
  */
 export interface IrrigationDecision {
+    logId: number;               // IrrigationLog row for this decision
     nodeId: number;
     fieldName: string;
     decision: 'irrigate_now' | 'irrigate_soon' | 'do_not_irrigate';
@@ -164,6 +450,7 @@ export interface IrrigationDecision {
     urgencyScore: number;        // 0-100
     reason: string;
     currentVWC: number;
+    vwcSource: 'sensor' | 'water_balance'; // Ledger estimate when readings are stale
     targetVWC: number;
     deficit: number;             // VWC points below target
     suggestedDepthMm: number;    // Irrigation depth in mm
@@ -171,10 +458,48 @@ export interface IrrigationDecision {
     cropType: string | null;
     growthStage: GrowthStage | null;
     weatherAdjustment: string | null;
+    cropET: {                    // mm/day at current growth stage
+        et0: number;
+        kc: number;
+        etc: number;
+    };
+    recentIrrigation: {          // Applied water still infiltrating
+        appliedAt: Date;
+        depthMm: number;
+        method: IrrigationMethod;
+    } | null;
     nextCheckHours: number;
     timestamp: Date;
 }
 
+/**
+ * Irrigation action reported by farmer/controller
+ */
+export interface IrrigationActionInput {
+    method: IrrigationMethod;
+    appliedAt: Date;
+    depthMm?: number | undefined;      // Applied depth (mm)
+    volumeLiters?: number | undefined; // Or applied volume...
+    areaM2?: number | undefined;       // ...over irrigated area
+    logId?: number | undefined;        // Explicit decision to link
+    notes?: string | undefined;
+}
+
+/**
+ * Recorded irrigation action
+ */
+export interface IrrigationActionResult {
+    eventId: number;
+    nodeId: number;
+    irrigationLogId: number | null;
+    appliedAt: Date;
+    method: IrrigationMethod;
+    depthMm: number;
+    volumeLiters: number | null;
+    effectiveDepthMm: number;          // After method efficiency
+    infiltrationWindowHours: number;   // Repeat irrigation suppressed for this long
+}
+
 /**
  * Soil water balance
  */
@@ -189,3 +514,221 @@ export interface SoilWaterBalance {
     depletion: number;          // % of TAW depleted
     mad: number;                // Management Allowed Depletion
 }
+
+/**
+ * Daily water balance ledger entry
+ */
+export interface WaterBalanceDay {
+    date: Date;
+    rainfallMm: number;
+    rainfallSource: string;     // none, forecast, observed
+    irrigationMm: number;
+    et0Mm: number;
+    kc: number;
+    etcMm: number;
+    deepPercolationMm: number;
+    depletionStartMm: number;
+    depletionEndMm: number;
+    measuredVWC: number | null;
+    correctionMm: number;       // Sensor correction applied (mm)
+    tawMm: number;
+    rawMm: number;
+    growthStage: string | null;
+}
+
+/**
+ * Water balance ledger for a field
+ */
+export interface WaterBalanceLedger {
+    fieldId: number;
+    nodeId: number;
+    cropType: string;
+    soilTexture: SoilTexture;
+    rootDepthMm: number;
+    taw: number;                // Total Available Water (mm)
+    raw: number;                // Readily Available Water (mm)
+    current: {
+        date: Date;
+        depletionMm: number;
+        depletionPercent: number;   // % of TAW
+        belowRAW: boolean;          // Crop water stress begins
+        estimatedVWC: number;       // VWC % implied by depletion
+    } | null;
+    records: WaterBalanceDay[];
+}
+
+/**
+ * Crop coefficient at a point in the season
+ */
+export interface CropCoefficient {
+    cropType: UPCropName;
+    kc: number;
+    growthStage: GrowthStage;
+    progressPercent: number;    // % of total GDD
+}
+
+/**
+ * Crop evapotranspiration estimate for a field
+ */
+export interface CropEvapotranspiration {
+    nodeId: number;
+    et0: number;                // Reference ET (mm/day)
+    coefficient: CropCoefficient | null;  // null when no confirmed crop
+    etc: number | null;         // Crop ET = ET0 × Kc (mm/day)
+}
+
+/**
+ * Planned irrigation within a schedule
+ */
+export interface PlannedIrrigation {
+    date: string;               // YYYY-MM-DD
+    netDepthMm: number;         // Water required in root zone
+    grossDepthMm: number;       // Water to apply (net / method efficiency)
+    durationMin: number;        // Run time at method application rate
+}
+
+/**
+ * Projected day in irrigation schedule
+ */
+export interface IrrigationScheduleDay {
+    date: string;               // YYYY-MM-DD
+    et0: number;                // mm/day
+    kc: number;
+    etc: number;                // mm/day
+    rainfall: number;           // Forecast rain (mm)
+    growthStage: GrowthStage;
+    depletionStartMm: number;
+    depletionEndMm: number;     // After rain, ETc and planned irrigation
+    projectedVWC: number;       // VWC % implied by end-of-day depletion
+    irrigation: Omit<PlannedIrrigation, 'date'> | null;
+}
+
+/**
+ * Multi-day irrigation schedule for a field
+ */
+export interface IrrigationSchedule {
+    nodeId: number;
+    fieldName: string;
+    cropType: UPCropName;
+    method: IrrigationMethod;
+    vwcSource: 'sensor' | 'water_balance';
+    startVWC: number;
+    startDepletionMm: number;
+    taw: number;                // Total Available Water (mm)
+    raw: number;                // Readily Available Water (mm)
+    plannedIrrigations: PlannedIrrigation[];
+    totalGrossDepthMm: number;
+    days: IrrigationScheduleDay[];
+    timestamp: Date;
+}
+
+/**
+ * Sensor node link and power health
+ */
+export interface NodeHealth {
+    nodeId: number;
+    isActive: boolean;
+    lastSeen: Date;
+    windowDays: number;
+    battery: {
+        current: number | null;             // %
+        trend: 'discharging' | 'stable' | 'charging' | 'unknown';
+        slopePctPerDay: number | null;      // Least-squares slope
+        daysUntilEmpty: number | null;      // Projected from slope while discharging
+        samples: number;
+    };
+    rssi: {
+        latest: number | null;              // dBm
+        min: number | null;
+        max: number | null;
+        mean: number | null;
+        stdDev: number | null;
+        samples: number;
+    };
+    packets: {
+        received: number;
+        expected: number;                   // From firmware report interval
+        deliveryRatio: number | null;       // received / expected (0-1)
+        perHour: number;
+        lastPacketAt: Date | null;
+    };
+    sequence: {
+        lastSeq: number | null;
+        lastSeqAt: Date | null;
+        duplicates: number;                 // Dropped since node registered
+        gaps: number;                       // Packets missing from the sequence
+        resets: number;                     // Counter restarts (reboots)
+    };
+}
+
+/**
+ * Packet sequence check result
+ */
+export interface PacketSequenceCheck {
+    status: SequenceStatus;
+    missed: number;             // Packets skipped before this one
+}
+
+/**
+ * Node reporting status entry
+ */
+export interface NodeStatusEntry {
+    nodeId: number;
+    status: NodeStatus;
+    isActive: boolean;
+    lastSeen: Date;
+    reportIntervalSec: number;
+    missedReports: number;      // Consecutive intervals without a report
+    minutesSilent: number;
+    offlineSince: Date | null;
+}
+
+/**
+ * Fleet-wide reporting status
+ */
+export interface FleetStatus {
+    total: number;
+    online: number;
+    late: number;
+    offline: number;
+    nodes: NodeStatusEntry[];
+    timestamp: Date;
+}
+
+/**
+ * Piecewise calibration knot
+ */
+export interface CalibrationKnot {
+    raw: number;                // Node-reported moisture value
+    vwc: number;                // Lab VWC (%)
+}
+
+/**
+ * Paired calibration sample used for fitting
+ */
+export interface CalibrationPoint {
+    rawValue: number;
+    labVWC: number;
+}
+
+/**
+ * Calibration curve definition (enough to evaluate)
+ * Polynomial coefficients apply to t = (raw − rawMin) / (rawMax − rawMin)
+ */
+export interface CalibrationCurve {
+    fitMethod: CalibrationFitMethod;
+    coefficients: number[];
+    knots: CalibrationKnot[] | null;
+    rawMin: number;
+    rawMax: number;
+}
+
+/**
+ * Fitted calibration curve with goodness of fit
+ */
+export interface CalibrationFit extends CalibrationCurve {
+    degree: number | null;
+    sampleCount: number;
+    rSquared: number;
+    rmse: number;               // VWC %
+}
@@ -0,0 +1,28 @@
+// src/models/payload.schemas.ts
+/**
+ * Ingestion Payload Schemas
+ * Shared by the MQTT handler and the HTTP ingest endpoint
+ */
+
+import { z } from 'zod';
+import { SENSOR_THRESHOLDS } from '../config/mqtt.config.js';
+import { SEQUENCE_CONSTANTS } from '../utils/constants.js';
+
+export const sensorPayloadSchema = z.object({
+    nodeId: z.number().int().positive(),
+    moisture: z.number().int().min(SENSOR_THRESHOLDS.MOISTURE.MIN).max(SENSOR_THRESHOLDS.MOISTURE.MAX), // Per-node encoding checked on ingest
+    temperature: z.number().int().min(-100).max(600),
+    rssi: z.number().int().min(-120).max(0).optional(),
+    batteryLevel: z.number().int().min(0).max(100).optional(),
+    seq: z.number().int().min(0).max(SEQUENCE_CONSTANTS.MODULUS - 1).optional(),
+    timestamp: z.string().datetime({ offset: true }).optional(),
+});
+
+export const weatherPayloadSchema = z.object({
+    gatewayId: z.string().min(1),
+    airTemperature: z.number().min(-20).max(60),
+    humidity: z.number().min(0).max(100),
+    pressure: z.number().positive().optional(),
+    firmwareVersion: z.string().min(1).max(32).optional(),
+    timestamp: z.string().datetime({ offset: true }).optional(),
+});
@@ -0,0 +1,81 @@
+/**
+ * Aggregated Reading Repository
+ * Persisted field-level moisture selections from multi-node fields
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import { getStartOfDay, getEndOfDay } from '../utils/dateHelpers.js';
+import type { FieldMoisture } from '../models/common.types.js';
+
+/**
+ * Store field-level aggregation result
+ */
+export async function createAggregatedReading(moisture: FieldMoisture) {
+    try {
+        return await prisma.aggregatedReading.create({
+            data: {
+                fieldId: moisture.fieldId,
+                timestamp: moisture.timestamp,
+                strategy: moisture.strategy,
+                soilMoistureVWC: moisture.soilMoistureVWC,
+                soilTemperature: moisture.soilTemperature,
+                nodeCount: moisture.nodeCount,
+                selectedNodeId: moisture.selectedNodeId,
+                selectionScore: moisture.selectionScore,
+                selectionReason: moisture.selectionReason,
+                allNodesData: moisture.nodes.map(n => ({
+                    nodeId: n.nodeId,
+                    readingId: n.readingId,
+                    soilMoistureVWC: n.soilMoistureVWC,
+                    soilTemperature: n.soilTemperature,
+                    timestamp: n.timestamp.toISOString(),
+                    rssi: n.rssi,
+                    batteryLevel: n.batteryLevel,
+                    calibrated: n.calibrated,
+                    quality: n.quality,
+                })),
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createAggregatedReading', error as Error);
+    }
+}
+
+/**
+ * Recent aggregation results for field, newest first
+ */
+export async function getAggregatedReadings(fieldId: number, since: Date, limit: number) {
+    try {
+        return await prisma.aggregatedReading.findMany({
+            where: {
+                fieldId,
+                timestamp: { gte: since },
+            },
+            orderBy: { timestamp: 'desc' },
+            take: limit,
+        });
+    } catch (error) {
+        throw new DatabaseError('getAggregatedReadings', error as Error);
+    }
+}
+
+/**
+ * Aggregation results for field on date, oldest first
+ */
+export async function getAggregatedReadingsForDate(fieldId: number, date: Date) {
+    try {
+        return await prisma.aggregatedReading.findMany({
+            where: {
+                fieldId,
+                timestamp: {
+                    gte: getStartOfDay(date),
+                    lte: getEndOfDay(date),
+                },
+            },
+            orderBy: { timestamp: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getAggregatedReadingsForDate', error as Error);
+    }
+}
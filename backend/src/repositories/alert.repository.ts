@@ -0,0 +1,181 @@
+/**
+ * Alert Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+import type { AlertType, AlertSeverity } from '../utils/constants.js';
+
+export interface CreateAlertInput {
+    nodeId: number;
+    readingId?: number | undefined;
+    ruleId?: number | undefined;
+    alertType: AlertType;
+    severity: AlertSeverity;
+    message: string;
+    value?: number | undefined;
+    threshold?: number | undefined;
+    sentAt: Date;
+}
+
+export interface AlertFilters {
+    nodeId?: number | undefined;
+    alertType?: AlertType[] | undefined;
+    severity?: AlertSeverity[] | undefined;
+    acknowledged?: boolean | undefined;
+    startDate?: Date | undefined;
+    endDate?: Date | undefined;
+    limit?: number | undefined;
+}
+
+/**
+ * Create alert
+ */
+export async function createAlert(input: CreateAlertInput) {
+    try {
+        return await prisma.alert.create({
+            data: {
+                nodeId: input.nodeId,
+                readingId: input.readingId ?? null,
+                ruleId: input.ruleId ?? null,
+                alertType: input.alertType,
+                severity: input.severity,
+                message: input.message,
+                value: input.value ?? null,
+                threshold: input.threshold ?? null,
+                sentAt: input.sentAt,
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createAlert', error as Error);
+    }
+}
+
+/**
+ * Find most recent alert of a type for node since date (cooldown check)
+ */
+export async function findRecentAlert(nodeId: number, alertType: AlertType, since: Date) {
+    try {
+        return await prisma.alert.findFirst({
+            where: {
+                nodeId,
+                alertType,
+                sentAt: { gte: since },
+            },
+            orderBy: { sentAt: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('findRecentAlert', error as Error);
+    }
+}
+
+/**
+ * Get alerts with filters
+ */
+export async function getAlerts(filters: AlertFilters) {
+    try {
+        const where: Prisma.AlertWhereInput = {};
+
+        if (filters.nodeId !== undefined) {
+            where.nodeId = filters.nodeId;
+        }
+
+        if (filters.alertType && filters.alertType.length > 0) {
+            where.alertType = { in: filters.alertType };
+        }
+
+        if (filters.severity && filters.severity.length > 0) {
+            where.severity = { in: filters.severity };
+        }
+
+        if (filters.acknowledged !== undefined) {
+            where.acknowledged = filters.acknowledged;
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.sentAt = {};
+            if (filters.startDate) {
+                where.sentAt.gte = filters.startDate;
+            }
+            if (filters.endDate) {
+                where.sentAt.lte = filters.endDate;
+            }
+        }
+
+        return await prisma.alert.findMany({
+            where,
+            orderBy: { sentAt: 'desc' },
+            take: filters.limit || 100,
+        });
+    } catch (error) {
+        throw new DatabaseError('getAlerts', error as Error);
+    }
+}
+
+/**
+ * Get alert by ID
+ */
+export async function getAlertById(id: number) {
+    try {
+        const alert = await prisma.alert.findUnique({
+            where: { id },
+        });
+
+        if (!alert) {
+            throw new NotFoundError('Alert', id);
+        }
+
+        return alert;
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('getAlertById', error as Error);
+    }
+}
+
+/**
+ * Acknowledge single alert
+ */
+export async function acknowledgeAlert(id: number) {
+    try {
+        const alert = await getAlertById(id);
+
+        if (alert.acknowledged) {
+            return alert;
+        }
+
+        return await prisma.alert.update({
+            where: { id },
+            data: {
+                acknowledged: true,
+                acknowledgedAt: new Date(),
+            },
+        });
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('acknowledgeAlert', error as Error);
+    }
+}
+
+/**
+ * Acknowledge all open alerts for node (optionally of one type)
+ */
+export async function acknowledgeNodeAlerts(nodeId: number, alertType?: AlertType) {
+    try {
+        const result = await prisma.alert.updateMany({
+            where: {
+                nodeId,
+                acknowledged: false,
+                ...(alertType && { alertType }),
+            },
+            data: {
+                acknowledged: true,
+                acknowledgedAt: new Date(),
+            },
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('acknowledgeNodeAlerts', error as Error);
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * Field Alert Rule Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+import type { AlertRuleMetric, AlertRuleOperator, AlertSeverity } from '../utils/constants.js';
+
+export interface CreateAlertRuleInput {
+    fieldId: number;
+    name: string;
+    metric: AlertRuleMetric;
+    operator: AlertRuleOperator;
+    threshold: number;
+    durationMinutes?: number | undefined;
+    hysteresis?: number | undefined;
+    severity?: AlertSeverity | undefined;
+    quietHoursStart?: number | null | undefined;
+    quietHoursEnd?: number | null | undefined;
+    quietHoursTimezone?: string | null | undefined;
+    enabled?: boolean | undefined;
+}
+
+export interface UpdateAlertRuleInput {
+    name?: string | undefined;
+    metric?: AlertRuleMetric | undefined;
+    operator?: AlertRuleOperator | undefined;
+    threshold?: number | undefined;
+    durationMinutes?: number | undefined;
+    hysteresis?: number | undefined;
+    severity?: AlertSeverity | undefined;
+    quietHoursStart?: number | null | undefined;
+    quietHoursEnd?: number | null | undefined;
+    quietHoursTimezone?: string | null | undefined;
+    enabled?: boolean | undefined;
+}
+
+export interface AlertRuleStateInput {
+    conditionSince: Date | null;
+    triggered: boolean;
+    lastTriggeredAt?: Date | undefined;
+    lastValue: number;
+}
+
+/**
+ * Create alert rule for field
+ */
+export async function createAlertRule(input: CreateAlertRuleInput) {
+    try {
+        return await prisma.alertRule.create({
+            data: {
+                fieldId: input.fieldId,
+                name: input.name,
+                metric: input.metric,
+                operator: input.operator,
+                threshold: input.threshold,
+                durationMinutes: input.durationMinutes ?? 0,
+                hysteresis: input.hysteresis ?? 0,
+                severity: input.severity ?? 'WARNING',
+                quietHoursStart: input.quietHoursStart ?? null,
+                quietHoursEnd: input.quietHoursEnd ?? null,
+                quietHoursTimezone: input.quietHoursTimezone ?? null,
+                enabled: input.enabled ?? true,
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createAlertRule', error as Error);
+    }
+}
+
+/**
+ * Get alert rules for field
+ */
+export async function getAlertRules(fieldId: number, enabledOnly: boolean = false) {
+    try {
+        return await prisma.alertRule.findMany({
+            where: {
+                fieldId,
+                ...(enabledOnly && { enabled: true }),
+            },
+            orderBy: { id: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getAlertRules', error as Error);
+    }
+}
+
+/**
+ * Get alert rule by ID scoped to field
+ */
+export async function getAlertRuleById(fieldId: number, id: number) {
+    try {
+        const rule = await prisma.alertRule.findFirst({
+            where: { id, fieldId },
+        });
+
+        if (!rule) {
+            throw new NotFoundError('AlertRule', id);
+        }
+
+        return rule;
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('getAlertRuleById', error as Error);
+    }
+}
+
+/**
+ * Update alert rule definition
+ * Changing the condition resets runtime state so the rule re-arms
+ */
+export async function updateAlertRule(fieldId: number, id: number, input: UpdateAlertRuleInput) {
+    try {
+        await getAlertRuleById(fieldId, id);
+
+        const conditionChanged =
+            input.metric !== undefined ||
+            input.operator !== undefined ||
+            input.threshold !== undefined ||
+            input.durationMinutes !== undefined;
+
+        const data: Prisma.AlertRuleUpdateInput = {};
+        if (input.name !== undefined) data.name = input.name;
+        if (input.metric !== undefined) data.metric = input.metric;
+        if (input.operator !== undefined) data.operator = input.operator;
+        if (input.threshold !== undefined) data.threshold = input.threshold;
+        if (input.durationMinutes !== undefined) data.durationMinutes = input.durationMinutes;
+        if (input.hysteresis !== undefined) data.hysteresis = input.hysteresis;
+        if (input.severity !== undefined) data.severity = input.severity;
+        if (input.quietHoursStart !== undefined) data.quietHoursStart = input.quietHoursStart;
+        if (input.quietHoursEnd !== undefined) data.quietHoursEnd = input.quietHoursEnd;
+        if (input.quietHoursTimezone !== undefined) data.quietHoursTimezone = input.quietHoursTimezone;
+        if (input.enabled !== undefined) data.enabled = input.enabled;
+
+        if (conditionChanged || input.enabled === false) {
+            data.conditionSince = null;
+            data.triggered = false;
+        }
+
+        return await prisma.alertRule.update({
+            where: { id },
+            data,
+        });
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('updateAlertRule', error as Error);
+    }
+}
+
+/**
+ * Persist rule evaluation state
+ */
+export async function updateAlertRuleState(id: number, state: AlertRuleStateInput) {
+    try {
+        return await prisma.alertRule.update({
+            where: { id },
+            data: {
+                conditionSince: state.conditionSince,
+                triggered: state.triggered,
+                lastValue: state.lastValue,
+                ...(state.lastTriggeredAt && { lastTriggeredAt: state.lastTriggeredAt }),
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('updateAlertRuleState', error as Error);
+    }
+}
+
+/**
+ * Delete alert rule
+ */
+export async function deleteAlertRule(fieldId: number, id: number) {
+    try {
+        await getAlertRuleById(fieldId, id);
+
+        return await prisma.alertRule.delete({
+            where: { id },
+        });
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('deleteAlertRule', error as Error);
+    }
+}
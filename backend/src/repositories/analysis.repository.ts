@@ -0,0 +1,55 @@
+/**
+ * Analysis Repository
+ * Fuzzy soil status per sensor reading (Analysis) and per field-level aggregate (AggregatedAnalysis)
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import type { FuzzySoilAnalysis } from '../models/common.types.js';
+
+/**
+ * Store analysis of a sensor reading
+ */
+export async function createAnalysis(readingId: number, timestamp: Date, analysis: FuzzySoilAnalysis) {
+    try {
+        return await prisma.analysis.create({
+            data: { readingId, timestamp, ...analysis },
+        });
+    } catch (error) {
+        throw new DatabaseError('createAnalysis', error as Error);
+    }
+}
+
+/**
+ * Bulk store analyses of sensor readings (historical import)
+ * Readings analysed in the meantime are skipped
+ */
+export async function createAnalyses(inputs: Array<{ readingId: number; timestamp: Date; analysis: FuzzySoilAnalysis }>) {
+    try {
+        const result = await prisma.analysis.createMany({
+            data: inputs.map(input => ({ readingId: input.readingId, timestamp: input.timestamp, ...input.analysis })),
+            skipDuplicates: true,
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('createAnalyses', error as Error);
+    }
+}
+
+/**
+ * Store analysis of a field-level aggregated reading
+ */
+export async function createAggregatedAnalysis(
+    aggregatedReadingId: number,
+    timestamp: Date,
+    analysis: FuzzySoilAnalysis
+) {
+    try {
+        return await prisma.aggregatedAnalysis.create({
+            data: { aggregatedReadingId, timestamp, ...analysis },
+        });
+    } catch (error) {
+        throw new DatabaseError('createAggregatedAnalysis', error as Error);
+    }
+}
@@ -0,0 +1,191 @@
+/**
+ * Node Calibration Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+import type { CalibrationFit } from '../models/common.types.js';
+
+export interface CreateCalibrationSampleInput {
+    rawValue: number;
+    labVWC: number;
+    sampledAt?: Date | undefined;
+    notes?: string | undefined;
+}
+
+/**
+ * Add gravimetric calibration samples for node
+ */
+export async function createCalibrationSamples(nodeId: number, samples: CreateCalibrationSampleInput[]) {
+    try {
+        const result = await prisma.calibrationSample.createMany({
+            data: samples.map(sample => ({
+                nodeId,
+                rawValue: sample.rawValue,
+                labVWC: sample.labVWC,
+                sampledAt: sample.sampledAt ?? new Date(),
+                notes: sample.notes ?? null,
+            })),
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('createCalibrationSamples', error as Error);
+    }
+}
+
+/**
+ * Get calibration samples for node
+ */
+export async function getCalibrationSamples(nodeId: number, since?: Date) {
+    try {
+        return await prisma.calibrationSample.findMany({
+            where: {
+                nodeId,
+                ...(since && { sampledAt: { gte: since } }),
+            },
+            orderBy: { sampledAt: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getCalibrationSamples', error as Error);
+    }
+}
+
+/**
+ * Delete calibration sample
+ */
+export async function deleteCalibrationSample(nodeId: number, id: number) {
+    try {
+        const result = await prisma.calibrationSample.deleteMany({
+            where: { id, nodeId },
+        });
+
+        if (result.count === 0) {
+            throw new NotFoundError('CalibrationSample', id);
+        }
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('deleteCalibrationSample', error as Error);
+    }
+}
+
+/**
+ * Get all calibration profile versions for node (newest first)
+ */
+export async function getCalibrationProfiles(nodeId: number) {
+    try {
+        return await prisma.calibrationProfile.findMany({
+            where: { nodeId },
+            orderBy: { version: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getCalibrationProfiles', error as Error);
+    }
+}
+
+/**
+ * Get active calibration profile for node
+ */
+export async function getActiveCalibrationProfile(nodeId: number) {
+    try {
+        return await prisma.calibrationProfile.findFirst({
+            where: { nodeId, isActive: true },
+        });
+    } catch (error) {
+        throw new DatabaseError('getActiveCalibrationProfile', error as Error);
+    }
+}
+
+/**
+ * Store fitted profile as next version, optionally making it active
+ */
+export async function createCalibrationProfile(
+    nodeId: number,
+    fit: CalibrationFit,
+    activate: boolean,
+    notes?: string
+) {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const latest = await tx.calibrationProfile.findFirst({
+                where: { nodeId },
+                orderBy: { version: 'desc' },
+                select: { version: true },
+            });
+
+            if (activate) {
+                await tx.calibrationProfile.updateMany({
+                    where: { nodeId, isActive: true },
+                    data: { isActive: false },
+                });
+            }
+
+            return tx.calibrationProfile.create({
+                data: {
+                    nodeId,
+                    version: (latest?.version ?? 0) + 1,
+                    fitMethod: fit.fitMethod,
+                    degree: fit.degree,
+                    coefficients: fit.coefficients,
+                    knots: fit.knots ? fit.knots.map(k => ({ raw: k.raw, vwc: k.vwc })) : Prisma.DbNull,
+                    rawMin: fit.rawMin,
+                    rawMax: fit.rawMax,
+                    sampleCount: fit.sampleCount,
+                    rSquared: fit.rSquared,
+                    rmse: fit.rmse,
+                    isActive: activate,
+                    notes: notes ?? null,
+                },
+            });
+        });
+    } catch (error) {
+        throw new DatabaseError('createCalibrationProfile', error as Error);
+    }
+}
+
+/**
+ * Make a profile version the active one (rollback/forward)
+ */
+export async function activateCalibrationProfile(nodeId: number, version: number) {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const profile = await tx.calibrationProfile.findUnique({
+                where: { nodeId_version: { nodeId, version } },
+            });
+
+            if (!profile) {
+                throw new NotFoundError('CalibrationProfile', `nodeId=${nodeId}, version=${version}`);
+            }
+
+            await tx.calibrationProfile.updateMany({
+                where: { nodeId, isActive: true },
+                data: { isActive: false },
+            });
+
+            return tx.calibrationProfile.update({
+                where: { id: profile.id },
+                data: { isActive: true },
+            });
+        });
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('activateCalibrationProfile', error as Error);
+    }
+}
+
+/**
+ * Deactivate all profiles so node falls back to default conversion
+ */
+export async function deactivateCalibrationProfiles(nodeId: number) {
+    try {
+        const result = await prisma.calibrationProfile.updateMany({
+            where: { nodeId, isActive: true },
+            data: { isActive: false },
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('deactivateCalibrationProfiles', error as Error);
+    }
+}
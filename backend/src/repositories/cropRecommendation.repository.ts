@@ -0,0 +1,96 @@
+/**
+ * Crop Recommendation Repository
+ * Stored recommendation runs (inputs) with their ranked crops
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import type { CropScore } from '../models/common.types.js';
+
+export interface CreateCropRunInput {
+    fieldId: number;
+    nodeId: number;
+    timestamp: Date;
+    season: string;
+    soilMoistureVWC: number;
+    soilTemperature: number;
+    soilTexture: string;
+    accumulatedGDD: number;
+    aggregated: boolean;
+    analysisId: number | null;              // Analysis of the reading scored (single node; nulled once pruned)
+    aggregatedAnalysisId: number | null;    // Analysis of the field aggregate scored (multi-node)
+    scores: CropScore[];                    // All crops, ranked
+}
+
+/**
+ * Store recommendation run with every scored crop
+ */
+export async function createCropRecommendationRun(input: CreateCropRunInput) {
+    try {
+        return await prisma.cropRecommendationRun.create({
+            data: {
+                fieldId: input.fieldId,
+                nodeId: input.nodeId,
+                timestamp: input.timestamp,
+                season: input.season,
+                soilMoistureVWC: input.soilMoistureVWC,
+                soilTemperature: input.soilTemperature,
+                soilTexture: input.soilTexture,
+                accumulatedGDD: input.accumulatedGDD,
+                aggregated: input.aggregated,
+                recommendedCrop: input.scores[0]?.cropName ?? '',
+                recommendations: {
+                    create: input.scores.map(score => ({
+                        analysisId: input.analysisId,
+                        aggregatedAnalysisId: input.aggregatedAnalysisId,
+                        cropName: score.cropName,
+                        suitability: Math.round(score.totalScore),
+                        reason: score.explanation,
+                        rank: score.rank,
+                        suitable: score.suitable,
+                        scores: score.scores,
+                    })),
+                },
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createCropRecommendationRun', error as Error);
+    }
+}
+
+/**
+ * Most recent recommendation run for field
+ */
+export async function getLatestCropRecommendationRun(fieldId: number) {
+    try {
+        return await prisma.cropRecommendationRun.findFirst({
+            where: { fieldId },
+            orderBy: { timestamp: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getLatestCropRecommendationRun', error as Error);
+    }
+}
+
+/**
+ * Recommendation runs for field in [from, to), oldest first, crops by rank
+ */
+export async function getCropRecommendationRuns(fieldId: number, from: Date, to: Date) {
+    try {
+        return await prisma.cropRecommendationRun.findMany({
+            where: {
+                fieldId,
+                timestamp: { gte: from, lt: to },
+            },
+            include: {
+                recommendations: {
+                    select: { cropName: true, suitability: true, rank: true, suitable: true },
+                    orderBy: { rank: 'asc' },
+                },
+            },
+            orderBy: { timestamp: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getCropRecommendationRuns', error as Error);
+    }
+}
@@ -9,7 +9,7 @@ import type { SoilTexture, UPCropName } from '../utils/constants.js';
 
 export interface CreateFieldInput {
     nodeId: number;
-    gatewayId: string;
+    gatewayId?: string | undefined;
     fieldName: string;
     latitude: number;
     longitude: number;
@@ -26,20 +26,30 @@ export interface UpdateFieldCropInput {
 }
 
 /**
- * Create field
+ * Create field with its primary node as first member
  */
 export async function createField(input: CreateFieldInput) {
     try {
-        return await prisma.field.create({
-            data: {
-                nodeId: input.nodeId,
-                gatewayId: input.gatewayId,
-                fieldName: input.fieldName,
-                latitude: input.latitude,
-                longitude: input.longitude,
-                soilTexture: input.soilTexture,
-                location: input.location ?? null,
-            },
+        return await prisma.$transaction(async (tx) => {
+            const field = await tx.field.create({
+                data: {
+                    nodeId: input.nodeId,
+                    gatewayId: input.gatewayId ?? null,
+                    fieldName: input.fieldName,
+                    latitude: input.latitude,
+                    longitude: input.longitude,
+                    soilTexture: input.soilTexture,
+                    location: input.location ?? null,
+                },
+            });
+
+            await tx.node.upsert({
+                where: { nodeId: input.nodeId },
+                create: { nodeId: input.nodeId, fieldId: field.id },
+                update: { fieldId: field.id },
+            });
+
+            return field;
         });
     } catch (error) {
         throw new DatabaseError('createField', error as Error);
@@ -47,12 +57,17 @@ export async function createField(input: CreateFieldInput) {
 }
 
 /**
- * Get field by node ID
+ * Get field by node ID (primary or any member node)
  */
 export async function getFieldByNodeId(nodeId: number) {
     try {
-        const field = await prisma.field.findUnique({
-            where: { nodeId },
+        const field = await prisma.field.findFirst({
+            where: {
+                OR: [
+                    { nodeId },
+                    { nodes: { some: { nodeId } } },
+                ],
+            },
         });
 
         if (!field) {
@@ -99,13 +114,70 @@ export async function getAllFields() {
     }
 }
 
+/**
+ * Get fields served by a gateway
+ */
+export async function getFieldsByGatewayId(gatewayId: string) {
+    try {
+        return await prisma.field.findMany({
+            where: { gatewayId },
+            orderBy: { nodeId: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getFieldsByGatewayId', error as Error);
+    }
+}
+
+/**
+ * Get nodes belonging to field
+ */
+export async function getFieldNodes(fieldId: number) {
+    try {
+        return await prisma.node.findMany({
+            where: { fieldId },
+            orderBy: { nodeId: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getFieldNodes', error as Error);
+    }
+}
+
+/**
+ * Make node a member of field, registering the node if it never reported
+ */
+export async function attachNodeToField(fieldId: number, nodeId: number) {
+    try {
+        return await prisma.node.upsert({
+            where: { nodeId },
+            create: { nodeId, fieldId },
+            update: { fieldId },
+        });
+    } catch (error) {
+        throw new DatabaseError('attachNodeToField', error as Error);
+    }
+}
+
+/**
+ * Remove node from its field
+ */
+export async function detachNodeFromField(nodeId: number) {
+    try {
+        return await prisma.node.update({
+            where: { nodeId },
+            data: { fieldId: null },
+        });
+    } catch (error) {
+        throw new DatabaseError('detachNodeFromField', error as Error);
+    }
+}
+
 /**
  * Update field crop configuration
  */
-export async function updateFieldCrop(nodeId: number, input: UpdateFieldCropInput) {
+export async function updateFieldCrop(fieldId: number, input: UpdateFieldCropInput) {
     try {
         return await prisma.field.update({
-            where: { nodeId },
+            where: { id: fieldId },
             data: {
                 cropType: input.cropType,
                 sowingDate: input.sowingDate,
@@ -164,12 +236,12 @@ export async function updateLastIrrigationCheck(nodeId: number) {
 /**
  * Record irrigation action
  */
-export async function recordIrrigationAction(nodeId: number) {
+export async function recordIrrigationAction(nodeId: number, actionAt: Date = new Date()) {
     try {
         return await prisma.field.update({
             where: { nodeId },
             data: {
-                lastIrrigationAction: new Date(),
+                lastIrrigationAction: actionAt,
             },
         });
     } catch (error) {
@@ -206,27 +278,31 @@ export async function getFieldsNeedingGDDUpdate() {
  * Update field (generic update)
  */
 export async function updateField(
-    nodeId: number,
+    fieldId: number,
     updates: {
-        fieldName?: string;
-        latitude?: number;
-        longitude?: number;
-        soilTexture?: string;
-        location?: string;
+        gatewayId?: string | undefined;
+        fieldName?: string | undefined;
+        latitude?: number | undefined;
+        longitude?: number | undefined;
+        soilTexture?: string | undefined;
+        location?: string | undefined;
+        aggregationStrategy?: string | undefined;
     }
 ) {
     try {
         // Only include fields that are actually defined
         const updateData: Record<string, string | number> = {};
 
+        if (updates.gatewayId !== undefined) updateData.gatewayId = updates.gatewayId;
         if (updates.fieldName !== undefined) updateData.fieldName = updates.fieldName;
         if (updates.latitude !== undefined) updateData.latitude = updates.latitude;
         if (updates.longitude !== undefined) updateData.longitude = updates.longitude;
         if (updates.soilTexture !== undefined) updateData.soilTexture = updates.soilTexture;
         if (updates.location !== undefined) updateData.location = updates.location;
+        if (updates.aggregationStrategy !== undefined) updateData.aggregationStrategy = updates.aggregationStrategy;
 
         return await prisma.field.update({
-            where: { nodeId },
+            where: { id: fieldId },
             data: updateData as any,
         });
     } catch (error) {
@@ -238,10 +314,10 @@ export async function updateField(
 /**
  * Delete field
  */
-export async function deleteField(nodeId: number) {
+export async function deleteField(fieldId: number) {
     try {
         return await prisma.field.delete({
-            where: { nodeId },
+            where: { id: fieldId },
         });
     } catch (error) {
         throw new DatabaseError('deleteField', error as Error);
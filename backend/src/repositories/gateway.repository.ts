@@ -0,0 +1,164 @@
+// src/repositories/gateway.repository.ts
+/**
+ * Gateway Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+
+export interface CreateGatewayInput {
+    gatewayId: string;
+    name?: string | undefined;
+    location?: string | undefined;
+    latitude?: number | undefined;
+    longitude?: number | undefined;
+    firmwareVersion?: string | undefined;
+}
+
+export interface UpdateGatewayInput {
+    name?: string | null | undefined;
+    location?: string | null | undefined;
+    latitude?: number | null | undefined;
+    longitude?: number | null | undefined;
+    firmwareVersion?: string | null | undefined;
+}
+
+// Nodes attach to a gateway through their field (primary and member nodes)
+const attachedFields = {
+    select: {
+        id: true,
+        nodeId: true,
+        fieldName: true,
+        nodes: { select: { nodeId: true }, orderBy: { nodeId: 'asc' } },
+    },
+    orderBy: { nodeId: 'asc' },
+} satisfies Prisma.Gateway$fieldsArgs;
+
+/**
+ * Create gateway
+ */
+export async function createGateway(input: CreateGatewayInput) {
+    try {
+        return await prisma.gateway.create({
+            data: {
+                gatewayId: input.gatewayId,
+                name: input.name ?? null,
+                location: input.location ?? null,
+                latitude: input.latitude ?? null,
+                longitude: input.longitude ?? null,
+                firmwareVersion: input.firmwareVersion ?? null,
+            },
+            include: { fields: attachedFields },
+        });
+    } catch (error) {
+        throw new DatabaseError('createGateway', error as Error);
+    }
+}
+
+/**
+ * Get gateway with attached fields
+ */
+export async function getGateway(gatewayId: string) {
+    try {
+        const gateway = await prisma.gateway.findUnique({
+            where: { gatewayId },
+            include: { fields: attachedFields },
+        });
+
+        if (!gateway) {
+            throw new NotFoundError('Gateway', gatewayId);
+        }
+
+        return gateway;
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('getGateway', error as Error);
+    }
+}
+
+/**
+ * Find gateway (null when not registered)
+ */
+export async function findGateway(gatewayId: string) {
+    try {
+        return await prisma.gateway.findUnique({
+            where: { gatewayId },
+        });
+    } catch (error) {
+        throw new DatabaseError('findGateway', error as Error);
+    }
+}
+
+/**
+ * Get all gateways with attached fields
+ */
+export async function getAllGateways() {
+    try {
+        return await prisma.gateway.findMany({
+            include: { fields: attachedFields },
+            orderBy: { gatewayId: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getAllGateways', error as Error);
+    }
+}
+
+/**
+ * Update gateway metadata
+ */
+export async function updateGateway(gatewayId: string, input: UpdateGatewayInput) {
+    try {
+        const data: Prisma.GatewayUpdateInput = {};
+
+        if (input.name !== undefined) data.name = input.name;
+        if (input.location !== undefined) data.location = input.location;
+        if (input.latitude !== undefined) data.latitude = input.latitude;
+        if (input.longitude !== undefined) data.longitude = input.longitude;
+        if (input.firmwareVersion !== undefined) data.firmwareVersion = input.firmwareVersion;
+
+        return await prisma.gateway.update({
+            where: { gatewayId },
+            data,
+            include: { fields: attachedFields },
+        });
+    } catch (error) {
+        throw new DatabaseError('updateGateway', error as Error);
+    }
+}
+
+/**
+ * Delete gateway
+ */
+export async function deleteGateway(gatewayId: string) {
+    try {
+        return await prisma.gateway.delete({
+            where: { gatewayId },
+        });
+    } catch (error) {
+        throw new DatabaseError('deleteGateway', error as Error);
+    }
+}
+
+/**
+ * Record gateway activity; lastSeen never moves backwards (buffered uploads arrive late)
+ * Unregistered gateways are left alone; returns whether a row was updated
+ */
+export async function touchGateway(gatewayId: string, seenAt: Date, firmwareVersion?: string) {
+    try {
+        const result = await prisma.gateway.updateMany({
+            where: {
+                gatewayId,
+                OR: [{ lastSeen: null }, { lastSeen: { lt: seenAt } }],
+            },
+            data: {
+                lastSeen: seenAt,
+                ...(firmwareVersion !== undefined && { firmwareVersion }),
+            },
+        });
+
+        return result.count > 0;
+    } catch (error) {
+        throw new DatabaseError('touchGateway', error as Error);
+    }
+}
@@ -2,8 +2,10 @@
  * GDD (Growing Degree Days) Repository
  */
 
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { DatabaseError } from '../utils/errors.js';
+import type { ExportFilters, ExportCursor } from '../models/common.types.js';
 
 export interface CreateGDDRecordInput {
     fieldId: number;
@@ -96,6 +98,23 @@ export async function getLatestGDDRecord(fieldId: number) {
     }
 }
 
+/**
+ * Get most recent GDD record on or before date
+ */
+export async function getGDDRecordOnOrBefore(fieldId: number, date: Date) {
+    try {
+        return await prisma.gDDRecord.findFirst({
+            where: {
+                fieldId,
+                date: { lte: date },
+            },
+            orderBy: { date: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getGDDRecordOnOrBefore', error as Error);
+    }
+}
+
 /**
  * Delete GDD records for date range
  */
@@ -132,3 +151,39 @@ export async function getCumulativeGDD(fieldId: number): Promise<number> {
         throw new DatabaseError('getCumulativeGDD', error as Error);
     }
 }
+
+/**
+ * Page of GDD records after cursor, ordered by (date, id) for streaming export
+ * Filters by node through the owning field
+ */
+export async function getGDDRecordsPage(filters: ExportFilters, after: ExportCursor | null, take: number) {
+    try {
+        const where: Prisma.GDDRecordWhereInput = {};
+
+        if (filters.nodeIds && filters.nodeIds.length > 0) {
+            where.field = { nodeId: { in: filters.nodeIds } };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.date = {};
+            if (filters.startDate) where.date.gte = filters.startDate;
+            if (filters.endDate) where.date.lte = filters.endDate;
+        }
+
+        if (after) {
+            where.OR = [
+                { date: { gt: after.at } },
+                { date: after.at, id: { gt: after.id } },
+            ];
+        }
+
+        return await prisma.gDDRecord.findMany({
+            where,
+            include: { field: { select: { nodeId: true } } },
+            orderBy: [{ date: 'asc' }, { id: 'asc' }],
+            take,
+        });
+    } catch (error) {
+        throw new DatabaseError('getGDDRecordsPage', error as Error);
+    }
+}
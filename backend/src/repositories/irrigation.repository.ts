@@ -0,0 +1,264 @@
+/**
+ * Irrigation Log Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import { getStartOfDay, getEndOfDay } from '../utils/dateHelpers.js';
+import type { IrrigationUrgency, IrrigationMethod } from '../utils/constants.js';
+import type { ExportFilters, ExportCursor } from '../models/common.types.js';
+
+export interface CreateIrrigationLogInput {
+    nodeId: number;
+    currentVWC: number;
+    targetVWC: number;
+    cropType?: string | undefined;
+    growthStage?: string | undefined;
+    shouldIrrigate: boolean;
+    urgency: IrrigationUrgency;
+    reason: string;
+    estimatedWaterNeeded: number;
+    timestamp: Date;
+}
+
+export interface CreateIrrigationEventInput {
+    nodeId: number;
+    irrigationLogId?: number | undefined;
+    appliedAt: Date;
+    method: IrrigationMethod;
+    depthMm: number;
+    volumeLiters?: number | undefined;
+    effectiveDepthMm: number;
+    notes?: string | undefined;
+}
+
+export interface IrrigationLogFilters {
+    nodeId: number;
+    startDate?: Date;
+    endDate?: Date;
+    urgency?: IrrigationUrgency[];
+    limit?: number;
+}
+
+/**
+ * Create irrigation log entry for a decision
+ */
+export async function createIrrigationLog(input: CreateIrrigationLogInput) {
+    try {
+        return await prisma.irrigationLog.create({
+            data: {
+                nodeId: input.nodeId,
+                currentVWC: input.currentVWC,
+                targetVWC: input.targetVWC,
+                cropType: input.cropType ?? null,
+                growthStage: input.growthStage ?? null,
+                shouldIrrigate: input.shouldIrrigate,
+                urgency: input.urgency,
+                reason: input.reason,
+                estimatedWaterNeeded: input.estimatedWaterNeeded,
+                timestamp: input.timestamp,
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createIrrigationLog', error as Error);
+    }
+}
+
+/**
+ * Get irrigation logs with filters
+ */
+export async function getIrrigationLogs(filters: IrrigationLogFilters) {
+    try {
+        const where: Prisma.IrrigationLogWhereInput = {
+            nodeId: filters.nodeId,
+        };
+
+        if (filters.startDate || filters.endDate) {
+            where.timestamp = {};
+            if (filters.startDate) {
+                where.timestamp.gte = getStartOfDay(filters.startDate);
+            }
+            if (filters.endDate) {
+                where.timestamp.lte = getEndOfDay(filters.endDate);
+            }
+        }
+
+        if (filters.urgency && filters.urgency.length > 0) {
+            where.urgency = { in: filters.urgency };
+        }
+
+        return await prisma.irrigationLog.findMany({
+            where,
+            orderBy: { timestamp: 'desc' },
+            take: filters.limit || 100,
+        });
+    } catch (error) {
+        throw new DatabaseError('getIrrigationLogs', error as Error);
+    }
+}
+
+/**
+ * Get irrigation log by ID
+ */
+export async function getIrrigationLogById(id: number) {
+    try {
+        return await prisma.irrigationLog.findUnique({
+            where: { id },
+        });
+    } catch (error) {
+        throw new DatabaseError('getIrrigationLogById', error as Error);
+    }
+}
+
+/**
+ * Find the most recent irrigate decision not yet acted on
+ */
+export async function findPendingIrrigationLog(nodeId: number, since: Date, until: Date) {
+    try {
+        return await prisma.irrigationLog.findFirst({
+            where: {
+                nodeId,
+                shouldIrrigate: true,
+                actionTaken: false,
+                timestamp: {
+                    gte: since,
+                    lte: until,
+                },
+            },
+            orderBy: { timestamp: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('findPendingIrrigationLog', error as Error);
+    }
+}
+
+/**
+ * Record irrigation event and mark the linked decision as acted on
+ */
+export async function createIrrigationEvent(input: CreateIrrigationEventInput) {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const event = await tx.irrigationEvent.create({
+                data: {
+                    nodeId: input.nodeId,
+                    irrigationLogId: input.irrigationLogId ?? null,
+                    appliedAt: input.appliedAt,
+                    method: input.method,
+                    depthMm: input.depthMm,
+                    volumeLiters: input.volumeLiters ?? null,
+                    effectiveDepthMm: input.effectiveDepthMm,
+                    notes: input.notes ?? null,
+                },
+            });
+
+            if (input.irrigationLogId !== undefined) {
+                const log = await tx.irrigationLog.findUniqueOrThrow({
+                    where: { id: input.irrigationLogId },
+                });
+
+                // Split applications (e.g. pump rotation) accumulate on the same decision
+                await tx.irrigationLog.update({
+                    where: { id: input.irrigationLogId },
+                    data: {
+                        actionTaken: true,
+                        actionTimestamp: input.appliedAt,
+                        actualWaterApplied: (log.actualWaterApplied ?? 0) + input.depthMm,
+                    },
+                });
+            }
+
+            return event;
+        });
+    } catch (error) {
+        throw new DatabaseError('createIrrigationEvent', error as Error);
+    }
+}
+
+/**
+ * Get irrigation events for node since date
+ */
+export async function getIrrigationEvents(nodeId: number, since: Date, until: Date = new Date()) {
+    try {
+        return await prisma.irrigationEvent.findMany({
+            where: {
+                nodeId,
+                appliedAt: {
+                    gte: since,
+                    lte: until,
+                },
+            },
+            orderBy: { appliedAt: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getIrrigationEvents', error as Error);
+    }
+}
+
+/**
+ * Page of irrigation decisions after cursor, ordered by (timestamp, id) for streaming export
+ */
+export async function getIrrigationLogsPage(filters: ExportFilters, after: ExportCursor | null, take: number) {
+    try {
+        const where: Prisma.IrrigationLogWhereInput = {};
+
+        if (filters.nodeIds && filters.nodeIds.length > 0) {
+            where.nodeId = { in: filters.nodeIds };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.timestamp = {};
+            if (filters.startDate) where.timestamp.gte = filters.startDate;
+            if (filters.endDate) where.timestamp.lte = filters.endDate;
+        }
+
+        if (after) {
+            where.OR = [
+                { timestamp: { gt: after.at } },
+                { timestamp: after.at, id: { gt: after.id } },
+            ];
+        }
+
+        return await prisma.irrigationLog.findMany({
+            where,
+            orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+            take,
+        });
+    } catch (error) {
+        throw new DatabaseError('getIrrigationLogsPage', error as Error);
+    }
+}
+
+/**
+ * Page of irrigation applications after cursor, ordered by (appliedAt, id) for streaming export
+ */
+export async function getIrrigationEventsPage(filters: ExportFilters, after: ExportCursor | null, take: number) {
+    try {
+        const where: Prisma.IrrigationEventWhereInput = {};
+
+        if (filters.nodeIds && filters.nodeIds.length > 0) {
+            where.nodeId = { in: filters.nodeIds };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.appliedAt = {};
+            if (filters.startDate) where.appliedAt.gte = filters.startDate;
+            if (filters.endDate) where.appliedAt.lte = filters.endDate;
+        }
+
+        if (after) {
+            where.OR = [
+                { appliedAt: { gt: after.at } },
+                { appliedAt: after.at, id: { gt: after.id } },
+            ];
+        }
+
+        return await prisma.irrigationEvent.findMany({
+            where,
+            orderBy: [{ appliedAt: 'asc' }, { id: 'asc' }],
+            take,
+        });
+    } catch (error) {
+        throw new DatabaseError('getIrrigationEventsPage', error as Error);
+    }
+}
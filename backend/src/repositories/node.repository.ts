@@ -0,0 +1,206 @@
+/**
+ * Sensor Node Repository
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+import type { PayloadEncoding } from '../utils/constants.js';
+
+export interface NodeSettingsInput {
+    location?: string | undefined;
+    burialDepth?: number | undefined;
+    reportIntervalSec?: number | undefined;
+    payloadEncoding?: PayloadEncoding | undefined;
+}
+
+/**
+ * Record that a node reported: registers unknown nodes, refreshes lastSeen and reactivates
+ * Backdated reports (buffered uploads) never move lastSeen backwards
+ */
+export async function touchNode(nodeId: number, seenAt: Date = new Date()) {
+    try {
+        const node = await prisma.node.upsert({
+            where: { nodeId },
+            create: {
+                nodeId,
+                lastSeen: seenAt,
+                isActive: true,
+            },
+            update: {},
+        });
+
+        if (node.lastSeen >= seenAt) {
+            return node;
+        }
+
+        await prisma.node.updateMany({
+            where: {
+                nodeId,
+                lastSeen: { lt: seenAt },
+            },
+            data: {
+                lastSeen: seenAt,
+                isActive: true,
+                offlineSince: null,
+            },
+        });
+
+        return await prisma.node.findUniqueOrThrow({
+            where: { nodeId },
+        });
+    } catch (error) {
+        throw new DatabaseError('touchNode', error as Error);
+    }
+}
+
+/**
+ * Deactivate node if still active
+ * Returns false when node already inactive or reported in the meantime
+ */
+export async function markNodeOffline(nodeId: number, lastSeenBefore: Date, offlineSince: Date = new Date()) {
+    try {
+        const result = await prisma.node.updateMany({
+            where: {
+                nodeId,
+                isActive: true,
+                lastSeen: { lt: lastSeenBefore },
+            },
+            data: {
+                isActive: false,
+                offlineSince,
+            },
+        });
+
+        return result.count > 0;
+    } catch (error) {
+        throw new DatabaseError('markNodeOffline', error as Error);
+    }
+}
+
+/**
+ * Move node sequence state forward if nobody else has since (compare-and-set)
+ * Returns false when the expected state is stale
+ */
+export async function advanceNodeSequence(
+    nodeId: number,
+    expected: { lastSeq: number | null; lastSeqAt: Date | null },
+    next: { seq: number; seqAt: Date; missed: number; reset: boolean }
+) {
+    try {
+        const result = await prisma.node.updateMany({
+            where: {
+                nodeId,
+                lastSeq: expected.lastSeq,
+                lastSeqAt: expected.lastSeqAt,
+            },
+            data: {
+                lastSeq: next.seq,
+                lastSeqAt: next.seqAt,
+                gapCount: { increment: next.missed },
+                ...(next.reset && { seqResetCount: { increment: 1 } }),
+            },
+        });
+
+        return result.count > 0;
+    } catch (error) {
+        throw new DatabaseError('advanceNodeSequence', error as Error);
+    }
+}
+
+/**
+ * Count packet dropped as duplicate
+ */
+export async function recordDuplicatePacket(nodeId: number) {
+    try {
+        await prisma.node.update({
+            where: { nodeId },
+            data: { duplicateCount: { increment: 1 } },
+        });
+    } catch (error) {
+        throw new DatabaseError('recordDuplicatePacket', error as Error);
+    }
+}
+
+/**
+ * Late packet fills a gap counted when the newer packet (readingId) arrived first
+ * Returns false when that gap has already been filled
+ */
+export async function recordLatePacket(nodeId: number, readingId: number) {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const filled = await tx.sensorReading.updateMany({
+                where: { id: readingId, nodeId, gapBefore: { gt: 0 } },
+                data: { gapBefore: { decrement: 1 } },
+            });
+
+            if (filled.count === 0) {
+                return false;
+            }
+
+            await tx.node.updateMany({
+                where: { nodeId, gapCount: { gt: 0 } },
+                data: { gapCount: { decrement: 1 } },
+            });
+
+            return true;
+        });
+    } catch (error) {
+        throw new DatabaseError('recordLatePacket', error as Error);
+    }
+}
+
+/**
+ * Register node with its settings, or update settings of an existing node
+ * lastSeen is only set on creation (when the node was actually last heard from)
+ */
+export async function configureNode(nodeId: number, settings: NodeSettingsInput, lastSeen: Date) {
+    try {
+        const data = {
+            ...(settings.location !== undefined && { location: settings.location }),
+            ...(settings.burialDepth !== undefined && { burialDepth: settings.burialDepth }),
+            ...(settings.reportIntervalSec !== undefined && { reportIntervalSec: settings.reportIntervalSec }),
+            ...(settings.payloadEncoding !== undefined && { payloadEncoding: settings.payloadEncoding }),
+        };
+
+        return await prisma.node.upsert({
+            where: { nodeId },
+            create: { nodeId, lastSeen, isActive: true, ...data },
+            update: data,
+        });
+    } catch (error) {
+        throw new DatabaseError('configureNode', error as Error);
+    }
+}
+
+/**
+ * Get node by node ID
+ */
+export async function getNodeByNodeId(nodeId: number) {
+    try {
+        const node = await prisma.node.findUnique({
+            where: { nodeId },
+        });
+
+        if (!node) {
+            throw new NotFoundError('Node', `nodeId=${nodeId}`);
+        }
+
+        return node;
+    } catch (error) {
+        if (error instanceof NotFoundError) throw error;
+        throw new DatabaseError('getNodeByNodeId', error as Error);
+    }
+}
+
+/**
+ * Get all nodes
+ */
+export async function getAllNodes() {
+    try {
+        return await prisma.node.findMany({
+            orderBy: { nodeId: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getAllNodes', error as Error);
+    }
+}
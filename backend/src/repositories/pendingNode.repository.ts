@@ -0,0 +1,164 @@
+/**
+ * Pending Node Repository
+ * Nodes that reported before being assigned to a field, and their held readings
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError, NotFoundError } from '../utils/errors.js';
+
+export interface HoldPendingReadingInput {
+    nodeId: number;
+    moisture: number;
+    temperature: number;
+    rssi?: number | undefined;
+    batteryLevel?: number | undefined;
+    seq?: number | undefined;
+    timestamp: Date;
+}
+
+/**
+ * Hold raw reading for an unclaimed node, registering it in the queue
+ * Returns false when the node already holds maxHeld readings (reading dropped and counted)
+ */
+export async function holdPendingReading(input: HoldPendingReadingInput, maxHeld: number) {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const pending = await tx.pendingNode.upsert({
+                where: { nodeId: input.nodeId },
+                create: {
+                    nodeId: input.nodeId,
+                    firstSeen: input.timestamp,
+                    lastSeen: input.timestamp,
+                },
+                update: {},
+                include: { _count: { select: { readings: true } } },
+            });
+
+            const seen = {
+                ...(input.timestamp > pending.lastSeen && { lastSeen: input.timestamp }),
+                ...(input.timestamp < pending.firstSeen && { firstSeen: input.timestamp }),
+            };
+
+            if (pending._count.readings >= maxHeld) {
+                await tx.pendingNode.update({
+                    where: { nodeId: input.nodeId },
+                    data: { ...seen, droppedCount: { increment: 1 } },
+                });
+                return false;
+            }
+
+            if (Object.keys(seen).length > 0) {
+                await tx.pendingNode.update({
+                    where: { nodeId: input.nodeId },
+                    data: seen,
+                });
+            }
+
+            await tx.pendingReading.create({
+                data: {
+                    nodeId: input.nodeId,
+                    moisture: input.moisture,
+                    temperature: input.temperature,
+                    rssi: input.rssi ?? null,
+                    batteryLevel: input.batteryLevel ?? null,
+                    seq: input.seq ?? null,
+                    timestamp: input.timestamp,
+                },
+            });
+
+            return true;
+        });
+    } catch (error) {
+        throw new DatabaseError('holdPendingReading', error as Error);
+    }
+}
+
+/**
+ * Get pending nodes with held reading count and most recent held reading
+ */
+export async function getPendingNodes() {
+    try {
+        return await prisma.pendingNode.findMany({
+            include: {
+                _count: { select: { readings: true } },
+                readings: {
+                    take: 1,
+                    orderBy: { timestamp: 'desc' },
+                },
+            },
+            orderBy: { lastSeen: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getPendingNodes', error as Error);
+    }
+}
+
+/**
+ * Get pending node (null when the node is not in the queue)
+ */
+export async function findPendingNode(nodeId: number) {
+    try {
+        return await prisma.pendingNode.findUnique({
+            where: { nodeId },
+            include: { _count: { select: { readings: true } } },
+        });
+    } catch (error) {
+        throw new DatabaseError('findPendingNode', error as Error);
+    }
+}
+
+/**
+ * Oldest held readings for node, in report order
+ */
+export async function getHeldReadings(nodeId: number, take: number) {
+    try {
+        return await prisma.pendingReading.findMany({
+            where: { nodeId },
+            orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+            take,
+        });
+    } catch (error) {
+        throw new DatabaseError('getHeldReadings', error as Error);
+    }
+}
+
+/**
+ * Delete held readings once re-processed
+ */
+export async function deleteHeldReadings(ids: number[]) {
+    try {
+        const result = await prisma.pendingReading.deleteMany({
+            where: { id: { in: ids } },
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('deleteHeldReadings', error as Error);
+    }
+}
+
+/**
+ * Remove node from the queue (held readings are deleted with it)
+ */
+export async function deletePendingNode(nodeId: number) {
+    try {
+        return await prisma.pendingNode.delete({
+            where: { nodeId },
+        });
+    } catch (error) {
+        throw new DatabaseError('deletePendingNode', error as Error);
+    }
+}
+
+/**
+ * Get pending node or throw
+ */
+export async function getPendingNode(nodeId: number) {
+    const pending = await findPendingNode(nodeId);
+
+    if (!pending) {
+        throw new NotFoundError('PendingNode', `nodeId=${nodeId}`);
+    }
+
+    return pending;
+}
@@ -0,0 +1,84 @@
+/**
+ * Rejected Raw Frame Repository
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import type { FrameEncoding, FrameRejectionReason } from '../utils/constants.js';
+
+export interface CreateRejectedFrameInput {
+    gatewayId: string;
+    payload: string;
+    encoding?: FrameEncoding | undefined;
+    reason: FrameRejectionReason;
+    detail?: string | undefined;
+    nodeId?: number | undefined;
+    rssi?: number | undefined;
+    receivedAt: Date;
+}
+
+export interface RejectedFrameFilters {
+    gatewayId?: string | undefined;
+    reason?: FrameRejectionReason[] | undefined;
+    startDate?: Date | undefined;
+    endDate?: Date | undefined;
+    limit?: number | undefined;
+}
+
+/**
+ * Store rejected frame for diagnostics
+ */
+export async function createRejectedFrame(input: CreateRejectedFrameInput) {
+    try {
+        return await prisma.rejectedFrame.create({
+            data: {
+                gatewayId: input.gatewayId,
+                payload: input.payload,
+                encoding: input.encoding ?? null,
+                reason: input.reason,
+                detail: input.detail ?? null,
+                nodeId: input.nodeId ?? null,
+                rssi: input.rssi ?? null,
+                receivedAt: input.receivedAt,
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('createRejectedFrame', error as Error);
+    }
+}
+
+/**
+ * Get rejected frames with filters (newest first)
+ */
+export async function getRejectedFrames(filters: RejectedFrameFilters) {
+    try {
+        const where: Prisma.RejectedFrameWhereInput = {};
+
+        if (filters.gatewayId !== undefined) {
+            where.gatewayId = filters.gatewayId;
+        }
+
+        if (filters.reason && filters.reason.length > 0) {
+            where.reason = { in: filters.reason };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.receivedAt = {};
+            if (filters.startDate) {
+                where.receivedAt.gte = filters.startDate;
+            }
+            if (filters.endDate) {
+                where.receivedAt.lte = filters.endDate;
+            }
+        }
+
+        return await prisma.rejectedFrame.findMany({
+            where,
+            orderBy: { receivedAt: 'desc' },
+            take: filters.limit || 100,
+        });
+    } catch (error) {
+        throw new DatabaseError('getRejectedFrames', error as Error);
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * Reading Rollup Repository
+ * Hourly and daily summaries of raw sensor readings pruned by the retention job
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import { ROLLUP_RESOLUTIONS } from '../utils/constants.js';
+import type { RollupResolution } from '../utils/constants.js';
+import type { ReadingBucketRow } from './sensor.repository.js';
+
+export interface RollUpResult {
+    readingsPruned: number;
+    hourlyBuckets: number;
+    dailyBuckets: number;
+}
+
+const ROLLUP_TABLES: Record<RollupResolution, Prisma.Sql> = {
+    [ROLLUP_RESOLUTIONS.HOURLY]: Prisma.raw('"SensorReadingHourly"'),
+    [ROLLUP_RESOLUTIONS.DAILY]: Prisma.raw('"SensorReadingDaily"'),
+};
+
+/**
+ * Merge raw readings in [from, to) into a rollup table
+ * Existing buckets are combined, so late readings for an already rolled-up hour are not lost
+ */
+function mergeIntoRollup(resolution: RollupResolution, from: Date, to: Date): Prisma.Sql {
+    const table = ROLLUP_TABLES[resolution];
+
+    return Prisma.sql`
+        INSERT INTO ${table} (
+            "nodeId", "bucket",
+            "vwcMin", "vwcMax", "vwcSum", "vwcCount",
+            "tempMin", "tempMax", "tempSum", "tempCount",
+            "readingsCount"
+        )
+        SELECT
+            r."nodeId",
+            date_trunc(${resolution}::text, r."timestamp"),
+            MIN(r."soilMoistureVWC"),
+            MAX(r."soilMoistureVWC"),
+            COALESCE(SUM(r."soilMoistureVWC"), 0),
+            COUNT(r."soilMoistureVWC")::int,
+            MIN(r."soilTemperature"),
+            MAX(r."soilTemperature"),
+            COALESCE(SUM(r."soilTemperature"), 0),
+            COUNT(r."soilTemperature")::int,
+            COUNT(*)::int
+        FROM "SensorReading" r
+        WHERE r."timestamp" >= ${from}
+            AND r."timestamp" < ${to}
+        GROUP BY 1, 2
+        ON CONFLICT ("nodeId", "bucket") DO UPDATE SET
+            "vwcMin" = LEAST(${table}."vwcMin", EXCLUDED."vwcMin"),
+            "vwcMax" = GREATEST(${table}."vwcMax", EXCLUDED."vwcMax"),
+            "vwcSum" = ${table}."vwcSum" + EXCLUDED."vwcSum",
+            "vwcCount" = ${table}."vwcCount" + EXCLUDED."vwcCount",
+            "tempMin" = LEAST(${table}."tempMin", EXCLUDED."tempMin"),
+            "tempMax" = GREATEST(${table}."tempMax", EXCLUDED."tempMax"),
+            "tempSum" = ${table}."tempSum" + EXCLUDED."tempSum",
+            "tempCount" = ${table}."tempCount" + EXCLUDED."tempCount",
+            "readingsCount" = ${table}."readingsCount" + EXCLUDED."readingsCount"
+    `;
+}
+
+/**
+ * Oldest raw reading before cutoff that the retention job can move
+ */
+export async function getOldestPrunableReading(before: Date): Promise<Date | null> {
+    try {
+        const rows = await prisma.$queryRaw<{ oldest: Date | null }[]>`
+            SELECT MIN(r."timestamp") AS "oldest"
+            FROM "SensorReading" r
+            WHERE r."timestamp" < ${before}
+        `;
+
+        return rows[0]?.oldest ?? null;
+    } catch (error) {
+        throw new DatabaseError('getOldestPrunableReading', error as Error);
+    }
+}
+
+/**
+ * Roll raw readings in [from, to) up into the summary tables and delete them, atomically
+ * Hourly buckets are only written from hourlyFrom onward (older ones would be pruned anyway)
+ */
+export async function rollUpAndPruneReadings(from: Date, to: Date, hourlyFrom: Date): Promise<RollUpResult> {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const hourlyStart = hourlyFrom > from ? hourlyFrom : from;
+            const hourlyBuckets = hourlyStart < to
+                ? await tx.$executeRaw(mergeIntoRollup(ROLLUP_RESOLUTIONS.HOURLY, hourlyStart, to))
+                : 0;
+            const dailyBuckets = await tx.$executeRaw(mergeIntoRollup(ROLLUP_RESOLUTIONS.DAILY, from, to));
+
+            // Analyses of pruned readings go with them; crop recommendations that scored one
+            // keep their run's conditions and lose the link (analysisId is SET NULL on delete)
+            await tx.$executeRaw`
+                DELETE FROM "Analysis" a
+                USING "SensorReading" r
+                WHERE a."readingId" = r."id"
+                    AND r."timestamp" >= ${from}
+                    AND r."timestamp" < ${to}
+            `;
+
+            const readingsPruned = await tx.$executeRaw`
+                DELETE FROM "SensorReading" r
+                WHERE r."timestamp" >= ${from}
+                    AND r."timestamp" < ${to}
+            `;
+
+            return { readingsPruned, hourlyBuckets, dailyBuckets };
+        });
+    } catch (error) {
+        throw new DatabaseError('rollUpAndPruneReadings', error as Error);
+    }
+}
+
+/**
+ * Delete hourly rollups older than cutoff (daily rollups still cover them)
+ */
+export async function pruneHourlyRollups(before: Date) {
+    try {
+        const result = await prisma.sensorReadingHourly.deleteMany({
+            where: { bucket: { lt: before } },
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('pruneHourlyRollups', error as Error);
+    }
+}
+
+/**
+ * Rollups re-aggregated into date_trunc buckets in the given timezone [from, to)
+ * Same shape as raw getReadingBuckets so the two can be merged
+ */
+export async function getRollupBuckets(
+    nodeId: number,
+    resolution: RollupResolution,
+    unit: string,
+    timezone: string,
+    from: Date,
+    to: Date
+) {
+    const table = ROLLUP_TABLES[resolution];
+
+    try {
+        return await prisma.$queryRaw<ReadingBucketRow[]>`
+            SELECT
+                date_trunc(${unit}::text, "bucket" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text)
+                    AT TIME ZONE ${timezone}::text AS "bucket",
+                MIN("vwcMin") AS "vwcMin",
+                MAX("vwcMax") AS "vwcMax",
+                SUM("vwcSum") / NULLIF(SUM("vwcCount"), 0) AS "vwcAvg",
+                SUM("vwcCount")::int AS "vwcCount",
+                MIN("tempMin") AS "tempMin",
+                MAX("tempMax") AS "tempMax",
+                SUM("tempSum") / NULLIF(SUM("tempCount"), 0) AS "tempAvg",
+                SUM("tempCount")::int AS "tempCount"
+            FROM ${table}
+            WHERE "nodeId" = ${nodeId}
+                AND "bucket" >= ${from}
+                AND "bucket" < ${to}
+            GROUP BY 1
+            ORDER BY 1
+        `;
+    } catch (error) {
+        throw new DatabaseError('getRollupBuckets', error as Error);
+    }
+}
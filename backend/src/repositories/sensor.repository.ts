@@ -7,6 +7,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { DatabaseError } from '../utils/errors.js';
 import { getStartOfDay, getEndOfDay } from '../utils/dateHelpers.js';
+import type { ExportFilters, ExportCursor } from '../models/common.types.js';
 
 export interface CreateSensorReadingInput {
     nodeId: number;
@@ -14,9 +15,37 @@ export interface CreateSensorReadingInput {
     temperature: number;
     soilMoistureVWC: number;
     soilTemperature: number;
+    rssi?: number | undefined;          // dBm at gateway
+    batteryLevel?: number | undefined;  // %
+    calibrationVersion?: number | undefined;
+    seq?: number | undefined;           // Firmware packet sequence number
+    gapBefore?: number | undefined;     // Packets counted missing just before this one
     timestamp: Date; // Make required, not optional
 }
 
+export interface ReadingBucketRow {
+    bucket: Date;
+    vwcMin: number | null;
+    vwcMax: number | null;
+    vwcAvg: number | null;
+    vwcCount: number;
+    tempMin: number | null;
+    tempMax: number | null;
+    tempAvg: number | null;
+    tempCount: number;
+}
+
+export interface LatestNodeReadingRow {
+    id: number;
+    nodeId: number;
+    soilMoistureVWC: number;
+    soilTemperature: number | null;
+    rssi: number | null;
+    batteryLevel: number | null;
+    calibrationVersion: number | null;
+    timestamp: Date;
+}
+
 export interface SensorReadingFilters {
     nodeId?: number;
     startDate?: Date;
@@ -36,8 +65,11 @@ export async function createSensorReading(input: CreateSensorReadingInput) {
                 temperature: input.temperature,
                 soilMoistureVWC: input.soilMoistureVWC,
                 soilTemperature: input.soilTemperature,
-                rssi: null,
-                batteryLevel: null,
+                rssi: input.rssi ?? null,
+                batteryLevel: input.batteryLevel ?? null,
+                calibrationVersion: input.calibrationVersion ?? null,
+                seq: input.seq ?? null,
+                gapBefore: input.gapBefore ?? 0,
                 timestamp: input.timestamp,
             },
         });
@@ -46,6 +78,114 @@ export async function createSensorReading(input: CreateSensorReadingInput) {
     }
 }
 
+/**
+ * Bulk insert sensor readings (historical import)
+ */
+export async function createSensorReadings(inputs: CreateSensorReadingInput[]) {
+    try {
+        const result = await prisma.sensorReading.createMany({
+            data: inputs.map(input => ({
+                nodeId: input.nodeId,
+                moisture: input.moisture,
+                temperature: input.temperature,
+                soilMoistureVWC: input.soilMoistureVWC,
+                soilTemperature: input.soilTemperature,
+                rssi: input.rssi ?? null,
+                batteryLevel: input.batteryLevel ?? null,
+                calibrationVersion: input.calibrationVersion ?? null,
+                seq: input.seq ?? null,
+                timestamp: input.timestamp,
+            })),
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('createSensorReadings', error as Error);
+    }
+}
+
+/**
+ * Get timestamps of stored readings for node in range (import de-duplication)
+ */
+export async function getReadingTimestamps(nodeId: number, from: Date, to: Date) {
+    try {
+        const readings = await prisma.sensorReading.findMany({
+            where: {
+                nodeId,
+                timestamp: { gte: from, lte: to },
+            },
+            select: { timestamp: true },
+        });
+
+        return readings.map(r => r.timestamp);
+    } catch (error) {
+        throw new DatabaseError('getReadingTimestamps', error as Error);
+    }
+}
+
+/**
+ * Readings of node in range without a fuzzy analysis (import backfill)
+ */
+export async function getReadingsWithoutAnalysis(nodeId: number, from: Date, to: Date) {
+    try {
+        return await prisma.sensorReading.findMany({
+            where: {
+                nodeId,
+                timestamp: { gte: from, lte: to },
+                analysis: { is: null },
+            },
+            select: { id: true, timestamp: true, soilMoistureVWC: true, soilTemperature: true },
+            orderBy: { timestamp: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getReadingsWithoutAnalysis', error as Error);
+    }
+}
+
+/**
+ * Find stored reading with sequence number inside time window
+ */
+export async function findReadingBySeq(nodeId: number, seq: number, from: Date, to: Date) {
+    try {
+        return await prisma.sensorReading.findFirst({
+            where: {
+                nodeId,
+                seq,
+                timestamp: { gte: from, lte: to },
+            },
+            orderBy: { timestamp: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('findReadingBySeq', error as Error);
+    }
+}
+
+/**
+ * Stored packets with a sequence number immediately before and after timestamp
+ */
+export async function getAdjacentSequencedReadings(nodeId: number, timestamp: Date) {
+    try {
+        const select = { id: true, seq: true, gapBefore: true, timestamp: true };
+
+        const [previous, next] = await Promise.all([
+            prisma.sensorReading.findFirst({
+                where: { nodeId, seq: { not: null }, timestamp: { lt: timestamp } },
+                orderBy: { timestamp: 'desc' },
+                select,
+            }),
+            prisma.sensorReading.findFirst({
+                where: { nodeId, seq: { not: null }, timestamp: { gt: timestamp } },
+                orderBy: { timestamp: 'asc' },
+                select,
+            }),
+        ]);
+
+        return { previous, next };
+    } catch (error) {
+        throw new DatabaseError('getAdjacentSequencedReadings', error as Error);
+    }
+}
+
 /**
  * Get latest reading
  */
@@ -54,12 +194,43 @@ export async function getLatestReading(nodeId: number) {
         return await prisma.sensorReading.findFirst({
             where: { nodeId },
             orderBy: { timestamp: 'desc' },
+            include: { analysis: true },
         });
     } catch (error) {
         throw new DatabaseError('getLatestReading', error as Error);
     }
 }
 
+/**
+ * Latest reading with a VWC value for each node
+ * One index lookup per node (Prisma's distinct would load every historical row and dedupe in memory)
+ */
+export async function getLatestReadingsForNodes(nodeIds: number[]) {
+    if (nodeIds.length === 0) {
+        return [];
+    }
+
+    try {
+        return await prisma.$queryRaw<LatestNodeReadingRow[]>`
+            SELECT r.*
+            FROM unnest(${nodeIds}::int[]) AS n("nodeId")
+            CROSS JOIN LATERAL (
+                SELECT
+                    "id", "nodeId", "soilMoistureVWC", "soilTemperature",
+                    "rssi", "batteryLevel", "calibrationVersion", "timestamp"
+                FROM "SensorReading"
+                WHERE "nodeId" = n."nodeId"
+                    AND "soilMoistureVWC" IS NOT NULL
+                ORDER BY "timestamp" DESC
+                LIMIT 1
+            ) r
+            ORDER BY r."nodeId"
+        `;
+    } catch (error) {
+        throw new DatabaseError('getLatestReadingsForNodes', error as Error);
+    }
+}
+
 /**
  * Get readings with filters
  */
@@ -157,21 +328,92 @@ export async function getAverageReadings(nodeId: number, hours: number = 24) {
 }
 
 /**
- * Delete old readings
+ * Soil readings aggregated into date_trunc buckets in the given timezone [from, to)
  */
-export async function deleteOldReadings(daysToKeep: number = 90) {
+export async function getReadingBuckets(
+    nodeId: number,
+    unit: string,
+    timezone: string,
+    from: Date,
+    to: Date
+) {
     try {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+        return await prisma.$queryRaw<ReadingBucketRow[]>`
+            SELECT
+                date_trunc(${unit}::text, "timestamp" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text)
+                    AT TIME ZONE ${timezone}::text AS "bucket",
+                MIN("soilMoistureVWC") AS "vwcMin",
+                MAX("soilMoistureVWC") AS "vwcMax",
+                AVG("soilMoistureVWC") AS "vwcAvg",
+                COUNT("soilMoistureVWC")::int AS "vwcCount",
+                MIN("soilTemperature") AS "tempMin",
+                MAX("soilTemperature") AS "tempMax",
+                AVG("soilTemperature") AS "tempAvg",
+                COUNT("soilTemperature")::int AS "tempCount"
+            FROM "SensorReading"
+            WHERE "nodeId" = ${nodeId}
+                AND "timestamp" >= ${from}
+                AND "timestamp" < ${to}
+            GROUP BY 1
+            ORDER BY 1
+        `;
+    } catch (error) {
+        throw new DatabaseError('getReadingBuckets', error as Error);
+    }
+}
 
-        const result = await prisma.sensorReading.deleteMany({
+/**
+ * Get link and power telemetry for node since date
+ */
+export async function getNodeTelemetry(nodeId: number, since: Date) {
+    try {
+        return await prisma.sensorReading.findMany({
             where: {
-                timestamp: { lt: cutoffDate },
+                nodeId,
+                timestamp: { gte: since },
             },
+            select: {
+                timestamp: true,
+                rssi: true,
+                batteryLevel: true,
+            },
+            orderBy: { timestamp: 'asc' },
         });
+    } catch (error) {
+        throw new DatabaseError('getNodeTelemetry', error as Error);
+    }
+}
 
-        return result.count;
+/**
+ * Page of readings after cursor, ordered by (timestamp, id) for streaming export
+ */
+export async function getReadingsPage(filters: ExportFilters, after: ExportCursor | null, take: number) {
+    try {
+        const where: Prisma.SensorReadingWhereInput = {};
+
+        if (filters.nodeIds && filters.nodeIds.length > 0) {
+            where.nodeId = { in: filters.nodeIds };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.timestamp = {};
+            if (filters.startDate) where.timestamp.gte = filters.startDate;
+            if (filters.endDate) where.timestamp.lte = filters.endDate;
+        }
+
+        if (after) {
+            where.OR = [
+                { timestamp: { gt: after.at } },
+                { timestamp: after.at, id: { gt: after.id } },
+            ];
+        }
+
+        return await prisma.sensorReading.findMany({
+            where,
+            orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+            take,
+        });
     } catch (error) {
-        throw new DatabaseError('deleteOldReadings', error as Error);
+        throw new DatabaseError('getReadingsPage', error as Error);
     }
 }
@@ -0,0 +1,149 @@
+/**
+ * Soil Water Balance Ledger Repository
+ */
+
+import { prisma } from '../config/database.js';
+import { DatabaseError } from '../utils/errors.js';
+import { getStartOfDay } from '../utils/dateHelpers.js';
+
+export type RainfallSource = 'none' | 'forecast' | 'observed';
+
+export interface UpsertWaterBalanceInput {
+    fieldId: number;
+    date: Date;
+    rainfallMm: number;
+    rainfallSource: RainfallSource;
+    irrigationMm: number;
+    et0Mm: number;
+    kc: number;
+    etcMm: number;
+    deepPercolationMm: number;
+    depletionStartMm: number;
+    depletionEndMm: number;
+    measuredVWC?: number | undefined;
+    measuredDepletionMm?: number | undefined;
+    correctionMm: number;
+    tawMm: number;
+    rawMm: number;
+    cropType?: string | undefined;
+    growthStage?: string | undefined;
+}
+
+/**
+ * Create or replace ledger entry for a day
+ */
+export async function upsertWaterBalanceRecord(input: UpsertWaterBalanceInput) {
+    try {
+        const date = getStartOfDay(input.date);
+
+        const data = {
+            rainfallMm: input.rainfallMm,
+            rainfallSource: input.rainfallSource,
+            irrigationMm: input.irrigationMm,
+            et0Mm: input.et0Mm,
+            kc: input.kc,
+            etcMm: input.etcMm,
+            deepPercolationMm: input.deepPercolationMm,
+            depletionStartMm: input.depletionStartMm,
+            depletionEndMm: input.depletionEndMm,
+            measuredVWC: input.measuredVWC ?? null,
+            measuredDepletionMm: input.measuredDepletionMm ?? null,
+            correctionMm: input.correctionMm,
+            tawMm: input.tawMm,
+            rawMm: input.rawMm,
+            cropType: input.cropType ?? null,
+            growthStage: input.growthStage ?? null,
+        };
+
+        return await prisma.waterBalanceRecord.upsert({
+            where: {
+                fieldId_date: {
+                    fieldId: input.fieldId,
+                    date,
+                },
+            },
+            create: {
+                fieldId: input.fieldId,
+                date,
+                ...data,
+            },
+            update: data,
+        });
+    } catch (error) {
+        throw new DatabaseError('upsertWaterBalanceRecord', error as Error);
+    }
+}
+
+/**
+ * Get ledger entry for specific date
+ */
+export async function getWaterBalanceRecordForDate(fieldId: number, date: Date) {
+    try {
+        return await prisma.waterBalanceRecord.findUnique({
+            where: {
+                fieldId_date: {
+                    fieldId,
+                    date: getStartOfDay(date),
+                },
+            },
+        });
+    } catch (error) {
+        throw new DatabaseError('getWaterBalanceRecordForDate', error as Error);
+    }
+}
+
+/**
+ * Get latest ledger entry
+ */
+export async function getLatestWaterBalanceRecord(fieldId: number) {
+    try {
+        return await prisma.waterBalanceRecord.findFirst({
+            where: { fieldId },
+            orderBy: { date: 'desc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getLatestWaterBalanceRecord', error as Error);
+    }
+}
+
+/**
+ * Get ledger entries for date range
+ */
+export async function getWaterBalanceRecords(fieldId: number, startDate: Date, endDate: Date) {
+    try {
+        return await prisma.waterBalanceRecord.findMany({
+            where: {
+                fieldId,
+                date: {
+                    gte: getStartOfDay(startDate),
+                    lte: getStartOfDay(endDate),
+                },
+            },
+            orderBy: { date: 'asc' },
+        });
+    } catch (error) {
+        throw new DatabaseError('getWaterBalanceRecords', error as Error);
+    }
+}
+
+/**
+ * Set observed rainfall for a day (creates nothing if day not yet in ledger)
+ */
+export async function setObservedRainfall(fieldId: number, date: Date, rainfallMm: number) {
+    try {
+        const result = await prisma.waterBalanceRecord.updateMany({
+            where: {
+                fieldId,
+                date: getStartOfDay(date),
+            },
+            data: {
+                rainfallMm,
+                rainfallSource: 'observed',
+            },
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('setObservedRainfall', error as Error);
+    }
+}
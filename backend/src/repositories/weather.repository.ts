@@ -2,9 +2,10 @@
  * Weather Data Repository
  */
 
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { DatabaseError } from '../utils/errors.js';
-import type { WeatherPayload } from '../models/common.types.js';
+import type { WeatherPayload, ExportFilters, ExportCursor } from '../models/common.types.js';
 
 export interface CreateWeatherReadingInput {
     gatewayId: string;
@@ -14,6 +15,18 @@ export interface CreateWeatherReadingInput {
     timestamp: Date;
 }
 
+export interface WeatherBucketRow {
+    bucket: Date;
+    airTempMin: number | null;
+    airTempMax: number | null;
+    airTempAvg: number | null;
+    airTempCount: number;
+    humidityMin: number | null;
+    humidityMax: number | null;
+    humidityAvg: number | null;
+    humidityCount: number;
+}
+
 /**
  * Create weather reading from gateway sensor
  */
@@ -33,6 +46,81 @@ export async function createWeatherReading(input: CreateWeatherReadingInput) {
     }
 }
 
+/**
+ * Bulk insert weather readings (historical import)
+ */
+export async function createWeatherReadings(inputs: CreateWeatherReadingInput[]) {
+    try {
+        const result = await prisma.weatherReading.createMany({
+            data: inputs.map(input => ({
+                gatewayId: input.gatewayId,
+                airTemperature: input.airTemperature,
+                humidity: input.humidity,
+                pressure: input.pressure ?? null,
+                timestamp: input.timestamp,
+            })),
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new DatabaseError('createWeatherReadings', error as Error);
+    }
+}
+
+/**
+ * Get timestamps of stored weather readings for gateway in range (import de-duplication)
+ */
+export async function getWeatherReadingTimestamps(gatewayId: string, from: Date, to: Date) {
+    try {
+        const readings = await prisma.weatherReading.findMany({
+            where: {
+                gatewayId,
+                timestamp: { gte: from, lte: to },
+            },
+            select: { timestamp: true },
+        });
+
+        return readings.map(r => r.timestamp);
+    } catch (error) {
+        throw new DatabaseError('getWeatherReadingTimestamps', error as Error);
+    }
+}
+
+/**
+ * Gateway air readings aggregated into date_trunc buckets in the given timezone [from, to)
+ */
+export async function getWeatherBuckets(
+    gatewayId: string,
+    unit: string,
+    timezone: string,
+    from: Date,
+    to: Date
+) {
+    try {
+        return await prisma.$queryRaw<WeatherBucketRow[]>`
+            SELECT
+                date_trunc(${unit}::text, "timestamp" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text)
+                    AT TIME ZONE ${timezone}::text AS "bucket",
+                MIN("airTemperature") AS "airTempMin",
+                MAX("airTemperature") AS "airTempMax",
+                AVG("airTemperature") AS "airTempAvg",
+                COUNT("airTemperature")::int AS "airTempCount",
+                MIN("humidity") AS "humidityMin",
+                MAX("humidity") AS "humidityMax",
+                AVG("humidity") AS "humidityAvg",
+                COUNT("humidity")::int AS "humidityCount"
+            FROM "WeatherReading"
+            WHERE "gatewayId" = ${gatewayId}
+                AND "timestamp" >= ${from}
+                AND "timestamp" < ${to}
+            GROUP BY 1
+            ORDER BY 1
+        `;
+    } catch (error) {
+        throw new DatabaseError('getWeatherBuckets', error as Error);
+    }
+}
+
 /**
  * Get latest weather reading for gateway
  */
@@ -196,3 +284,37 @@ export async function cleanExpiredForecasts() {
         throw new DatabaseError('cleanExpiredForecasts', error as Error);
     }
 }
+
+/**
+ * Page of weather readings after cursor, ordered by (timestamp, id) for streaming export
+ */
+export async function getWeatherReadingsPage(filters: ExportFilters, after: ExportCursor | null, take: number) {
+    try {
+        const where: Prisma.WeatherReadingWhereInput = {};
+
+        if (filters.gatewayIds && filters.gatewayIds.length > 0) {
+            where.gatewayId = { in: filters.gatewayIds };
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.timestamp = {};
+            if (filters.startDate) where.timestamp.gte = filters.startDate;
+            if (filters.endDate) where.timestamp.lte = filters.endDate;
+        }
+
+        if (after) {
+            where.OR = [
+                { timestamp: { gt: after.at } },
+                { timestamp: after.at, id: { gt: after.id } },
+            ];
+        }
+
+        return await prisma.weatherReading.findMany({
+            where,
+            orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+            take,
+        });
+    } catch (error) {
+        throw new DatabaseError('getWeatherReadingsPage', error as Error);
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * Alert Routes
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import {
+    getAlertsController,
+    getAlertController,
+    acknowledgeAlertController,
+    acknowledgeNodeAlertsController,
+} from '../controllers/alert.controller.js';
+
+const router = Router();
+
+router.get('/', asyncHandler(getAlertsController));
+router.post('/acknowledge', asyncHandler(acknowledgeNodeAlertsController));
+router.get('/:id', asyncHandler(getAlertController));
+router.post('/:id/acknowledge', asyncHandler(acknowledgeAlertController));
+
+export default router;
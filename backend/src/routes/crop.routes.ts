@@ -4,10 +4,17 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
-import { getCropRecommendationsController } from '../controllers/crop.controller.js';
+import { resolveFieldNode } from '../api/middleware/resolveField.js';
+import {
+    getCropRecommendationsController,
+    getCropRecommendationHistoryController,
+} from '../controllers/crop.controller.js';
 
 const router = Router();
 
-router.get('/recommend/:nodeId', asyncHandler(getCropRecommendationsController));
+router.get('/recommend/:nodeId', asyncHandler(resolveFieldNode), asyncHandler(getCropRecommendationsController));
+router.get('/recommend/field/:fieldId', asyncHandler(resolveFieldNode), asyncHandler(getCropRecommendationsController));
+router.get('/recommend/:nodeId/history', asyncHandler(resolveFieldNode), asyncHandler(getCropRecommendationHistoryController));
+router.get('/recommend/field/:fieldId/history', asyncHandler(resolveFieldNode), asyncHandler(getCropRecommendationHistoryController));
 
 export default router;
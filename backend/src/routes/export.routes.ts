@@ -0,0 +1,13 @@
+/**
+ * Data Export Routes
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { exportDatasetController } from '../controllers/export.controller.js';
+
+const router = Router();
+
+router.get('/:dataset', asyncHandler(exportDatasetController));
+
+export default router;
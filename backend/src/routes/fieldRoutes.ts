@@ -4,25 +4,67 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { resolveFieldNode } from '../api/middleware/resolveField.js';
 import {
     createFieldController,
     getAllFieldsController,
+    getFieldAirDataController,
     getFieldController,
     updateFieldController,
     deleteFieldController,
     setCropController,
+    getFieldNodesController,
+    addFieldNodeController,
+    removeFieldNodeController,
+    getFieldMoistureController,
+    getFieldAggregatesController,
 } from '../controllers/fieldController.js';
+import {
+    getAlertRulesController,
+    createAlertRuleController,
+    getAlertRuleController,
+    updateAlertRuleController,
+    deleteAlertRuleController,
+} from '../controllers/alertRule.controller.js';
 
 const router = Router();
 
 // Field CRUD
 router.post('/', asyncHandler(createFieldController));
 router.get('/', asyncHandler(getAllFieldsController));
-router.get('/:nodeId', asyncHandler(getFieldController));
-router.patch('/:nodeId', asyncHandler(updateFieldController));
-router.delete('/:nodeId', asyncHandler(deleteFieldController));
+router.get('/air-data', asyncHandler(getFieldAirDataController));
+
+// Field endpoints accept a node id (primary or member) or, under /field/:fieldId, a field id
+router.get('/:nodeId', asyncHandler(resolveFieldNode), asyncHandler(getFieldController));
+router.patch('/:nodeId', asyncHandler(resolveFieldNode), asyncHandler(updateFieldController));
+router.delete('/:nodeId', asyncHandler(resolveFieldNode), asyncHandler(deleteFieldController));
+
+router.get('/field/:fieldId', asyncHandler(resolveFieldNode), asyncHandler(getFieldController));
+router.patch('/field/:fieldId', asyncHandler(resolveFieldNode), asyncHandler(updateFieldController));
+router.delete('/field/:fieldId', asyncHandler(resolveFieldNode), asyncHandler(deleteFieldController));
 
 // Crop configuration
-router.post('/:nodeId/crop', asyncHandler(setCropController));
+router.post('/:nodeId/crop', asyncHandler(resolveFieldNode), asyncHandler(setCropController));
+router.post('/field/:fieldId/crop', asyncHandler(resolveFieldNode), asyncHandler(setCropController));
+
+// Member nodes and field-level moisture
+router.get('/:nodeId/nodes', asyncHandler(resolveFieldNode), asyncHandler(getFieldNodesController));
+router.post('/:nodeId/nodes', asyncHandler(resolveFieldNode), asyncHandler(addFieldNodeController));
+router.delete('/:nodeId/nodes/:memberNodeId', asyncHandler(resolveFieldNode), asyncHandler(removeFieldNodeController));
+router.get('/:nodeId/moisture', asyncHandler(resolveFieldNode), asyncHandler(getFieldMoistureController));
+router.get('/:nodeId/aggregates', asyncHandler(resolveFieldNode), asyncHandler(getFieldAggregatesController));
+
+router.get('/field/:fieldId/nodes', asyncHandler(resolveFieldNode), asyncHandler(getFieldNodesController));
+router.post('/field/:fieldId/nodes', asyncHandler(resolveFieldNode), asyncHandler(addFieldNodeController));
+router.delete('/field/:fieldId/nodes/:memberNodeId', asyncHandler(resolveFieldNode), asyncHandler(removeFieldNodeController));
+router.get('/field/:fieldId/moisture', asyncHandler(resolveFieldNode), asyncHandler(getFieldMoistureController));
+router.get('/field/:fieldId/aggregates', asyncHandler(resolveFieldNode), asyncHandler(getFieldAggregatesController));
+
+// Alert rules
+router.get('/:nodeId/alert-rules', asyncHandler(getAlertRulesController));
+router.post('/:nodeId/alert-rules', asyncHandler(createAlertRuleController));
+router.get('/:nodeId/alert-rules/:ruleId', asyncHandler(getAlertRuleController));
+router.patch('/:nodeId/alert-rules/:ruleId', asyncHandler(updateAlertRuleController));
+router.delete('/:nodeId/alert-rules/:ruleId', asyncHandler(deleteAlertRuleController));
 
 export default router;
@@ -0,0 +1,23 @@
+/**
+ * Gateway Routes
+ */
+
+import { Router } from 'express';
+import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import {
+    createGatewayController,
+    getGatewaysController,
+    getGatewayController,
+    updateGatewayController,
+    deleteGatewayController,
+} from '../controllers/gateway.controller.js';
+
+const router = Router();
+
+router.post('/', asyncHandler(createGatewayController));
+router.get('/', asyncHandler(getGatewaysController));
+router.get('/:gatewayId', asyncHandler(getGatewayController));
+router.patch('/:gatewayId', asyncHandler(updateGatewayController));
+router.delete('/:gatewayId', asyncHandler(deleteGatewayController));
+
+export default router;
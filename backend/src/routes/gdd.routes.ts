@@ -4,6 +4,7 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { resolveFieldNode } from '../api/middleware/resolveField.js';
 import {
     getGDDStatusController,
     calculateGDDController,
@@ -13,9 +14,15 @@ import {
 
 const router = Router();
 
-router.get('/:nodeId/status', asyncHandler(getGDDStatusController));
-router.post('/:nodeId/calculate', asyncHandler(calculateGDDController));
-router.post('/:nodeId/recalculate', asyncHandler(recalculateGDDController));
-router.post('/:nodeId/calculate-missing', asyncHandler(calculateMissingGDDController));
+// Field-level endpoints accept a node id (primary or member) or, under /field/:fieldId, a field id
+router.get('/:nodeId/status', asyncHandler(resolveFieldNode), asyncHandler(getGDDStatusController));
+router.post('/:nodeId/calculate', asyncHandler(resolveFieldNode), asyncHandler(calculateGDDController));
+router.post('/:nodeId/recalculate', asyncHandler(resolveFieldNode), asyncHandler(recalculateGDDController));
+router.post('/:nodeId/calculate-missing', asyncHandler(resolveFieldNode), asyncHandler(calculateMissingGDDController));
+
+router.get('/field/:fieldId/status', asyncHandler(resolveFieldNode), asyncHandler(getGDDStatusController));
+router.post('/field/:fieldId/calculate', asyncHandler(resolveFieldNode), asyncHandler(calculateGDDController));
+router.post('/field/:fieldId/recalculate', asyncHandler(resolveFieldNode), asyncHandler(recalculateGDDController));
+router.post('/field/:fieldId/calculate-missing', asyncHandler(resolveFieldNode), asyncHandler(calculateMissingGDDController));
 
 export default router;
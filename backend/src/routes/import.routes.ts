@@ -0,0 +1,21 @@
+/**
+ * CSV Import Routes
+ */
+
+import express, { Router } from 'express';
+import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { importSensorCsvController, importWeatherCsvController } from '../controllers/import.controller.js';
+import { CSV_IMPORT_CONSTANTS } from '../utils/constants.js';
+
+const router = Router();
+
+// CSV bodies are kept as bytes so the requested charset can be applied
+const csvBody = express.raw({
+    type: ['text/csv', 'text/plain', 'application/octet-stream'],
+    limit: `${CSV_IMPORT_CONSTANTS.MAX_BODY_MB}mb`,
+});
+
+router.post('/sensors', csvBody, asyncHandler(importSensorCsvController));
+router.post('/weather', csvBody, asyncHandler(importWeatherCsvController));
+
+export default router;
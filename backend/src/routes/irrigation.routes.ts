@@ -4,14 +4,39 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { resolveFieldNode } from '../api/middleware/resolveField.js';
 import {
     getIrrigationDecisionController,
     getIrrigationRecommendationsController,
+    getIrrigationHistoryController,
+    recordIrrigationActionController,
+    getIrrigationActionsController,
+    getWaterBalanceController,
+    recordObservedRainfallController,
+    rebuildWaterBalanceController,
+    getIrrigationScheduleController,
 } from '../controllers/irrigation.controller.js';
 
 const router = Router();
 
-router.get('/decision/:nodeId', asyncHandler(getIrrigationDecisionController));
+// Field-level endpoints accept a node id (primary or member) or, under /field/:fieldId, a field id
+router.get('/decision/:nodeId', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationDecisionController));
 router.get('/recommendations', asyncHandler(getIrrigationRecommendationsController));
+router.get('/:nodeId/history', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationHistoryController));
+router.post('/:nodeId/actions', asyncHandler(resolveFieldNode), asyncHandler(recordIrrigationActionController));
+router.get('/:nodeId/actions', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationActionsController));
+router.get('/:nodeId/schedule', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationScheduleController));
+router.get('/:nodeId/water-balance', asyncHandler(resolveFieldNode), asyncHandler(getWaterBalanceController));
+router.post('/:nodeId/water-balance/rainfall', asyncHandler(resolveFieldNode), asyncHandler(recordObservedRainfallController));
+router.post('/:nodeId/water-balance/rebuild', asyncHandler(resolveFieldNode), asyncHandler(rebuildWaterBalanceController));
+
+router.get('/decision/field/:fieldId', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationDecisionController));
+router.get('/field/:fieldId/history', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationHistoryController));
+router.post('/field/:fieldId/actions', asyncHandler(resolveFieldNode), asyncHandler(recordIrrigationActionController));
+router.get('/field/:fieldId/actions', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationActionsController));
+router.get('/field/:fieldId/schedule', asyncHandler(resolveFieldNode), asyncHandler(getIrrigationScheduleController));
+router.get('/field/:fieldId/water-balance', asyncHandler(resolveFieldNode), asyncHandler(getWaterBalanceController));
+router.post('/field/:fieldId/water-balance/rainfall', asyncHandler(resolveFieldNode), asyncHandler(recordObservedRainfallController));
+router.post('/field/:fieldId/water-balance/rebuild', asyncHandler(resolveFieldNode), asyncHandler(rebuildWaterBalanceController));
 
 export default router;
@@ -5,12 +5,43 @@ import {
     createNodeController,
     getNodesController,
     getNodeController,
+    getNodeHealthController,
+    getFleetStatusController,
+    getPendingNodesController,
+    claimPendingNodeController,
+    discardPendingNodeController,
 } from '../controllers/nodeController.js';
+import {
+    getCalibrationController,
+    getCalibrationSamplesController,
+    addCalibrationSamplesController,
+    deleteCalibrationSampleController,
+    fitCalibrationController,
+    activateCalibrationController,
+    deactivateCalibrationController,
+} from '../controllers/calibration.controller.js';
 
 const router = Router();
 
 router.post('/', asyncHandler(createNodeController));
 router.get('/', asyncHandler(getNodesController));
+router.get('/status', asyncHandler(getFleetStatusController));
+
+// Pending registration queue
+router.get('/pending', asyncHandler(getPendingNodesController));
+router.post('/pending/:nodeId/claim', asyncHandler(claimPendingNodeController));
+router.delete('/pending/:nodeId', asyncHandler(discardPendingNodeController));
+
+router.get('/:nodeId/health', asyncHandler(getNodeHealthController));
 router.get('/:nodeId', asyncHandler(getNodeController));
 
+// Calibration profiles
+router.get('/:nodeId/calibration', asyncHandler(getCalibrationController));
+router.get('/:nodeId/calibration/samples', asyncHandler(getCalibrationSamplesController));
+router.post('/:nodeId/calibration/samples', asyncHandler(addCalibrationSamplesController));
+router.delete('/:nodeId/calibration/samples/:sampleId', asyncHandler(deleteCalibrationSampleController));
+router.post('/:nodeId/calibration/fit', asyncHandler(fitCalibrationController));
+router.post('/:nodeId/calibration/deactivate', asyncHandler(deactivateCalibrationController));
+router.post('/:nodeId/calibration/:version/activate', asyncHandler(activateCalibrationController));
+
 export default router;
@@ -5,16 +5,23 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
+import { requireGatewayAuth } from '../api/middleware/gatewayAuth.js';
 import {
     getLatestSensorData,
     getAverageSensorData,
-    getSensorReadings
+    getSensorReadings,
+    getSensorSeries,
+    getRejectedFramesController,
+    ingestBatchController,
 } from '../controllers/sensorController.js';
 
 const router = Router();
 
+router.post('/ingest', requireGatewayAuth, asyncHandler(ingestBatchController));
+router.get('/rejected-frames', asyncHandler(getRejectedFramesController));
 router.get('/:nodeId/latest', asyncHandler(getLatestSensorData));
 router.get('/:nodeId/average', asyncHandler(getAverageSensorData));
 router.get('/:nodeId/readings', asyncHandler(getSensorReadings));
+router.get('/:nodeId/series', asyncHandler(getSensorSeries));
 
 export default router;
@@ -4,10 +4,16 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../api/middleware/asyncHandler.js';
-import { getWeatherForecastController } from '../controllers/weather.controller.js';
+import {
+    getWeatherForecastController,
+    getCropETController,
+    getET0SeriesController,
+} from '../controllers/weather.controller.js';
 
 const router = Router();
 
 router.get('/:nodeId/forecast', asyncHandler(getWeatherForecastController));
+router.get('/:nodeId/et', asyncHandler(getCropETController));
+router.get('/:nodeId/et0', asyncHandler(getET0SeriesController));
 
 export default router;
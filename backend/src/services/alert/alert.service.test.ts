@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../repositories/alert.repository.js', () => ({
+    createAlert: vi.fn(),
+    findRecentAlert: vi.fn(),
+}));
+vi.mock('../../repositories/alertRule.repository.js', () => ({
+    getAlertRules: vi.fn(),
+    updateAlertRuleState: vi.fn(),
+}));
+vi.mock('../../repositories/field.repository.js', () => ({
+    getFieldByNodeId: vi.fn(),
+    getFieldsByGatewayId: vi.fn(),
+    getAllFields: vi.fn(),
+    getFieldNodes: vi.fn(),
+}));
+vi.mock('../../repositories/sensor.repository.js', () => ({ getLatestReadingsForNodes: vi.fn() }));
+vi.mock('../../repositories/weather.repository.js', () => ({ getLatestWeatherReading: vi.fn() }));
+vi.mock('../mqtt.service.js', () => ({ publishMessage: vi.fn() }));
+vi.mock('../websocket.service.js', () => ({ broadcastEvent: vi.fn() }));
+
+import { evaluateReadingAlerts, runScheduledAlertChecks, stepAlertRule, isQuietHour } from './alert.service.js';
+import type { StepAlertRuleInput } from './alert.service.js';
+import { createAlert, findRecentAlert } from '../../repositories/alert.repository.js';
+import { getAlertRules, updateAlertRuleState } from '../../repositories/alertRule.repository.js';
+import { getAllFields, getFieldByNodeId, getFieldNodes } from '../../repositories/field.repository.js';
+import { getLatestReadingsForNodes } from '../../repositories/sensor.repository.js';
+import type { FieldMoisture, NodeContribution } from '../../models/common.types.js';
+
+type Field = Awaited<ReturnType<typeof getFieldByNodeId>>;
+type AlertRule = Awaited<ReturnType<typeof getAlertRules>>[number];
+type Alert = Awaited<ReturnType<typeof createAlert>>;
+
+const field = {
+    id: 3,
+    nodeId: 1,
+    gatewayId: null,
+    fieldName: 'North',
+    soilTexture: 'LOAM',
+    cropType: null,
+    cropConfirmed: false,
+} as Field;
+
+let rule: AlertRule;
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+
+    // VWC < 18% for 6 h, clears at 20%
+    rule = {
+        id: 7,
+        fieldId: 3,
+        name: 'Dry spell',
+        metric: 'VWC',
+        operator: 'LT',
+        threshold: 18,
+        durationMinutes: 360,
+        hysteresis: 2,
+        severity: 'WARNING',
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        quietHoursTimezone: null,
+        enabled: true,
+        conditionSince: null,
+        triggered: false,
+        lastTriggeredAt: null,
+        lastValue: null,
+    } as AlertRule;
+
+    vi.mocked(getFieldByNodeId).mockResolvedValue(field);
+    vi.mocked(getAlertRules).mockImplementation(async () => [{ ...rule }]);
+    vi.mocked(updateAlertRuleState).mockImplementation(async (_id, state) => {
+        rule = { ...rule, conditionSince: state.conditionSince, triggered: state.triggered };
+        return rule;
+    });
+    vi.mocked(findRecentAlert).mockResolvedValue(null);
+    vi.mocked(createAlert).mockImplementation(async (input) => ({ id: 1, ...input } as unknown as Alert));
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+const contribution = (nodeId: number, soilMoistureVWC: number, timestamp: Date): NodeContribution => ({
+    nodeId,
+    readingId: nodeId * 100,
+    soilMoistureVWC,
+    soilTemperature: 20,
+    timestamp,
+    rssi: -80,
+    batteryLevel: 90,
+    calibrated: true,
+    quality: 1,
+});
+
+describe('evaluateReadingAlerts', () => {
+    it('holds a field rule across interleaved readings of nodes on both sides of the threshold', async () => {
+        const start = new Date('2026-06-01T00:00:00Z');
+
+        // Node 1 stays at 15%, node 2 at 25%; the field aggregate (driest) stays below 18%
+        for (let minutes = 0; minutes <= 7 * 60; minutes += 30) {
+            const at = new Date(start.getTime() + minutes * 60000);
+            vi.setSystemTime(at);
+
+            const nodeId = minutes % 60 === 0 ? 1 : 2;
+            const fieldMoisture: FieldMoisture = {
+                fieldId: 3,
+                strategy: 'DRIEST',
+                soilMoistureVWC: 15,
+                soilTemperature: 20,
+                timestamp: at,
+                nodeCount: 2,
+                selectedNodeId: 1,
+                selectionScore: 1,
+                selectionReason: 'Driest of 2 nodes',
+                nodes: [contribution(1, 15, at), contribution(2, 25, at)],
+            };
+
+            await evaluateReadingAlerts({
+                nodeId,
+                readingId: minutes,
+                soilMoistureVWC: nodeId === 1 ? 15 : 25,
+                soilTemperature: 20,
+                timestamp: at,
+                fieldMoisture,
+            });
+        }
+
+        const customAlerts = vi.mocked(createAlert).mock.calls.filter(([input]) => input.ruleId === 7);
+        expect(customAlerts).toHaveLength(1);
+        expect(customAlerts[0]![0].sentAt).toEqual(new Date('2026-06-01T06:00:00Z'));
+        expect(rule.triggered).toBe(true);
+    });
+
+    it('names the reporting member node in a low-battery alert', async () => {
+        vi.mocked(getAlertRules).mockResolvedValue([]);
+
+        await evaluateReadingAlerts({
+            nodeId: 2,
+            readingId: 1,
+            soilMoistureVWC: 25,
+            soilTemperature: 20,
+            batteryLevel: 10,
+            timestamp: new Date(),
+        });
+
+        expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({
+            nodeId: 2,
+            alertType: 'LOW_BATTERY',
+            message: 'North: node 2 battery low (10%)',
+        }));
+    });
+});
+
+describe('runScheduledAlertChecks', () => {
+    type FieldNode = Awaited<ReturnType<typeof getFieldNodes>>[number];
+    type LatestReading = Awaited<ReturnType<typeof getLatestReadingsForNodes>>[number];
+
+    const latest = (nodeId: number, timestamp: Date) => ({ id: nodeId, nodeId, timestamp } as LatestReading);
+
+    beforeEach(() => {
+        // No reading from any node in 2 h
+        rule = { ...rule, metric: 'MINUTES_SINCE_READING', operator: 'GT', threshold: 120, durationMinutes: 0, hysteresis: 0 };
+        vi.setSystemTime(new Date('2026-06-01T12:00:00Z'));
+        vi.mocked(getAllFields).mockResolvedValue([field] as Awaited<ReturnType<typeof getAllFields>>);
+        vi.mocked(getFieldNodes).mockResolvedValue([{ nodeId: 1 }, { nodeId: 2 }] as FieldNode[]);
+    });
+
+    it('stays quiet while every node of the field reports', async () => {
+        vi.mocked(getLatestReadingsForNodes).mockResolvedValue([
+            latest(1, new Date('2026-06-01T11:50:00Z')),
+            latest(2, new Date('2026-06-01T11:40:00Z')),
+        ]);
+
+        await runScheduledAlertChecks();
+
+        expect(createAlert).not.toHaveBeenCalled();
+    });
+
+    it('fires on a silent member node while the primary reports', async () => {
+        vi.mocked(getLatestReadingsForNodes).mockResolvedValue([
+            latest(1, new Date('2026-06-01T11:50:00Z')),
+            latest(2, new Date('2026-06-01T09:00:00Z')),
+        ]);
+
+        await runScheduledAlertChecks();
+
+        expect(createAlert).toHaveBeenCalledTimes(1);
+        expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({
+            nodeId: 2,
+            ruleId: 7,
+            value: 180,
+            message: expect.stringContaining('on node 2'),
+        }));
+    });
+});
+
+describe('stepAlertRule', () => {
+    const base: StepAlertRuleInput = {
+        operator: 'LT',
+        threshold: 18,
+        hysteresis: 2,
+        durationMinutes: 60,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        quietHoursTimezone: null,
+        conditionSince: null,
+        triggered: false,
+    };
+    const t0 = new Date('2026-06-01T06:00:00Z');
+    const after = (minutes: number) => new Date(t0.getTime() + minutes * 60000);
+
+    it('fires once the condition has held for the duration', () => {
+        const first = stepAlertRule(base, 15, t0);
+        expect(first).toMatchObject({ conditionSince: t0, triggered: false, fire: false });
+
+        const early = stepAlertRule({ ...base, ...first }, 16, after(59));
+        expect(early).toMatchObject({ conditionSince: t0, fire: false });
+
+        const held = stepAlertRule({ ...base, ...early }, 16, after(60));
+        expect(held).toMatchObject({ conditionSince: t0, triggered: true, fire: true, heldMinutes: 60 });
+    });
+
+    it('restarts the duration when the condition lapses', () => {
+        const first = stepAlertRule(base, 15, t0);
+        const lapsed = stepAlertRule({ ...base, ...first }, 18, after(30));
+        expect(lapsed).toMatchObject({ conditionSince: null, fire: false });
+
+        const again = stepAlertRule({ ...base, ...lapsed }, 15, after(45));
+        expect(again).toMatchObject({ conditionSince: after(45), fire: false });
+    });
+
+    it('stays latched until the value recovers past threshold + hysteresis', () => {
+        const latched = { ...base, conditionSince: t0, triggered: true };
+
+        expect(stepAlertRule(latched, 15, after(90))).toMatchObject({ triggered: true, fire: false });
+        expect(stepAlertRule(latched, 19.9, after(90))).toMatchObject({ triggered: true, conditionSince: t0, fire: false });
+        expect(stepAlertRule(latched, 20, after(90))).toMatchObject({ triggered: false, conditionSince: null, fire: false });
+    });
+
+    it('re-arms an above-threshold rule only below threshold - hysteresis', () => {
+        const latched = { ...base, operator: 'GT', threshold: 35, hysteresis: 1, durationMinutes: 0, triggered: true };
+
+        expect(stepAlertRule(latched, 34.5, t0)).toMatchObject({ triggered: true });
+        expect(stepAlertRule(latched, 34, t0)).toMatchObject({ triggered: false });
+    });
+
+    it('defers firing inside quiet hours to the first evaluation after the window', () => {
+        // 22:00-06:00 in India (UTC+5:30)
+        const quiet = { ...base, durationMinutes: 0, quietHoursStart: 22, quietHoursEnd: 6, quietHoursTimezone: 'Asia/Kolkata' };
+
+        const evening = stepAlertRule(quiet, 15, new Date('2026-06-01T17:00:00Z'));       // 22:30 IST
+        expect(evening).toMatchObject({ triggered: false, fire: false });
+
+        const night = stepAlertRule({ ...quiet, ...evening }, 15, new Date('2026-06-01T23:00:00Z'));  // 04:30 IST
+        expect(night).toMatchObject({ triggered: false, fire: false });
+
+        const morning = stepAlertRule({ ...quiet, ...night }, 15, new Date('2026-06-02T00:30:00Z'));  // 06:00 IST
+        expect(morning).toMatchObject({ triggered: true, fire: true, heldMinutes: 450 });
+    });
+});
+
+describe('isQuietHour', () => {
+    const window = { quietHoursStart: 22, quietHoursEnd: 6, quietHoursTimezone: 'Asia/Kolkata' };
+
+    it('wraps a window across midnight in the rule time zone', () => {
+        expect(isQuietHour(window, new Date('2026-06-01T16:29:00Z'))).toBe(false);  // 21:59 IST
+        expect(isQuietHour(window, new Date('2026-06-01T16:30:00Z'))).toBe(true);   // 22:00 IST
+        expect(isQuietHour(window, new Date('2026-06-01T20:00:00Z'))).toBe(true);   // 01:30 IST
+        expect(isQuietHour(window, new Date('2026-06-02T00:29:00Z'))).toBe(true);   // 05:59 IST
+        expect(isQuietHour(window, new Date('2026-06-02T00:30:00Z'))).toBe(false);  // 06:00 IST
+    });
+
+    it('treats a non-wrapping window as start <= hour < end', () => {
+        const daytime = { ...window, quietHoursStart: 12, quietHoursEnd: 14 };
+
+        expect(isQuietHour(daytime, new Date('2026-06-01T06:30:00Z'))).toBe(true);   // 12:00 IST
+        expect(isQuietHour(daytime, new Date('2026-06-01T08:30:00Z'))).toBe(false);  // 14:00 IST
+    });
+
+    it('is never quiet without a window', () => {
+        expect(isQuietHour({ quietHoursStart: null, quietHoursEnd: null, quietHoursTimezone: null }, new Date())).toBe(false);
+    });
+});
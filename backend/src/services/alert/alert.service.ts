@@ -0,0 +1,550 @@
+// src/services/alert/alert.service.ts
+/**
+ * Alert Engine
+ * Evaluates alert rules on processed readings, gateway weather and scheduler ticks.
+ * Repeat alerts of the same type for a node are suppressed for a cooldown window.
+ * Per-field rules carry their own duration, hysteresis and quiet-hour state.
+ */
+
+import type { Alert } from '@prisma/client';
+import { createLogger } from '../../config/logger.js';
+import { env } from '../../config/environment.js';
+import { MQTT_TOPICS } from '../../config/mqtt.config.js';
+import {
+    SOIL_WATER_CONSTANTS,
+    CROP_DATABASE,
+    IRRIGATION_URGENCY,
+    ALERT_TYPES,
+    ALERT_SEVERITY,
+    ALERT_CONSTANTS,
+    ALERT_COOLDOWN_MINUTES,
+    ALERT_RULE_OPERATORS,
+    NODE_CONSTANTS,
+    REALTIME_EVENTS,
+} from '../../utils/constants.js';
+import type {
+    SoilTexture,
+    UPCropName,
+    AlertType,
+    AlertSeverity,
+    AlertRuleMetric,
+} from '../../utils/constants.js';
+import { createAlert, findRecentAlert } from '../../repositories/alert.repository.js';
+import { getAlertRules, updateAlertRuleState } from '../../repositories/alertRule.repository.js';
+import { getFieldByNodeId, getFieldsByGatewayId, getAllFields, getFieldNodes } from '../../repositories/field.repository.js';
+import { getLatestReadingsForNodes } from '../../repositories/sensor.repository.js';
+import { getLatestWeatherReading } from '../../repositories/weather.repository.js';
+import { calculateWaterBalance, determineUrgency } from '../irrigation/irrigation.service.js';
+import { publishMessage } from '../mqtt.service.js';
+import { broadcastEvent } from '../websocket.service.js';
+import type { FieldMoisture } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'alert' });
+
+interface AlertCandidate {
+    alertType: AlertType;
+    severity: AlertSeverity;
+    message: string;
+    value?: number | undefined;
+    threshold?: number | undefined;
+    ruleId?: number | undefined;
+}
+
+type FieldRecord = Awaited<ReturnType<typeof getFieldByNodeId>>;
+type AlertRuleRecord = Awaited<ReturnType<typeof getAlertRules>>[number];
+type AlertObservations = Partial<Record<AlertRuleMetric, number>>;
+type QuietHours = Pick<AlertRuleRecord, 'quietHoursStart' | 'quietHoursEnd' | 'quietHoursTimezone'>;
+
+export type StepAlertRuleInput = QuietHours & Pick<
+    AlertRuleRecord,
+    'operator' | 'threshold' | 'hysteresis' | 'durationMinutes' | 'conditionSince' | 'triggered'
+>;
+
+export interface AlertRuleStep {
+    conditionSince: Date | null;
+    triggered: boolean;
+    fire: boolean;              // Notify now
+    heldMinutes: number;        // How long the condition has held (0 when it does not)
+}
+
+export interface ReadingAlertInput {
+    nodeId: number;
+    readingId: number;
+    soilMoistureVWC: number;
+    soilTemperature: number;
+    batteryLevel?: number | undefined;
+    timestamp: Date;
+    fieldMoisture?: FieldMoisture | null | undefined;   // Field aggregate after this reading (multi-node fields)
+}
+
+/**
+ * MQTT topic for an alert (wusn/alerts/{nodeId}/{alertType})
+ */
+export function getAlertTopic(nodeId: number, alertType: AlertType): string {
+    return MQTT_TOPICS.ALERTS.replace('#', `${nodeId}/${alertType}`);
+}
+
+/**
+ * Persist alert and publish on its MQTT topic
+ */
+async function publishAlert(
+    nodeId: number,
+    candidate: AlertCandidate,
+    sentAt: Date,
+    readingId?: number
+): Promise<Alert> {
+    const alert = await createAlert({
+        nodeId,
+        readingId,
+        ruleId: candidate.ruleId,
+        alertType: candidate.alertType,
+        severity: candidate.severity,
+        message: candidate.message,
+        value: candidate.value,
+        threshold: candidate.threshold,
+        sentAt,
+    });
+
+    const payload = {
+        id: alert.id,
+        nodeId,
+        ruleId: alert.ruleId,
+        alertType: alert.alertType,
+        severity: alert.severity,
+        message: alert.message,
+        value: alert.value,
+        threshold: alert.threshold,
+        sentAt: alert.sentAt.toISOString(),
+    };
+
+    publishMessage(getAlertTopic(nodeId, candidate.alertType), payload);
+    broadcastEvent(REALTIME_EVENTS.ALERT, { nodeId }, payload);
+
+    logger.info(
+        { nodeId, alertId: alert.id, alertType: alert.alertType, severity: alert.severity },
+        'Alert raised'
+    );
+
+    return alert;
+}
+
+/**
+ * Publish alert unless one of the same type is within cooldown
+ */
+async function raiseAlert(
+    nodeId: number,
+    candidate: AlertCandidate,
+    sentAt: Date,
+    readingId?: number
+): Promise<Alert | null> {
+    const cooldownMs = ALERT_COOLDOWN_MINUTES[candidate.alertType] * 60 * 1000;
+    const recent = await findRecentAlert(nodeId, candidate.alertType, new Date(sentAt.getTime() - cooldownMs));
+
+    if (recent) {
+        logger.debug(
+            { nodeId, alertType: candidate.alertType, lastAlertId: recent.id },
+            'Alert suppressed by cooldown'
+        );
+        return null;
+    }
+
+    return publishAlert(nodeId, candidate, sentAt, readingId);
+}
+
+/**
+ * Raise each candidate, collecting the alerts that were not suppressed
+ */
+async function raiseAlerts(
+    nodeId: number,
+    candidates: AlertCandidate[],
+    sentAt: Date,
+    readingId?: number
+): Promise<Alert[]> {
+    const raised: Alert[] = [];
+
+    for (const candidate of candidates) {
+        const alert = await raiseAlert(nodeId, candidate, sentAt, readingId);
+        if (alert) {
+            raised.push(alert);
+        }
+    }
+
+    return raised;
+}
+
+/**
+ * Soil moisture rules: waterlogging and critical crop deficit
+ */
+function evaluateSoilRules(field: FieldRecord, vwc: number): AlertCandidate[] {
+    const candidates: AlertCandidate[] = [];
+    const soilTexture = field.soilTexture as SoilTexture;
+    const soilParams = SOIL_WATER_CONSTANTS[soilTexture];
+
+    if (soilParams && vwc >= soilParams.SATURATION) {
+        candidates.push({
+            alertType: ALERT_TYPES.WATERLOGGING,
+            severity: ALERT_SEVERITY.WARNING,
+            message: `${field.fieldName}: soil saturated (VWC ${vwc.toFixed(1)}% ≥ ${soilParams.SATURATION}%), risk of waterlogging`,
+            value: vwc,
+            threshold: soilParams.SATURATION,
+        });
+    }
+
+    if (field.cropType && field.cropConfirmed && soilParams) {
+        const cropParams = CROP_DATABASE[field.cropType as UPCropName];
+
+        if (cropParams) {
+            const balance = calculateWaterBalance(soilTexture, vwc, cropParams.rootDepth, cropParams.mad);
+            const { urgency } = determineUrgency(vwc, balance, cropParams);
+
+            if (urgency === IRRIGATION_URGENCY.CRITICAL) {
+                candidates.push({
+                    alertType: ALERT_TYPES.VWC_CRITICAL,
+                    severity: ALERT_SEVERITY.CRITICAL,
+                    message: `${field.fieldName}: critical water deficit for ${cropParams.name} (VWC ${vwc.toFixed(1)}%, minimum ${cropParams.vwcMin}%)`,
+                    value: vwc,
+                    threshold: cropParams.vwcMin,
+                });
+            }
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Node battery rule
+ */
+function evaluateBatteryRule(field: FieldRecord, nodeId: number, batteryLevel: number | undefined): AlertCandidate[] {
+    if (batteryLevel === undefined || batteryLevel > ALERT_CONSTANTS.LOW_BATTERY_PERCENT) {
+        return [];
+    }
+
+    return [{
+        alertType: ALERT_TYPES.LOW_BATTERY,
+        severity: ALERT_SEVERITY.WARNING,
+        message: `${field.fieldName}: node ${nodeId} battery low (${batteryLevel}%)`,
+        value: batteryLevel,
+        threshold: ALERT_CONSTANTS.LOW_BATTERY_PERCENT,
+    }];
+}
+
+/**
+ * Gateway air temperature rules: frost and heat stress
+ */
+function evaluateAirTempRules(field: FieldRecord, airTemperature: number): AlertCandidate[] {
+    if (airTemperature <= ALERT_CONSTANTS.FROST_AIR_TEMP_C) {
+        return [{
+            alertType: ALERT_TYPES.FROST,
+            severity: ALERT_SEVERITY.CRITICAL,
+            message: `${field.fieldName}: frost risk, air temperature ${airTemperature.toFixed(1)}°C`,
+            value: airTemperature,
+            threshold: ALERT_CONSTANTS.FROST_AIR_TEMP_C,
+        }];
+    }
+
+    if (airTemperature >= ALERT_CONSTANTS.HEAT_STRESS_AIR_TEMP_C) {
+        return [{
+            alertType: ALERT_TYPES.HEAT_STRESS,
+            severity: ALERT_SEVERITY.WARNING,
+            message: `${field.fieldName}: heat stress, air temperature ${airTemperature.toFixed(1)}°C`,
+            value: airTemperature,
+            threshold: ALERT_CONSTANTS.HEAT_STRESS_AIR_TEMP_C,
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Hour of day (0-23) at instant in IANA time zone
+ */
+function getLocalHour(at: Date, timeZone: string): number {
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' })
+        .formatToParts(at)
+        .find(part => part.type === 'hour');
+
+    return Number(hour?.value ?? at.getUTCHours());
+}
+
+/**
+ * Whether hour falls in rule quiet window (window may wrap midnight)
+ * Hours are local to the rule's time zone, else ALERT_TIMEZONE
+ */
+export function isQuietHour(rule: QuietHours, at: Date): boolean {
+    if (rule.quietHoursStart === null || rule.quietHoursEnd === null) {
+        return false;
+    }
+
+    const hour = getLocalHour(at, rule.quietHoursTimezone ?? env.ALERT_TIMEZONE);
+    if (rule.quietHoursStart <= rule.quietHoursEnd) {
+        return hour >= rule.quietHoursStart && hour < rule.quietHoursEnd;
+    }
+    return hour >= rule.quietHoursStart || hour < rule.quietHoursEnd;
+}
+
+/**
+ * Advance a rule's state for an observed value
+ * A rule fires once when its condition has held for durationMinutes, then stays
+ * latched until the value recovers past threshold ± hysteresis. Firing inside
+ * quiet hours is deferred to the first evaluation after the window.
+ */
+export function stepAlertRule(rule: StepAlertRuleInput, value: number, at: Date): AlertRuleStep {
+    const isBelow = rule.operator === ALERT_RULE_OPERATORS.LT;
+    const conditionHolds = isBelow ? value < rule.threshold : value > rule.threshold;
+    const recovered = isBelow
+        ? value >= rule.threshold + rule.hysteresis
+        : value <= rule.threshold - rule.hysteresis;
+
+    if (rule.triggered) {
+        return recovered
+            ? { conditionSince: null, triggered: false, fire: false, heldMinutes: 0 }
+            : { conditionSince: rule.conditionSince, triggered: true, fire: false, heldMinutes: 0 };
+    }
+
+    if (!conditionHolds) {
+        return { conditionSince: null, triggered: false, fire: false, heldMinutes: 0 };
+    }
+
+    const conditionSince = rule.conditionSince ?? at;
+    const heldMinutes = (at.getTime() - conditionSince.getTime()) / 60000;
+    const fire = heldMinutes >= rule.durationMinutes && !isQuietHour(rule, at);
+
+    return { conditionSince, triggered: fire, fire, heldMinutes };
+}
+
+/**
+ * Evaluate field-defined rules against observed metrics (see stepAlertRule)
+ */
+async function evaluateFieldRules(
+    field: FieldRecord,
+    observations: AlertObservations,
+    at: Date,
+    readingId?: number,
+    nodeId: number = field.nodeId
+): Promise<Alert[]> {
+    const rules = await getAlertRules(field.id, true);
+    const raised: Alert[] = [];
+
+    for (const rule of rules) {
+        const value = observations[rule.metric as AlertRuleMetric];
+        if (value === undefined) {
+            continue;
+        }
+
+        const step = stepAlertRule(rule, value, at);
+        let lastTriggeredAt: Date | undefined;
+
+        if (step.fire) {
+            const comparator = rule.operator === ALERT_RULE_OPERATORS.LT ? '<' : '>';
+            const heldFor = rule.durationMinutes > 0 ? ` for ${Math.round(step.heldMinutes)} min` : '';
+            const onNode = nodeId !== field.nodeId ? ` on node ${nodeId}` : '';
+
+            raised.push(await publishAlert(nodeId, {
+                alertType: ALERT_TYPES.CUSTOM_RULE,
+                severity: rule.severity as AlertSeverity,
+                message: `${field.fieldName}: ${rule.name}${onNode} (${rule.metric} ${value.toFixed(1)} ${comparator} ${rule.threshold}${heldFor})`,
+                value,
+                threshold: rule.threshold,
+                ruleId: rule.id,
+            }, at, readingId));
+            lastTriggeredAt = at;
+        }
+
+        await updateAlertRuleState(rule.id, {
+            conditionSince: step.conditionSince,
+            triggered: step.triggered,
+            lastTriggeredAt,
+            lastValue: value,
+        });
+    }
+
+    return raised;
+}
+
+/**
+ * Field rule metrics from the field aggregate
+ * Silence is left to the scheduler, which checks every node of the field
+ */
+function getAggregateObservations(moisture: FieldMoisture): AlertObservations {
+    const observations: AlertObservations = { VWC: moisture.soilMoistureVWC };
+
+    if (moisture.soilTemperature !== null) {
+        observations.SOIL_TEMPERATURE = moisture.soilTemperature;
+    }
+
+    const batteryLevels = moisture.nodes
+        .map(n => n.batteryLevel)
+        .filter((level): level is number => level !== null);
+    if (batteryLevels.length > 0) {
+        observations.BATTERY = Math.min(...batteryLevels);
+    }
+
+    return observations;
+}
+
+/**
+ * Evaluate rules for a freshly processed soil reading
+ */
+export async function evaluateReadingAlerts(input: ReadingAlertInput): Promise<Alert[]> {
+    try {
+        const field = await getFieldByNodeId(input.nodeId);
+
+        const now = new Date();
+
+        const candidates = [
+            ...evaluateSoilRules(field, input.soilMoistureVWC),
+            ...evaluateBatteryRule(field, input.nodeId, input.batteryLevel),
+        ];
+
+        const raised = await raiseAlerts(input.nodeId, candidates, now, input.readingId);
+
+        // Rule state is per field, so multi-node fields are judged on their aggregate;
+        // feeding each node in turn would keep resetting duration and latch
+        const moisture = input.fieldMoisture ?? null;
+        if (moisture) {
+            raised.push(...await evaluateFieldRules(field, getAggregateObservations(moisture), now));
+            return raised;
+        }
+
+        const observations: AlertObservations = {
+            VWC: input.soilMoistureVWC,
+            SOIL_TEMPERATURE: input.soilTemperature,
+            MINUTES_SINCE_READING: Math.max(0, (now.getTime() - input.timestamp.getTime()) / 60000),
+        };
+        if (input.batteryLevel !== undefined) {
+            observations.BATTERY = input.batteryLevel;
+        }
+
+        raised.push(...await evaluateFieldRules(field, observations, now, input.readingId));
+
+        return raised;
+    } catch (error) {
+        logger.error({ error, nodeId: input.nodeId }, 'Failed to evaluate reading alerts');
+        throw error;
+    }
+}
+
+/**
+ * Evaluate air temperature rules for every field on a gateway
+ */
+export async function evaluateWeatherAlerts(gatewayId: string, airTemperature: number): Promise<Alert[]> {
+    try {
+        const fields = await getFieldsByGatewayId(gatewayId);
+        const raised: Alert[] = [];
+
+        for (const field of fields) {
+            const now = new Date();
+            const candidates = evaluateAirTempRules(field, airTemperature);
+            raised.push(...await raiseAlerts(field.nodeId, candidates, now));
+            raised.push(...await evaluateFieldRules(field, { AIR_TEMPERATURE: airTemperature }, now));
+        }
+
+        return raised;
+    } catch (error) {
+        logger.error({ error, gatewayId }, 'Failed to evaluate weather alerts');
+        throw error;
+    }
+}
+
+/**
+ * Raise offline alert for node deactivated by offline detection
+ */
+export async function raiseNodeOfflineAlert(
+    nodeId: number,
+    missedReports: number,
+    minutesSilent: number,
+    thresholdMinutes: number
+): Promise<Alert | null> {
+    try {
+        return await raiseAlert(nodeId, {
+            alertType: ALERT_TYPES.NODE_OFFLINE,
+            severity: ALERT_SEVERITY.WARNING,
+            message: `Node ${nodeId} offline: ${missedReports} consecutive reports missed (silent ${minutesSilent} minutes)`,
+            value: minutesSilent,
+            threshold: thresholdMinutes,
+        }, new Date());
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to raise node offline alert');
+        throw error;
+    }
+}
+
+/**
+ * Raise low-battery alert for an SOS packet (node skipped its sensors and sleeps long)
+ */
+export async function raiseLowBatteryAlert(nodeId: number, batteryLevel: number): Promise<Alert | null> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        return await raiseAlert(nodeId, {
+            alertType: ALERT_TYPES.LOW_BATTERY,
+            severity: ALERT_SEVERITY.WARNING,
+            message: `${field.fieldName}: node ${nodeId} battery low (${batteryLevel}%), soil readings paused until recharged`,
+            value: batteryLevel,
+            threshold: NODE_CONSTANTS.SOS_BATTERY_PCT,
+        }, new Date());
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to raise low battery alert');
+        throw error;
+    }
+}
+
+/**
+ * Scheduler tick: latest gateway weather and silence rules for all fields
+ */
+export async function runScheduledAlertChecks(): Promise<{ evaluated: number; raised: number }> {
+    try {
+        const now = new Date();
+        const fields = await getAllFields();
+        const weatherCutoff = now.getTime() - ALERT_CONSTANTS.WEATHER_MAX_AGE_MINUTES * 60 * 1000;
+
+        // One weather lookup per gateway
+        const gatewayTemps = new Map<string, number | null>();
+        let raised = 0;
+
+        for (const field of fields) {
+            const candidates: AlertCandidate[] = [];
+
+            // Silence is the longest among the field's nodes (primary and members)
+            const nodes = await getFieldNodes(field.id);
+            const readings = await getLatestReadingsForNodes(nodes.map(n => n.nodeId));
+            const stalest = readings.reduce<typeof readings[number] | null>(
+                (oldest, reading) => (!oldest || reading.timestamp < oldest.timestamp ? reading : oldest),
+                null
+            );
+
+            if (field.gatewayId && !gatewayTemps.has(field.gatewayId)) {
+                const weather = await getLatestWeatherReading(field.gatewayId);
+                gatewayTemps.set(
+                    field.gatewayId,
+                    weather && weather.timestamp.getTime() >= weatherCutoff ? weather.airTemperature : null
+                );
+            }
+
+            const airTemperature = field.gatewayId ? gatewayTemps.get(field.gatewayId) : null;
+            if (airTemperature !== undefined && airTemperature !== null) {
+                candidates.push(...evaluateAirTempRules(field, airTemperature));
+            }
+
+            raised += (await raiseAlerts(field.nodeId, candidates, now)).length;
+
+            // Field rules on silence; reading-driven metrics are evaluated on arrival
+            if (stalest) {
+                const minutesSinceReading = (now.getTime() - stalest.timestamp.getTime()) / 60000;
+                raised += (await evaluateFieldRules(
+                    field,
+                    { MINUTES_SINCE_READING: minutesSinceReading },
+                    now,
+                    undefined,
+                    stalest.nodeId
+                )).length;
+            }
+        }
+
+        return { evaluated: fields.length, raised };
+    } catch (error) {
+        logger.error({ error }, 'Failed to run scheduled alert checks');
+        throw error;
+    }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSoilMoisture } from './fuzzySoil.service.js';
+import { FUZZY_SOIL_STATUS, IRRIGATION_URGENCY, SOIL_WATER_CONSTANTS } from '../../utils/constants.js';
+import type { SoilTexture } from '../../utils/constants.js';
+import { ValidationError } from '../../utils/errors.js';
+
+// Wheat: vwcMin 20, vwcOptimal 27, vwcMax 35
+describe('analyzeSoilMoisture', () => {
+    it('gives full optimal membership at the crop optimum', () => {
+        const analysis = analyzeSoilMoisture(27, 20, 'LOAM', 'wheat');
+
+        expect(analysis).toMatchObject({
+            fuzzyDryScore: 0,
+            fuzzyOptimalScore: 100,
+            fuzzyWetScore: 0,
+            soilStatus: FUZZY_SOIL_STATUS.OPTIMAL,
+            confidence: 100,
+            urgency: IRRIGATION_URGENCY.NONE,
+        });
+    });
+
+    it('crosses dry and wet over at the crop window edges', () => {
+        const low = analyzeSoilMoisture(20, 20, 'LOAM', 'wheat');
+        const high = analyzeSoilMoisture(35, 20, 'LOAM', 'wheat');
+
+        expect(low.fuzzyDryScore).toBeGreaterThanOrEqual(50);
+        expect(low.soilStatus).toBe(FUZZY_SOIL_STATUS.DRY);
+        expect(low.urgency).toBe(IRRIGATION_URGENCY.MODERATE);
+
+        expect(high).toMatchObject({ fuzzyOptimalScore: 50, fuzzyWetScore: 50, soilStatus: FUZZY_SOIL_STATUS.OPTIMAL });
+    });
+
+    it('grades soil above the window as wet without irrigation demand', () => {
+        const analysis = analyzeSoilMoisture(40, 20, 'LOAM', 'wheat');
+
+        expect(analysis.soilStatus).toBe(FUZZY_SOIL_STATUS.WET);
+        expect(analysis.fuzzyDryScore).toBe(0);
+        expect(analysis.urgency).toBe(IRRIGATION_URGENCY.NONE);
+        expect(analysis.irrigationAdvice).toMatch(/hold irrigation/);
+    });
+
+    it('keeps scores summing to 100', () => {
+        for (let vwc = 5; vwc <= 50; vwc += 2.5) {
+            const { fuzzyDryScore, fuzzyOptimalScore, fuzzyWetScore } = analyzeSoilMoisture(vwc, null, 'LOAM', 'wheat');
+            expect(fuzzyDryScore + fuzzyOptimalScore + fuzzyWetScore).toBe(100);
+        }
+    });
+
+    it('flags readings at the wilting point as critical', () => {
+        const wiltingPoint = SOIL_WATER_CONSTANTS.LOAM.WILTING_POINT;
+        const analysis = analyzeSoilMoisture(wiltingPoint, 20, 'LOAM', 'wheat');
+
+        expect(analysis.soilStatus).toBe(FUZZY_SOIL_STATUS.DRY);
+        expect(analysis.urgency).toBe(IRRIGATION_URGENCY.CRITICAL);
+    });
+
+    it('adds irrigation demand for hot soil inside the optimal band', () => {
+        const mild = analyzeSoilMoisture(27, 20, 'LOAM', 'wheat');
+        const hot = analyzeSoilMoisture(27, 40, 'LOAM', 'wheat');
+
+        expect(mild.urgency).toBe(IRRIGATION_URGENCY.NONE);
+        expect(hot.soilStatus).toBe(FUZZY_SOIL_STATUS.OPTIMAL);
+        expect(hot.urgency).not.toBe(IRRIGATION_URGENCY.NONE);
+    });
+
+    it('falls back to the soil window without a crop', () => {
+        const fieldCapacity = SOIL_WATER_CONSTANTS.LOAM.FIELD_CAPACITY;
+        const analysis = analyzeSoilMoisture(fieldCapacity + 10, null, 'LOAM', null);
+
+        expect(analysis.soilStatus).toBe(FUZZY_SOIL_STATUS.WET);
+    });
+
+    it('rejects unknown soil textures', () => {
+        expect(() => analyzeSoilMoisture(25, null, 'PEAT' as SoilTexture, 'wheat')).toThrow(ValidationError);
+    });
+});
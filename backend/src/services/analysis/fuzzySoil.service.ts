@@ -0,0 +1,143 @@
+/**
+ * Fuzzy Soil Status Service
+ * Grades a VWC reading as dry / optimal / wet instead of jumping at hard thresholds
+ *
+ * Membership sets partition the VWC axis (memberships always sum to 1):
+ * - dry falls from 1 to 0 between the dry anchor and the crop optimum
+ * - wet rises from 0 to 1 between the crop optimum and the wet anchor
+ * - optimal is the remainder, peaking at the crop optimum
+ * Anchors mirror the crop window around the optimum (so 50/50 crossovers sit at
+ * vwcMin and vwcMax), clamped to the soil's wilting point and saturation.
+ */
+
+import {
+    CROP_DATABASE,
+    SOIL_WATER_CONSTANTS,
+    FUZZY_CONSTANTS,
+    FUZZY_SOIL_STATUS,
+    IRRIGATION_URGENCY,
+} from '../../utils/constants.js';
+import type { UPCropName, SoilTexture, FuzzySoilStatus, IrrigationUrgency } from '../../utils/constants.js';
+import type { FuzzySoilAnalysis } from '../../models/common.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+interface MembershipAnchors {
+    dryFull: number;        // VWC at and below which the soil is fully dry
+    optimum: number;        // VWC with full optimal membership
+    wetFull: number;        // VWC at and above which the soil is fully wet
+    wiltingPoint: number;
+    tempMax: number;        // °C above which heat adds irrigation demand
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Membership anchors for crop (or soil-only window when no crop is set) on soil texture
+ */
+function getMembershipAnchors(soilTexture: SoilTexture, cropType: UPCropName | null): MembershipAnchors {
+    const soil = SOIL_WATER_CONSTANTS[soilTexture];
+
+    if (!soil) {
+        throw new ValidationError(`Invalid soil texture: ${soilTexture}`);
+    }
+
+    const wp = soil.WILTING_POINT;
+    const sat = soil.SATURATION;
+    const crop = cropType ? CROP_DATABASE[cropType] : undefined;
+
+    // Without a crop: refill point at the default MAD up to field capacity
+    const low = crop
+        ? crop.vwcMin
+        : soil.FIELD_CAPACITY - FUZZY_CONSTANTS.DEFAULT_MAD * (soil.FIELD_CAPACITY - wp);
+    const high = crop ? crop.vwcMax : soil.FIELD_CAPACITY;
+    const optimum = clamp(crop ? crop.vwcOptimal : (low + high) / 2, wp + 0.1, sat - 0.1);
+
+    return {
+        dryFull: clamp(2 * low - optimum, wp, optimum - 0.1),
+        optimum,
+        wetFull: clamp(2 * high - optimum, optimum + 0.1, sat),
+        wiltingPoint: wp,
+        tempMax: crop ? crop.optimalTempMax : FUZZY_CONSTANTS.DEFAULT_TEMP_MAX,
+    };
+}
+
+/**
+ * Map irrigation demand degree (0-1) to urgency
+ */
+function demandToUrgency(demand: number): IrrigationUrgency {
+    if (demand >= FUZZY_CONSTANTS.URGENCY_HIGH) return IRRIGATION_URGENCY.HIGH;
+    if (demand >= FUZZY_CONSTANTS.URGENCY_MODERATE) return IRRIGATION_URGENCY.MODERATE;
+    if (demand >= FUZZY_CONSTANTS.URGENCY_LOW) return IRRIGATION_URGENCY.LOW;
+    return IRRIGATION_URGENCY.NONE;
+}
+
+function adviseIrrigation(urgency: IrrigationUrgency, status: FuzzySoilStatus): string {
+    switch (urgency) {
+        case IRRIGATION_URGENCY.CRITICAL:
+            return 'Irrigate immediately: soil is at or below wilting point';
+        case IRRIGATION_URGENCY.HIGH:
+            return 'Irrigate now';
+        case IRRIGATION_URGENCY.MODERATE:
+            return 'Irrigate within 24 hours';
+        case IRRIGATION_URGENCY.LOW:
+            return 'Soil drying or under heat stress; plan irrigation if no rain is expected';
+        default:
+            return status === FUZZY_SOIL_STATUS.WET
+                ? 'Soil is wet; hold irrigation and check drainage'
+                : 'No irrigation needed';
+    }
+}
+
+/**
+ * Fuzzy dry / optimal / wet analysis of a soil reading
+ *
+ * Irrigation demand rules:
+ * - IF dry THEN irrigate
+ * - IF optimal AND hot THEN irrigate (weighted by HEAT_RULE_WEIGHT)
+ *
+ * @param vwc - Soil moisture (% VWC)
+ * @param soilTemperature - Soil temperature (°C), null if unknown
+ * @param soilTexture - Field soil texture
+ * @param cropType - Field crop, null for the soil-only window
+ */
+export function analyzeSoilMoisture(
+    vwc: number,
+    soilTemperature: number | null,
+    soilTexture: SoilTexture,
+    cropType: UPCropName | null
+): FuzzySoilAnalysis {
+    const anchors = getMembershipAnchors(soilTexture, cropType);
+
+    const dry = clamp((anchors.optimum - vwc) / (anchors.optimum - anchors.dryFull), 0, 1);
+    const wet = clamp((vwc - anchors.optimum) / (anchors.wetFull - anchors.optimum), 0, 1);
+    const optimal = 1 - dry - wet;
+
+    const hot = soilTemperature === null
+        ? 0
+        : clamp((soilTemperature - anchors.tempMax) / FUZZY_CONSTANTS.HOT_RAMP_C, 0, 1);
+
+    const demand = Math.max(dry, FUZZY_CONSTANTS.HEAT_RULE_WEIGHT * Math.min(optimal, hot));
+
+    let soilStatus: FuzzySoilStatus = FUZZY_SOIL_STATUS.OPTIMAL;
+    if (dry > optimal && dry >= wet) {
+        soilStatus = FUZZY_SOIL_STATUS.DRY;
+    } else if (wet > optimal && wet > dry) {
+        soilStatus = FUZZY_SOIL_STATUS.WET;
+    }
+
+    const urgency = vwc <= anchors.wiltingPoint ? IRRIGATION_URGENCY.CRITICAL : demandToUrgency(demand);
+
+    // Scores sum to 100; optimal absorbs rounding
+    const fuzzyDryScore = Math.round(dry * 100);
+    const fuzzyWetScore = Math.round(wet * 100);
+
+    return {
+        fuzzyDryScore,
+        fuzzyOptimalScore: 100 - fuzzyDryScore - fuzzyWetScore,
+        fuzzyWetScore,
+        soilStatus,
+        confidence: Math.round(Math.max(dry, optimal, wet) * 100),
+        irrigationAdvice: adviseIrrigation(urgency, soilStatus),
+        urgency,
+    };
+}
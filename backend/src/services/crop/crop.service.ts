@@ -7,13 +7,24 @@
 import { createLogger } from '../../config/logger.js';
 import {
     CROP_DATABASE,
+    CROP_RECOMMENDATION_CONSTANTS,
     getCurrentSeason,
     UP_VALID_CROPS,
 } from '../../utils/constants.js';
 import type { UPCropName, SoilTexture, Season } from '../../utils/constants.js';
 import { getFieldByNodeId } from '../../repositories/field.repository.js';
-import { getLatestReading } from '../../repositories/sensor.repository.js';
-import type { CropRecommendation, CropScore } from '../../models/common.types.js';
+import { getEffectiveSoilReading, storeFieldMoisture } from '../field/fieldMoisture.service.js';
+import {
+    createCropRecommendationRun,
+    getCropRecommendationRuns,
+    getLatestCropRecommendationRun,
+} from '../../repositories/cropRecommendation.repository.js';
+import type {
+    CropRecommendation,
+    CropRecommendationHistory,
+    CropScore,
+    CropSuitabilityTrend,
+} from '../../models/common.types.js';
 import { NotFoundError } from '../../utils/errors.js';
 
 const logger = createLogger({ service: 'crop' });
@@ -219,8 +230,8 @@ export async function getCropRecommendations(nodeId: number): Promise<CropRecomm
         // Get field configuration
         const field = await getFieldByNodeId(nodeId);
 
-        // Get latest sensor data
-        const reading = await getLatestReading(nodeId);
+        // Get latest field-level sensor data
+        const reading = await getEffectiveSoilReading(field);
         if (!reading || reading.soilMoistureVWC === null || reading.soilTemperature === null) {
             throw new NotFoundError('SensorReading', `No valid readings for nodeId=${nodeId}`);
         }
@@ -258,12 +269,40 @@ export async function getCropRecommendations(nodeId: number): Promise<CropRecomm
             throw new Error('No crops could be scored');
         }
 
+        // Keep the run so suitability can be compared over the weeks before sowing
+        // One run per interval: each pins the analysed reading against retention
+        const timestamp = new Date();
+        const latestRun = await getLatestCropRecommendationRun(field.id);
+        const intervalMs = CROP_RECOMMENDATION_CONSTANTS.RUN_INTERVAL_MINUTES * 60 * 1000;
+        let runId: number | null = null;
+
+        if (!latestRun || timestamp.getTime() - latestRun.timestamp.getTime() >= intervalMs) {
+            // Store the aggregate scored, so the run links to exactly what it scored
+            const aggregatedAnalysis = reading.moisture ? await storeFieldMoisture(field, reading.moisture) : null;
+            const run = await createCropRecommendationRun({
+                fieldId: field.id,
+                nodeId: field.nodeId,
+                timestamp,
+                season: currentSeason,
+                soilMoistureVWC: currentVWC,
+                soilTemperature: currentTemp,
+                soilTexture,
+                accumulatedGDD,
+                aggregated: reading.aggregated,
+                analysisId: reading.analysisId,
+                aggregatedAnalysisId: aggregatedAnalysis?.id ?? null,
+                scores: allScores,
+            });
+            runId = run.id;
+        }
+
         logger.info(
-            { nodeId, recommendedCrop: topCrop.cropName, score: topCrop.totalScore },
+            { nodeId, runId, recommendedCrop: topCrop.cropName, score: topCrop.totalScore },
             'Crop recommendation generated'
         );
 
         return {
+            runId,
             nodeId,
             fieldName: field.fieldName,
             currentSeason,
@@ -275,7 +314,7 @@ export async function getCropRecommendations(nodeId: number): Promise<CropRecomm
                 soilTexture,
                 accumulatedGDD,
             },
-            timestamp: new Date(),
+            timestamp,
         };
 
     } catch (error) {
@@ -283,3 +322,107 @@ export async function getCropRecommendations(nodeId: number): Promise<CropRecomm
         throw error;
     }
 }
+
+/**
+ * Monday 00:00 UTC of the week containing date
+ */
+function weekStartUTC(date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start;
+}
+
+/**
+ * Stored recommendation runs and weekly suitability trend per crop
+ * The window ends at the sowing date once the field is sown, so the trend shows the run-up to sowing
+ */
+export async function getCropRecommendationHistory(
+    nodeId: number,
+    weeks: number = CROP_RECOMMENDATION_CONSTANTS.HISTORY_WEEKS
+): Promise<CropRecommendationHistory> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        const now = new Date();
+        const to = field.sowingDate && field.sowingDate < now ? field.sowingDate : now;
+        const from = new Date(to.getTime() - weeks * 7 * 24 * 60 * 60 * 1000);
+
+        const runs = await getCropRecommendationRuns(field.id, from, to);
+
+        // cropName → weekStart → suitabilities / best rank
+        const weekly = new Map<UPCropName, Map<number, { total: number; runs: number; bestRank: number }>>();
+
+        for (const run of runs) {
+            const week = weekStartUTC(run.timestamp).getTime();
+
+            for (const rec of run.recommendations) {
+                const cropWeeks = weekly.get(rec.cropName as UPCropName) ?? new Map();
+                const bucket = cropWeeks.get(week) ?? { total: 0, runs: 0, bestRank: rec.rank };
+
+                bucket.total += rec.suitability;
+                bucket.runs++;
+                bucket.bestRank = Math.min(bucket.bestRank, rec.rank);
+
+                cropWeeks.set(week, bucket);
+                weekly.set(rec.cropName as UPCropName, cropWeeks);
+            }
+        }
+
+        const trend: CropSuitabilityTrend[] = [...weekly.entries()].map(([cropName, cropWeeks]) => {
+            const points = [...cropWeeks.entries()]
+                .sort(([a], [b]) => a - b)
+                .map(([week, bucket]) => ({
+                    weekStart: new Date(week),
+                    runs: bucket.runs,
+                    avgSuitability: Number((bucket.total / bucket.runs).toFixed(1)),
+                    bestRank: bucket.bestRank,
+                }));
+
+            const first = points[0];
+            const last = points[points.length - 1];
+
+            return {
+                cropName,
+                weeks: points,
+                change: first && last && points.length > 1
+                    ? Number((last.avgSuitability - first.avgSuitability).toFixed(1))
+                    : null,
+            };
+        });
+
+        trend.sort((a, b) =>
+            (b.weeks[b.weeks.length - 1]?.avgSuitability ?? 0) - (a.weeks[a.weeks.length - 1]?.avgSuitability ?? 0)
+        );
+
+        return {
+            nodeId: field.nodeId,
+            fieldId: field.id,
+            fieldName: field.fieldName,
+            sowingDate: field.sowingDate,
+            from,
+            to,
+            runs: runs.map(run => ({
+                runId: run.id,
+                timestamp: run.timestamp,
+                season: run.season as Season,
+                conditions: {
+                    currentVWC: run.soilMoistureVWC,
+                    currentSoilTemp: run.soilTemperature,
+                    soilTexture: run.soilTexture as SoilTexture,
+                    accumulatedGDD: run.accumulatedGDD,
+                    aggregated: run.aggregated,
+                },
+                recommendedCrop: run.recommendedCrop as UPCropName,
+                crops: run.recommendations.map(rec => ({
+                    cropName: rec.cropName as UPCropName,
+                    suitability: rec.suitability,
+                    rank: rec.rank,
+                })),
+            })),
+            trend,
+        };
+    } catch (error) {
+        logger.error({ error, nodeId, weeks }, 'Failed to get crop recommendation history');
+        throw error;
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCropCoefficient } from './cropCoefficient.service.js';
+
+describe('calculateCropCoefficient', () => {
+    // wheat: totalGDD 1800, stages 15/35/70/95 %, Kc 0.40 / 1.15 / 0.30
+
+    it('holds Kc_ini during the initial stage', () => {
+        expect(calculateCropCoefficient('wheat', 180).kc).toBe(0.4);
+        expect(calculateCropCoefficient('wheat', 0).kc).toBe(0.4);
+    });
+
+    it('interpolates Kc_ini → Kc_mid during development', () => {
+        const result = calculateCropCoefficient('wheat', 450);
+        expect(result.kc).toBe(0.775);
+        expect(result.progressPercent).toBe(25);
+    });
+
+    it('holds Kc_mid during mid-season', () => {
+        expect(calculateCropCoefficient('wheat', 900).kc).toBe(1.15);
+    });
+
+    it('interpolates Kc_mid → Kc_end during late season', () => {
+        expect(calculateCropCoefficient('wheat', 1485).kc).toBe(0.725);
+    });
+
+    it('holds Kc_end once the season is complete', () => {
+        expect(calculateCropCoefficient('wheat', 1800).kc).toBe(0.3);
+        expect(calculateCropCoefficient('wheat', 2500).kc).toBe(0.3);
+    });
+
+    it('clamps negative GDD to the start of the season', () => {
+        const result = calculateCropCoefficient('wheat', -50);
+        expect(result.kc).toBe(0.4);
+        expect(result.progressPercent).toBe(0);
+    });
+
+    it('scales stage lengths with a field-specific total GDD', () => {
+        expect(calculateCropCoefficient('wheat', 450, 900).kc).toBe(1.15);
+    });
+});
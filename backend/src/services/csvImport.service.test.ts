@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../repositories/node.repository.js', () => ({ getNodeByNodeId: vi.fn() }));
+vi.mock('../repositories/field.repository.js', () => ({
+    getFieldByNodeId: vi.fn(),
+    getFieldsByGatewayId: vi.fn(),
+}));
+vi.mock('../repositories/sensor.repository.js', () => ({
+    createSensorReadings: vi.fn(),
+    getReadingTimestamps: vi.fn(),
+    getReadingsWithoutAnalysis: vi.fn(),
+}));
+vi.mock('../repositories/analysis.repository.js', () => ({ createAnalyses: vi.fn() }));
+vi.mock('../repositories/weather.repository.js', () => ({
+    createWeatherReadings: vi.fn(),
+    getWeatherReadingTimestamps: vi.fn(),
+}));
+vi.mock('./gdd/gdd.service.js', () => ({ calculateMissingGDD: vi.fn() }));
+
+import { importCsv } from './csvImport.service.js';
+import type { CsvImportOptions } from './csvImport.service.js';
+import { getNodeByNodeId } from '../repositories/node.repository.js';
+import { getFieldByNodeId, getFieldsByGatewayId } from '../repositories/field.repository.js';
+import { createSensorReadings, getReadingTimestamps, getReadingsWithoutAnalysis } from '../repositories/sensor.repository.js';
+import { createAnalyses } from '../repositories/analysis.repository.js';
+import { createWeatherReadings, getWeatherReadingTimestamps } from '../repositories/weather.repository.js';
+import { calculateMissingGDD } from './gdd/gdd.service.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+const sensorOptions: CsvImportOptions = {
+    type: 'SENSOR',
+    mapping: {},
+    moistureUnit: 'VWC_PERCENT',
+    temperatureUnit: 'CELSIUS',
+    timestampFormat: 'ISO',
+    charset: 'UTF8',
+    delimiter: ',',
+    dryRun: true,
+};
+
+const csv = (...lines: string[]) => Buffer.from(lines.join('\n'));
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getNodeByNodeId).mockResolvedValue({ nodeId: 1 } as Awaited<ReturnType<typeof getNodeByNodeId>>);
+    vi.mocked(getReadingTimestamps).mockResolvedValue([]);
+    vi.mocked(getWeatherReadingTimestamps).mockResolvedValue([]);
+    vi.mocked(createSensorReadings).mockImplementation(async (inputs) => inputs.length);
+    vi.mocked(createWeatherReadings).mockImplementation(async (inputs) => inputs.length);
+    vi.mocked(createAnalyses).mockImplementation(async (inputs) => inputs.length);
+    vi.mocked(calculateMissingGDD).mockResolvedValue(0);
+});
+
+describe('importCsv', () => {
+    it('validates sensor rows without inserting on a dry run', async () => {
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature',
+            '2026-05-01T06:00:00Z,1,24.5,21.3',
+            '2026-05-01T07:00:00Z,1,24.1,22.0'
+        ), sensorOptions);
+
+        expect(result).toMatchObject({ totalRows: 2, validRows: 2, inserted: 0, errorRows: 0 });
+        expect(createSensorReadings).not.toHaveBeenCalled();
+    });
+
+    it('maps columns and converts units into the payload scaling', async () => {
+        await importCsv(csv(
+            'Time;Probe;VWC;Temp F',
+            '1777615200;1;0.245;70.7'
+        ), {
+            ...sensorOptions,
+            mapping: { timestamp: 'Time', nodeId: 'Probe', moisture: 'VWC', temperature: 'Temp F' },
+            moistureUnit: 'VWC_FRACTION',
+            temperatureUnit: 'FAHRENHEIT',
+            timestampFormat: 'EPOCH_SECONDS',
+            delimiter: ';',
+            dryRun: false,
+        });
+
+        expect(createSensorReadings).toHaveBeenCalledWith([{
+            nodeId: 1,
+            moisture: 245,
+            temperature: 215,
+            soilMoistureVWC: 24.5,
+            soilTemperature: 21.5,
+            batteryLevel: undefined,
+            rssi: undefined,
+            timestamp: new Date(1777615200 * 1000),
+        }]);
+    });
+
+    it('reports row errors against file line numbers', async () => {
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature,batteryLevel',
+            '2026-05-01T06:00:00Z,1,abc,21.3,',
+            '2026-05-01T07:00:00Z,1,124,21.3,',
+            'yesterday,1,24,21.3,',
+            '2026-05-01T09:00:00Z,1,24,21.3,150',
+            '2026-05-01T10:00:00Z,1,24,21.3,80'
+        ), sensorOptions);
+
+        expect(result.validRows).toBe(1);
+        expect(result.errors.map(e => e.row)).toEqual([2, 3, 4, 5]);
+        expect(result.errors[0]!.errors).toContain("moisture 'abc' is not a number");
+        expect(result.errors[1]!.errors).toContain('VWC 124% out of range (0-100)');
+    });
+
+    it('uses the nodeId option for files without a nodeId column', async () => {
+        const result = await importCsv(csv(
+            'timestamp,moisture,temperature',
+            '2026-05-01T06:00:00Z,24.5,21.3'
+        ), { ...sensorOptions, nodeId: 7 });
+
+        expect(result.validRows).toBe(1);
+        expect(getNodeByNodeId).toHaveBeenCalledWith(7);
+    });
+
+    it('fails fast when mapped columns are missing', async () => {
+        await expect(importCsv(csv(
+            'time,nodeId,moisture',
+            '2026-05-01T06:00:00Z,1,24.5'
+        ), sensorOptions)).rejects.toThrow(ValidationError);
+    });
+
+    it('rejects rows of unregistered nodes', async () => {
+        vi.mocked(getNodeByNodeId).mockRejectedValue(new NotFoundError('Node', 'nodeId=9'));
+
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature',
+            '2026-05-01T06:00:00Z,9,24.5,21.3'
+        ), sensorOptions);
+
+        expect(result.validRows).toBe(0);
+        expect(result.errors[0]!.errors).toEqual(['Node 9 is not registered']);
+    });
+
+    it('skips stored readings and flags repeats within the file', async () => {
+        vi.mocked(getReadingTimestamps).mockResolvedValue([new Date('2026-05-01T06:00:00Z')]);
+
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature',
+            '2026-05-01T08:00:00Z,1,24.0,21.0',
+            '2026-05-01T06:00:00Z,1,24.5,21.3',
+            '2026-05-01T08:00:00Z,1,24.2,21.1'
+        ), sensorOptions);
+
+        expect(result).toMatchObject({ validRows: 1, skippedExisting: 1, errorRows: 1 });
+        expect(result.errors[0]!.errors[0]).toBe('Duplicate of row 2 (same source and timestamp)');
+        expect(getReadingTimestamps).toHaveBeenCalledWith(
+            1,
+            new Date('2026-05-01T06:00:00Z'),
+            new Date('2026-05-01T08:00:00Z')
+        );
+    });
+
+    it('stores fuzzy analyses for imported readings of field nodes', async () => {
+        vi.mocked(getFieldByNodeId).mockResolvedValue(
+            { soilTexture: 'LOAM', cropType: 'wheat' } as Awaited<ReturnType<typeof getFieldByNodeId>>
+        );
+        vi.mocked(getReadingsWithoutAnalysis).mockResolvedValue([
+            { id: 41, timestamp: new Date('2026-05-01T06:00:00Z'), soilMoistureVWC: 20, soilTemperature: 21.3 },
+            { id: 42, timestamp: new Date('2026-05-01T08:00:00Z'), soilMoistureVWC: 27, soilTemperature: 22.0 },
+        ]);
+
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature',
+            '2026-05-01T08:00:00Z,1,27,22.0',
+            '2026-05-01T06:00:00Z,1,20,21.3'
+        ), { ...sensorOptions, dryRun: false });
+
+        expect(result).toMatchObject({ inserted: 2, analysesCreated: 2 });
+        expect(getReadingsWithoutAnalysis).toHaveBeenCalledWith(
+            1,
+            new Date('2026-05-01T06:00:00Z'),
+            new Date('2026-05-01T08:00:00Z')
+        );
+        expect(createAnalyses).toHaveBeenCalledWith([
+            expect.objectContaining({ readingId: 41, analysis: expect.objectContaining({ soilStatus: 'DRY' }) }),
+            expect.objectContaining({ readingId: 42, analysis: expect.objectContaining({ soilStatus: 'OPTIMAL' }) }),
+        ]);
+    });
+
+    it('skips analyses for imported readings of nodes without a field', async () => {
+        vi.mocked(getFieldByNodeId).mockRejectedValue(new NotFoundError('Field', 'nodeId=1'));
+
+        const result = await importCsv(csv(
+            'timestamp,nodeId,moisture,temperature',
+            '2026-05-01T06:00:00Z,1,24.5,21.3'
+        ), { ...sensorOptions, dryRun: false });
+
+        expect(result).toMatchObject({ inserted: 1, analysesCreated: 0 });
+        expect(createAnalyses).not.toHaveBeenCalled();
+    });
+
+    it('imports weather rows and backfills GDD for fields on the gateway', async () => {
+        vi.mocked(getFieldsByGatewayId).mockResolvedValue(
+            [{ nodeId: 4 }] as Awaited<ReturnType<typeof getFieldsByGatewayId>>
+        );
+
+        const result = await importCsv(csv(
+            'timestamp,airTemperature,humidity',
+            '2026-05-01T06:00:00Z,28.4,61'
+        ), { ...sensorOptions, type: 'WEATHER', gatewayId: 'gw-01', dryRun: false });
+
+        expect(result.inserted).toBe(1);
+        expect(calculateMissingGDD).toHaveBeenCalledWith(4);
+    });
+});
@@ -0,0 +1,542 @@
+// src/services/csvImport.service.ts
+/**
+ * Historical CSV Import Service
+ * Loads logger/handheld probe exports into SensorReading and WeatherReading,
+ * then backfills fuzzy soil analyses and GDD
+ */
+
+import { parse, CsvError } from 'csv-parse/sync';
+import { createLogger } from '../config/logger.js';
+import {
+    CSV_IMPORT_CONSTANTS,
+    CSV_IMPORT_TYPES,
+    MOISTURE_UNITS,
+    TEMPERATURE_UNITS,
+    TIMESTAMP_FORMATS,
+} from '../utils/constants.js';
+import type {
+    CsvImportType,
+    CsvCharset,
+    SoilTexture,
+    UPCropName,
+    MoistureUnit,
+    TemperatureUnit,
+    TimestampFormat,
+} from '../utils/constants.js';
+import { weatherPayloadSchema } from '../models/payload.schemas.js';
+import { getNodeByNodeId } from '../repositories/node.repository.js';
+import { getFieldByNodeId, getFieldsByGatewayId } from '../repositories/field.repository.js';
+import { createSensorReadings, getReadingTimestamps, getReadingsWithoutAnalysis } from '../repositories/sensor.repository.js';
+import type { CreateSensorReadingInput } from '../repositories/sensor.repository.js';
+import { createWeatherReadings, getWeatherReadingTimestamps } from '../repositories/weather.repository.js';
+import type { CreateWeatherReadingInput } from '../repositories/weather.repository.js';
+import { createAnalyses } from '../repositories/analysis.repository.js';
+import { calculateMissingGDD } from './gdd/gdd.service.js';
+import { analyzeSoilMoisture } from './analysis/fuzzySoil.service.js';
+import type { CsvImportResult, CsvImportRowError } from '../models/common.types.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+const logger = createLogger({ service: 'csv-import' });
+
+/**
+ * Importable columns per target table
+ */
+export const CSV_IMPORT_TARGETS = {
+    SENSOR: ['timestamp', 'nodeId', 'moisture', 'temperature', 'batteryLevel', 'rssi'],
+    WEATHER: ['timestamp', 'gatewayId', 'airTemperature', 'humidity', 'pressure'],
+} as const satisfies Record<CsvImportType, readonly string[]>;
+
+const REQUIRED_TARGETS: Record<CsvImportType, readonly string[]> = {
+    SENSOR: ['timestamp', 'moisture', 'temperature'],
+    WEATHER: ['timestamp', 'airTemperature', 'humidity'],
+};
+
+const CHARSET_ENCODINGS: Record<CsvCharset, BufferEncoding> = {
+    UTF8: 'utf8',
+    LATIN1: 'latin1',
+    UTF16LE: 'utf16le',
+};
+
+export interface CsvImportOptions {
+    type: CsvImportType;
+    mapping: Record<string, string>;        // Target field → CSV column header (defaults to same name)
+    nodeId?: number | undefined;            // For files without a nodeId column
+    gatewayId?: string | undefined;         // For files without a gatewayId column
+    moistureUnit: MoistureUnit;
+    temperatureUnit: TemperatureUnit;
+    timestampFormat: TimestampFormat;
+    charset: CsvCharset;
+    delimiter: string;
+    dryRun: boolean;
+}
+
+interface ParsedRow {
+    line: number;
+    values: Record<string, string>;
+}
+
+interface ValidRow<T> {
+    line: number;
+    key: string;            // nodeId / gatewayId the row belongs to
+    input: T;
+}
+
+/**
+ * Decode and parse CSV into header-keyed rows with file line numbers
+ */
+function parseCsv(content: Buffer, options: CsvImportOptions): { headers: string[]; rows: ParsedRow[] } {
+    const text = content.toString(CHARSET_ENCODINGS[options.charset]);
+    let headers: string[] = [];
+
+    try {
+        const records = parse(text, {
+            bom: true,
+            trim: true,
+            skip_empty_lines: true,
+            delimiter: options.delimiter,
+            info: true,
+            columns: (header: string[]) => {
+                headers = header;
+                return header;
+            },
+        }) as Array<{ record: Record<string, string>; info: { lines: number } }>;
+
+        return {
+            headers,
+            rows: records.map(r => ({ line: r.info.lines, values: r.record })),
+        };
+    } catch (error) {
+        if (error instanceof CsvError) {
+            throw new ValidationError(`Invalid CSV: ${error.message}`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Cell value for target field via column mapping (empty cells are missing)
+ */
+function cell(row: ParsedRow, options: CsvImportOptions, target: string): string | undefined {
+    const value = row.values[options.mapping[target] ?? target];
+    return value === undefined || value === '' ? undefined : value;
+}
+
+function parseNumber(value: string | undefined, label: string, errors: string[]): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+        errors.push(`${label} '${value}' is not a number`);
+        return undefined;
+    }
+    return number;
+}
+
+function parseTimestamp(value: string | undefined, format: TimestampFormat, errors: string[]): Date | undefined {
+    if (value === undefined) {
+        errors.push('timestamp is missing');
+        return undefined;
+    }
+
+    let date: Date;
+    if (format === TIMESTAMP_FORMATS.ISO) {
+        date = new Date(value);
+    } else {
+        const epoch = Number(value);
+        date = new Date(format === TIMESTAMP_FORMATS.EPOCH_SECONDS ? epoch * 1000 : epoch);
+    }
+
+    if (isNaN(date.getTime())) {
+        errors.push(`timestamp '${value}' is not a valid ${format} timestamp`);
+        return undefined;
+    }
+    if (date.getTime() > Date.now()) {
+        errors.push(`timestamp '${value}' is in the future`);
+        return undefined;
+    }
+    return date;
+}
+
+function toVWCPercent(value: number, unit: MoistureUnit): number {
+    switch (unit) {
+        case MOISTURE_UNITS.VWC_FRACTION:
+            return value * 100;
+        case MOISTURE_UNITS.PRESCALED:
+            return value / 10;
+        default:
+            return value;
+    }
+}
+
+function toCelsius(value: number, unit: TemperatureUnit): number {
+    switch (unit) {
+        case TEMPERATURE_UNITS.FAHRENHEIT:
+            return (value - 32) * 5 / 9;
+        case TEMPERATURE_UNITS.CELSIUS_X10:
+            return value / 10;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Validate sensor row into reading input
+ */
+function toSensorReading(row: ParsedRow, options: CsvImportOptions, errors: string[]): CreateSensorReadingInput | null {
+    const timestamp = parseTimestamp(cell(row, options, 'timestamp'), options.timestampFormat, errors);
+    const nodeId = parseNumber(cell(row, options, 'nodeId'), 'nodeId', errors) ?? options.nodeId;
+    const moisture = parseNumber(cell(row, options, 'moisture'), 'moisture', errors);
+    const temperature = parseNumber(cell(row, options, 'temperature'), 'temperature', errors);
+    const batteryLevel = parseNumber(cell(row, options, 'batteryLevel'), 'batteryLevel', errors);
+    const rssi = parseNumber(cell(row, options, 'rssi'), 'rssi', errors);
+
+    if (nodeId === undefined || !Number.isInteger(nodeId) || nodeId <= 0) {
+        errors.push('nodeId is missing or not a positive integer');
+    }
+    if (cell(row, options, 'moisture') === undefined) {
+        errors.push('moisture is missing');
+    }
+    if (cell(row, options, 'temperature') === undefined) {
+        errors.push('temperature is missing');
+    }
+
+    const vwc = moisture !== undefined ? Number(toVWCPercent(moisture, options.moistureUnit).toFixed(1)) : undefined;
+    const soilTemp = temperature !== undefined ? Number(toCelsius(temperature, options.temperatureUnit).toFixed(1)) : undefined;
+
+    if (vwc !== undefined && (vwc < 0 || vwc > 100)) {
+        errors.push(`VWC ${vwc}% out of range (0-100)`);
+    }
+    if (soilTemp !== undefined && (soilTemp < -10 || soilTemp > 60)) {
+        errors.push(`Soil temperature ${soilTemp}°C out of range (-10 to 60)`);
+    }
+    if (batteryLevel !== undefined && (!Number.isInteger(batteryLevel) || batteryLevel < 0 || batteryLevel > 100)) {
+        errors.push(`batteryLevel ${batteryLevel} out of range (0-100)`);
+    }
+    if (rssi !== undefined && (!Number.isInteger(rssi) || rssi < -120 || rssi > 0)) {
+        errors.push(`rssi ${rssi} out of range (-120 to 0)`);
+    }
+
+    if (errors.length > 0 || !timestamp || nodeId === undefined || vwc === undefined || soilTemp === undefined) {
+        return null;
+    }
+
+    // Raw columns keep the payload scaling (×10) so imported rows look like prescaled node data
+    return {
+        nodeId,
+        moisture: Math.round(vwc * 10),
+        temperature: Math.round(soilTemp * 10),
+        soilMoistureVWC: vwc,
+        soilTemperature: soilTemp,
+        batteryLevel,
+        rssi,
+        timestamp,
+    };
+}
+
+/**
+ * Validate weather row into reading input (same ranges as gateway payloads)
+ */
+function toWeatherReading(row: ParsedRow, options: CsvImportOptions, errors: string[]): CreateWeatherReadingInput | null {
+    const timestamp = parseTimestamp(cell(row, options, 'timestamp'), options.timestampFormat, errors);
+    const airTemperature = parseNumber(cell(row, options, 'airTemperature'), 'airTemperature', errors);
+    const humidity = parseNumber(cell(row, options, 'humidity'), 'humidity', errors);
+    const pressure = parseNumber(cell(row, options, 'pressure'), 'pressure', errors);
+
+    const result = weatherPayloadSchema.safeParse({
+        gatewayId: cell(row, options, 'gatewayId') ?? options.gatewayId,
+        airTemperature: airTemperature !== undefined
+            ? Number(toCelsius(airTemperature, options.temperatureUnit).toFixed(1))
+            : undefined,
+        humidity,
+        pressure,
+    });
+
+    if (!result.success) {
+        errors.push(...result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`));
+    }
+
+    if (errors.length > 0 || !timestamp || !result.success) {
+        return null;
+    }
+
+    return {
+        gatewayId: result.data.gatewayId,
+        airTemperature: result.data.airTemperature,
+        humidity: result.data.humidity,
+        pressure: result.data.pressure,
+        timestamp,
+    };
+}
+
+/**
+ * Drop rows already stored (re-import) or repeated in the file
+ */
+async function partitionExisting<T extends { timestamp: Date }>(
+    rows: ValidRow<T>[],
+    getStored: (key: string, from: Date, to: Date) => Promise<Date[]>,
+    addError: (error: CsvImportRowError) => void
+): Promise<{ fresh: ValidRow<T>[]; existing: number }> {
+    const fresh: ValidRow<T>[] = [];
+    let existing = 0;
+
+    const byKey = new Map<string, ValidRow<T>[]>();
+    for (const row of rows) {
+        const group = byKey.get(row.key);
+        if (group) {
+            group.push(row);
+        } else {
+            byKey.set(row.key, [row]);
+        }
+    }
+
+    for (const [key, group] of byKey) {
+        // Loop rather than Math.min(...times): spreading up to MAX_ROWS arguments overflows the stack
+        let first = Infinity;
+        let last = -Infinity;
+        for (const row of group) {
+            const time = row.input.timestamp.getTime();
+            if (time < first) first = time;
+            if (time > last) last = time;
+        }
+
+        const stored = new Set((await getStored(key, new Date(first), new Date(last))).map(d => d.getTime()));
+        const seen = new Map<number, number>();
+
+        for (const row of group) {
+            const time = row.input.timestamp.getTime();
+
+            if (stored.has(time)) {
+                existing++;
+                continue;
+            }
+
+            const firstLine = seen.get(time);
+            if (firstLine !== undefined) {
+                addError({ row: row.line, errors: [`Duplicate of row ${firstLine} (same source and timestamp)`] });
+                continue;
+            }
+
+            seen.set(time, row.line);
+            fresh.push(row);
+        }
+    }
+
+    return { fresh, existing };
+}
+
+/**
+ * Insert in batches
+ */
+async function insertInBatches<T>(inputs: T[], insert: (batch: T[]) => Promise<number>): Promise<number> {
+    let inserted = 0;
+    for (let i = 0; i < inputs.length; i += CSV_IMPORT_CONSTANTS.INSERT_BATCH_SIZE) {
+        inserted += await insert(inputs.slice(i, i + CSV_IMPORT_CONSTANTS.INSERT_BATCH_SIZE));
+    }
+    return inserted;
+}
+
+/**
+ * Fuzzy soil analysis for imported readings of nodes that belong to a field
+ * Live readings are analysed on ingest; bulk inserts bypass that path
+ */
+async function backfillAnalyses(inputs: CreateSensorReadingInput[]): Promise<number> {
+    const ranges = new Map<number, { from: Date; to: Date }>();
+    for (const input of inputs) {
+        const range = ranges.get(input.nodeId);
+        if (!range) {
+            ranges.set(input.nodeId, { from: input.timestamp, to: input.timestamp });
+        } else {
+            if (input.timestamp < range.from) range.from = input.timestamp;
+            if (input.timestamp > range.to) range.to = input.timestamp;
+        }
+    }
+
+    let created = 0;
+    for (const [nodeId, range] of ranges) {
+        try {
+            const field = await getFieldByNodeId(nodeId);
+            const readings = await getReadingsWithoutAnalysis(nodeId, range.from, range.to);
+
+            const analyses = readings.flatMap(reading => reading.soilMoistureVWC === null ? [] : [{
+                readingId: reading.id,
+                timestamp: reading.timestamp,
+                analysis: analyzeSoilMoisture(
+                    reading.soilMoistureVWC,
+                    reading.soilTemperature,
+                    field.soilTexture as SoilTexture,
+                    field.cropType as UPCropName | null
+                ),
+            }]);
+            created += await insertInBatches(analyses, createAnalyses);
+        } catch (error) {
+            if (error instanceof NotFoundError) continue;   // Node without a field
+            logger.warn({ error, nodeId }, 'Analysis backfill failed after import');
+        }
+    }
+
+    return created;
+}
+
+/**
+ * Backfill missing GDD records for fields touched by the import
+ */
+async function backfillGDD(nodeIds: number[]): Promise<Array<{ nodeId: number; calculated: number }>> {
+    const results: Array<{ nodeId: number; calculated: number }> = [];
+
+    for (const nodeId of nodeIds) {
+        try {
+            results.push({ nodeId, calculated: await calculateMissingGDD(nodeId) });
+        } catch (error) {
+            if (error instanceof NotFoundError) continue;   // Node without a field
+            logger.warn({ error, nodeId }, 'GDD backfill failed after import');
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Import CSV file (or validate only, when dryRun)
+ */
+export async function importCsv(content: Buffer, options: CsvImportOptions): Promise<CsvImportResult> {
+    try {
+        const { headers, rows } = parseCsv(content, options);
+
+        if (rows.length > CSV_IMPORT_CONSTANTS.MAX_ROWS) {
+            throw new ValidationError(`File has ${rows.length} rows, at most ${CSV_IMPORT_CONSTANTS.MAX_ROWS} allowed`);
+        }
+
+        // Fail fast on mapping errors instead of reporting every row
+        const missingColumns = REQUIRED_TARGETS[options.type]
+            .map(target => options.mapping[target] ?? target)
+            .filter(column => !headers.includes(column));
+        if (options.type === CSV_IMPORT_TYPES.SENSOR && options.nodeId === undefined) {
+            const column = options.mapping.nodeId ?? 'nodeId';
+            if (!headers.includes(column)) missingColumns.push(column);
+        }
+        if (options.type === CSV_IMPORT_TYPES.WEATHER && options.gatewayId === undefined) {
+            const column = options.mapping.gatewayId ?? 'gatewayId';
+            if (!headers.includes(column)) missingColumns.push(column);
+        }
+        if (missingColumns.length > 0) {
+            throw new ValidationError(`Columns not found in CSV header: ${missingColumns.join(', ')}`, { headers });
+        }
+
+        const rowErrors: CsvImportRowError[] = [];
+        const addError = (error: CsvImportRowError) => rowErrors.push(error);
+
+        let inserted = 0;
+        let analysesCreated = 0;
+        let existing = 0;
+        let validRows = 0;
+        let affectedNodeIds: number[] = [];
+
+        if (options.type === CSV_IMPORT_TYPES.SENSOR) {
+            const valid: ValidRow<CreateSensorReadingInput>[] = [];
+            for (const row of rows) {
+                const errors: string[] = [];
+                const input = toSensorReading(row, options, errors);
+                if (input) {
+                    valid.push({ line: row.line, key: String(input.nodeId), input });
+                } else {
+                    addError({ row: row.line, errors });
+                }
+            }
+
+            // Readings reference Node; unknown nodes must be registered first
+            const nodeIds = [...new Set(valid.map(r => r.input.nodeId))];
+            const unknownNodes = new Set<number>();
+            for (const nodeId of nodeIds) {
+                try {
+                    await getNodeByNodeId(nodeId);
+                } catch (error) {
+                    if (!(error instanceof NotFoundError)) throw error;
+                    unknownNodes.add(nodeId);
+                }
+            }
+
+            const known = valid.filter(row => {
+                if (!unknownNodes.has(row.input.nodeId)) return true;
+                addError({ row: row.line, errors: [`Node ${row.input.nodeId} is not registered`] });
+                return false;
+            });
+
+            const partition = await partitionExisting(
+                known,
+                (key, from, to) => getReadingTimestamps(Number(key), from, to),
+                addError
+            );
+            validRows = partition.fresh.length;
+            existing = partition.existing;
+
+            if (!options.dryRun) {
+                inserted = await insertInBatches(partition.fresh.map(r => r.input), createSensorReadings);
+                if (inserted > 0) {
+                    analysesCreated = await backfillAnalyses(partition.fresh.map(r => r.input));
+                }
+            }
+            affectedNodeIds = [...new Set(partition.fresh.map(r => r.input.nodeId))];
+        } else {
+            const valid: ValidRow<CreateWeatherReadingInput>[] = [];
+            for (const row of rows) {
+                const errors: string[] = [];
+                const input = toWeatherReading(row, options, errors);
+                if (input) {
+                    valid.push({ line: row.line, key: input.gatewayId, input });
+                } else {
+                    addError({ row: row.line, errors });
+                }
+            }
+
+            const partition = await partitionExisting(valid, getWeatherReadingTimestamps, addError);
+            validRows = partition.fresh.length;
+            existing = partition.existing;
+
+            if (!options.dryRun) {
+                inserted = await insertInBatches(partition.fresh.map(r => r.input), createWeatherReadings);
+            }
+
+            // GDD is driven by gateway air temperature, so every field on the gateway is affected
+            for (const gatewayId of new Set(partition.fresh.map(r => r.input.gatewayId))) {
+                const fields = await getFieldsByGatewayId(gatewayId);
+                affectedNodeIds.push(...fields.map(f => f.nodeId));
+            }
+        }
+
+        const gddBackfill = !options.dryRun && inserted > 0 ? await backfillGDD(affectedNodeIds) : [];
+
+        rowErrors.sort((a, b) => a.row - b.row);
+
+        logger.info(
+            {
+                type: options.type,
+                dryRun: options.dryRun,
+                totalRows: rows.length,
+                inserted,
+                analysesCreated,
+                skippedExisting: existing,
+                errorRows: rowErrors.length,
+            },
+            'CSV import processed'
+        );
+
+        return {
+            type: options.type,
+            dryRun: options.dryRun,
+            totalRows: rows.length,
+            validRows,
+            inserted,
+            skippedExisting: existing,
+            errorRows: rowErrors.length,
+            errors: rowErrors.slice(0, CSV_IMPORT_CONSTANTS.MAX_REPORTED_ERRORS),
+            errorsTruncated: rowErrors.length > CSV_IMPORT_CONSTANTS.MAX_REPORTED_ERRORS,
+            analysesCreated,
+            gddBackfill,
+        };
+    } catch (error) {
+        logger.error({ error, type: options.type }, 'Failed to import CSV');
+        throw error;
+    }
+}
@@ -0,0 +1,234 @@
+// src/services/export.service.ts
+/**
+ * Data Export Service
+ * Streams readings, GDD history and irrigation logs as CSV/NDJSON using keyset cursors,
+ * so memory use is bounded by one page regardless of date range
+ */
+
+import { createLogger } from '../config/logger.js';
+import { EXPORT_CONSTANTS, EXPORT_FORMATS } from '../utils/constants.js';
+import type { ExportDataset, ExportFormat } from '../utils/constants.js';
+import { getReadingsPage } from '../repositories/sensor.repository.js';
+import { getWeatherReadingsPage } from '../repositories/weather.repository.js';
+import { getGDDRecordsPage } from '../repositories/gdd.repository.js';
+import { getIrrigationLogsPage, getIrrigationEventsPage } from '../repositories/irrigation.repository.js';
+import { getAllFields } from '../repositories/field.repository.js';
+import type { ExportFilters, ExportCursor } from '../models/common.types.js';
+
+const logger = createLogger({ service: 'export' });
+
+type ExportRecord = Record<string, unknown>;
+
+interface DatasetExporter {
+    columns: readonly string[];
+    rows: (filters: ExportFilters) => AsyncGenerator<ExportRecord[]>;
+}
+
+/**
+ * Walk a table page by page using the (time, id) keyset of the last row
+ */
+async function* paginate<T extends { id: number }>(
+    fetchPage: (after: ExportCursor | null, take: number) => Promise<T[]>,
+    timeOf: (row: T) => Date,
+    toRecord: (row: T) => ExportRecord
+): AsyncGenerator<ExportRecord[]> {
+    let after: ExportCursor | null = null;
+
+    while (true) {
+        const page = await fetchPage(after, EXPORT_CONSTANTS.PAGE_SIZE);
+        if (page.length === 0) {
+            return;
+        }
+
+        yield page.map(toRecord);
+
+        const last = page[page.length - 1]!;
+        after = { at: timeOf(last), id: last.id };
+
+        if (page.length < EXPORT_CONSTANTS.PAGE_SIZE) {
+            return;
+        }
+    }
+}
+
+/**
+ * Gateways serving the requested nodes, when weather is filtered by node
+ */
+async function resolveGatewayIds(filters: ExportFilters): Promise<ExportFilters> {
+    if (filters.gatewayIds?.length || !filters.nodeIds?.length) {
+        return filters;
+    }
+
+    const nodeIds = new Set(filters.nodeIds);
+    const fields = await getAllFields();
+    const gatewayIds = [
+        ...new Set(
+            fields
+                .filter(f => nodeIds.has(f.nodeId))
+                .map(f => f.gatewayId)
+                .filter((id): id is string => id !== null)
+        ),
+    ];
+
+    // No matching fields: keep a filter that matches nothing rather than exporting every gateway
+    return { ...filters, gatewayIds: gatewayIds.length > 0 ? gatewayIds : [''] };
+}
+
+const EXPORTERS: Record<ExportDataset, DatasetExporter> = {
+    SENSOR_READINGS: {
+        columns: [
+            'id', 'nodeId', 'timestamp', 'soilMoistureVWC', 'soilTemperature', 'moisture', 'temperature',
+            'batteryLevel', 'rssi', 'seq', 'calibrationVersion',
+        ],
+        rows: (filters) => paginate(
+            (after, take) => getReadingsPage(filters, after, take),
+            r => r.timestamp,
+            r => ({
+                id: r.id,
+                nodeId: r.nodeId,
+                timestamp: r.timestamp,
+                soilMoistureVWC: r.soilMoistureVWC,
+                soilTemperature: r.soilTemperature,
+                moisture: r.moisture,
+                temperature: r.temperature,
+                batteryLevel: r.batteryLevel,
+                rssi: r.rssi,
+                seq: r.seq,
+                calibrationVersion: r.calibrationVersion,
+            })
+        ),
+    },
+    WEATHER_READINGS: {
+        columns: ['id', 'gatewayId', 'timestamp', 'airTemperature', 'humidity', 'pressure'],
+        rows: async function* (filters) {
+            const resolved = await resolveGatewayIds(filters);
+            yield* paginate(
+                (after, take) => getWeatherReadingsPage(resolved, after, take),
+                r => r.timestamp,
+                r => ({
+                    id: r.id,
+                    gatewayId: r.gatewayId,
+                    timestamp: r.timestamp,
+                    airTemperature: r.airTemperature,
+                    humidity: r.humidity,
+                    pressure: r.pressure,
+                })
+            );
+        },
+    },
+    GDD_RECORDS: {
+        columns: [
+            'id', 'nodeId', 'fieldId', 'date', 'avgAirTemp', 'minAirTemp', 'maxAirTemp', 'readingsCount',
+            'dailyGDD', 'cumulativeGDD', 'cropType', 'baseTemperature', 'growthStage',
+        ],
+        rows: (filters) => paginate(
+            (after, take) => getGDDRecordsPage(filters, after, take),
+            r => r.date,
+            r => ({
+                id: r.id,
+                nodeId: r.field.nodeId,
+                fieldId: r.fieldId,
+                date: r.date.toISOString().split('T')[0],
+                avgAirTemp: r.avgAirTemp,
+                minAirTemp: r.minAirTemp,
+                maxAirTemp: r.maxAirTemp,
+                readingsCount: r.readingsCount,
+                dailyGDD: r.dailyGDD,
+                cumulativeGDD: r.cumulativeGDD,
+                cropType: r.cropType,
+                baseTemperature: r.baseTemperature,
+                growthStage: r.growthStage,
+            })
+        ),
+    },
+    IRRIGATION_DECISIONS: {
+        columns: [
+            'id', 'nodeId', 'timestamp', 'currentVWC', 'targetVWC', 'cropType', 'growthStage', 'shouldIrrigate',
+            'urgency', 'reason', 'estimatedWaterNeeded', 'actionTaken', 'actionTimestamp', 'actualWaterApplied',
+        ],
+        rows: (filters) => paginate(
+            (after, take) => getIrrigationLogsPage(filters, after, take),
+            r => r.timestamp,
+            r => ({
+                id: r.id,
+                nodeId: r.nodeId,
+                timestamp: r.timestamp,
+                currentVWC: r.currentVWC,
+                targetVWC: r.targetVWC,
+                cropType: r.cropType,
+                growthStage: r.growthStage,
+                shouldIrrigate: r.shouldIrrigate,
+                urgency: r.urgency,
+                reason: r.reason,
+                estimatedWaterNeeded: r.estimatedWaterNeeded,
+                actionTaken: r.actionTaken,
+                actionTimestamp: r.actionTimestamp,
+                actualWaterApplied: r.actualWaterApplied,
+            })
+        ),
+    },
+    IRRIGATION_EVENTS: {
+        columns: [
+            'id', 'nodeId', 'irrigationLogId', 'appliedAt', 'method', 'depthMm', 'volumeLiters',
+            'effectiveDepthMm', 'notes',
+        ],
+        rows: (filters) => paginate(
+            (after, take) => getIrrigationEventsPage(filters, after, take),
+            r => r.appliedAt,
+            r => ({
+                id: r.id,
+                nodeId: r.nodeId,
+                irrigationLogId: r.irrigationLogId,
+                appliedAt: r.appliedAt,
+                method: r.method,
+                depthMm: r.depthMm,
+                volumeLiters: r.volumeLiters,
+                effectiveDepthMm: r.effectiveDepthMm,
+                notes: r.notes,
+            })
+        ),
+    },
+};
+
+/**
+ * RFC 4180 field: quote when it contains delimiter, quote or line break
+ */
+function toCsvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream dataset as text chunks (one chunk per page)
+ */
+export async function* streamExport(
+    dataset: ExportDataset,
+    format: ExportFormat,
+    filters: ExportFilters
+): AsyncGenerator<string> {
+    const exporter = EXPORTERS[dataset];
+    const header = format === EXPORT_FORMATS.CSV ? exporter.columns.join(',') + '\n' : '';
+    let rowCount = 0;
+
+    logger.info({ dataset, format, filters }, 'Export started');
+
+    // Header goes out with the first page so query errors surface before anything is sent
+    for await (const records of exporter.rows(filters)) {
+        const body = format === EXPORT_FORMATS.CSV
+            ? records.map(record => exporter.columns.map(column => toCsvValue(record[column])).join(',')).join('\n') + '\n'
+            : records.map(record => JSON.stringify(record)).join('\n') + '\n';
+
+        yield rowCount === 0 ? header + body : body;
+        rowCount += records.length;
+    }
+
+    if (rowCount === 0 && header) {
+        yield header;
+    }
+
+    logger.info({ dataset, format, rows: rowCount }, 'Export finished');
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { applyStrategy } from './fieldMoisture.service.js';
+import type { NodeContribution } from '../../models/common.types.js';
+
+function node(nodeId: number, soilMoistureVWC: number, soilTemperature: number | null, quality: number): NodeContribution {
+    return {
+        nodeId,
+        readingId: nodeId * 100,
+        soilMoistureVWC,
+        soilTemperature,
+        timestamp: new Date('2026-10-19T10:00:00Z'),
+        rssi: -90,
+        batteryLevel: 80,
+        calibrated: true,
+        quality,
+    };
+}
+
+const nodes = [node(1, 24, 20, 0.9), node(2, 18, 22, 0.5), node(3, 30, null, 0.2)];
+
+describe('applyStrategy', () => {
+    it('MEAN averages VWC and known temperatures, selecting the most trusted node', () => {
+        expect(applyStrategy('MEAN', nodes)).toEqual({
+            soilMoistureVWC: 24,
+            soilTemperature: 21,
+            selectedNodeId: 1,
+            selectionReason: 'Mean of 3 nodes (18.0-30.0% VWC)',
+        });
+    });
+
+    it('DRIEST takes the driest node as is', () => {
+        expect(applyStrategy('DRIEST', nodes)).toMatchObject({
+            soilMoistureVWC: 18,
+            soilTemperature: 22,
+            selectedNodeId: 2,
+        });
+    });
+
+    it('MEDIAN takes the middle node of an odd count', () => {
+        expect(applyStrategy('MEDIAN', nodes)).toMatchObject({
+            soilMoistureVWC: 24,
+            soilTemperature: 20,
+            selectedNodeId: 1,
+        });
+    });
+
+    it('MEDIAN averages the two middle nodes of an even count and selects the lower', () => {
+        expect(applyStrategy('MEDIAN', [...nodes, node(4, 26, 24, 0.8)])).toMatchObject({
+            soilMoistureVWC: 25,
+            soilTemperature: 22,
+            selectedNodeId: 1,
+        });
+    });
+
+    it('QUALITY_WEIGHTED weights each node by its quality', () => {
+        const result = applyStrategy('QUALITY_WEIGHTED', nodes);
+
+        // (24×0.9 + 18×0.5 + 30×0.2) / 1.6 and (20×0.9 + 22×0.5) / 1.4
+        expect(result.soilMoistureVWC).toBeCloseTo(22.875, 6);
+        expect(result.soilTemperature).toBeCloseTo(20.714, 3);
+        expect(result.selectedNodeId).toBe(1);
+    });
+
+    it('reports a null temperature when no node has one', () => {
+        expect(applyStrategy('MEAN', [node(5, 21, null, 1)]).soilTemperature).toBeNull();
+    });
+});
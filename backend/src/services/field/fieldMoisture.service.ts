@@ -0,0 +1,269 @@
+// src/services/field/fieldMoisture.service.ts
+/**
+ * Field Moisture Aggregation Service
+ * Combines the latest readings of a field's nodes into one effective VWC using the field's strategy
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { FIELD_AGGREGATION_CONSTANTS, FIELD_AGGREGATION_STRATEGIES, NODE_CONSTANTS } from '../../utils/constants.js';
+import type { FieldAggregationStrategy, SoilTexture, UPCropName } from '../../utils/constants.js';
+import { getFieldByNodeId, getFieldNodes } from '../../repositories/field.repository.js';
+import { getLatestReading, getLatestReadingsForNodes } from '../../repositories/sensor.repository.js';
+import { createAggregatedReading } from '../../repositories/aggregatedReading.repository.js';
+import { createAggregatedAnalysis } from '../../repositories/analysis.repository.js';
+import { analyzeSoilMoisture } from '../analysis/fuzzySoil.service.js';
+import type { FieldMoisture, FuzzySoilAnalysis, NodeContribution } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'field-moisture' });
+
+type FieldRecord = Awaited<ReturnType<typeof getFieldByNodeId>>;
+
+export interface EffectiveSoilReading {
+    soilMoistureVWC: number | null;
+    soilTemperature: number | null;
+    timestamp: Date;
+    aggregated: boolean;        // True when combined from several nodes
+    analysisId: number | null;  // Fuzzy analysis of the node reading (null for aggregates)
+    moisture: FieldMoisture | null; // Aggregate used (not persisted), null for a node reading
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Reading quality 0-1 from freshness, link margin, battery and calibration
+ */
+function scoreReading(
+    reading: { timestamp: Date; rssi: number | null; batteryLevel: number | null; calibrationVersion: number | null },
+    freshWindowMs: number,
+    now: Date
+): number {
+    const { RSSI_FLOOR, RSSI_GOOD, LOW_BATTERY_PCT, LOW_BATTERY_FACTOR, UNCALIBRATED_FACTOR, UNKNOWN_RSSI_FACTOR } =
+        FIELD_AGGREGATION_CONSTANTS;
+
+    const age = Math.max(0, now.getTime() - reading.timestamp.getTime());
+    const freshness = 0.5 + 0.5 * (1 - clamp(age / freshWindowMs, 0, 1));
+
+    const link = reading.rssi === null
+        ? UNKNOWN_RSSI_FACTOR
+        : 0.2 + 0.8 * clamp((reading.rssi - RSSI_FLOOR) / (RSSI_GOOD - RSSI_FLOOR), 0, 1);
+
+    const battery = reading.batteryLevel !== null && reading.batteryLevel < LOW_BATTERY_PCT ? LOW_BATTERY_FACTOR : 1;
+    const calibration = reading.calibrationVersion !== null ? 1 : UNCALIBRATED_FACTOR;
+
+    return round(freshness * link * battery * calibration, 3);
+}
+
+/**
+ * Mean of non-null values, weighted when weights are given
+ */
+function weightedMean(values: Array<{ value: number | null; weight: number }>): number | null {
+    const present = values.filter((v): v is { value: number; weight: number } => v.value !== null);
+    const totalWeight = present.reduce((sum, v) => sum + v.weight, 0);
+
+    if (present.length === 0 || totalWeight === 0) {
+        return null;
+    }
+
+    return present.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+}
+
+/**
+ * Apply strategy to node contributions (at least one)
+ */
+export function applyStrategy(
+    strategy: FieldAggregationStrategy,
+    nodes: NodeContribution[]
+): Pick<FieldMoisture, 'soilMoistureVWC' | 'soilTemperature' | 'selectedNodeId' | 'selectionReason'> {
+    const byVWC = [...nodes].sort((a, b) => a.soilMoistureVWC - b.soilMoistureVWC);
+    const mostTrusted = [...nodes].sort((a, b) => b.quality - a.quality)[0]!;
+    const range = `${byVWC[0]!.soilMoistureVWC.toFixed(1)}-${byVWC[byVWC.length - 1]!.soilMoistureVWC.toFixed(1)}% VWC`;
+
+    switch (strategy) {
+        case FIELD_AGGREGATION_STRATEGIES.DRIEST: {
+            const driest = byVWC[0]!;
+            return {
+                soilMoistureVWC: driest.soilMoistureVWC,
+                soilTemperature: driest.soilTemperature,
+                selectedNodeId: driest.nodeId,
+                selectionReason: `Driest of ${nodes.length} nodes (${range})`,
+            };
+        }
+
+        case FIELD_AGGREGATION_STRATEGIES.MEDIAN: {
+            const middle = Math.floor((byVWC.length - 1) / 2);
+            const lower = byVWC[middle]!;
+            const upper = byVWC[byVWC.length - 1 - middle]!;
+            return {
+                soilMoistureVWC: (lower.soilMoistureVWC + upper.soilMoistureVWC) / 2,
+                soilTemperature: weightedMean([lower, upper].map(n => ({ value: n.soilTemperature, weight: 1 }))),
+                selectedNodeId: lower.nodeId,
+                selectionReason: `Median of ${nodes.length} nodes (${range})`,
+            };
+        }
+
+        case FIELD_AGGREGATION_STRATEGIES.QUALITY_WEIGHTED: {
+            // Every contribution scores > 0, so the weighted mean is always defined
+            return {
+                soilMoistureVWC: weightedMean(nodes.map(n => ({ value: n.soilMoistureVWC, weight: n.quality })))!,
+                soilTemperature: weightedMean(nodes.map(n => ({ value: n.soilTemperature, weight: n.quality }))),
+                selectedNodeId: mostTrusted.nodeId,
+                selectionReason: `Quality-weighted mean of ${nodes.length} nodes (${range}), node ${mostTrusted.nodeId} most trusted`,
+            };
+        }
+
+        case FIELD_AGGREGATION_STRATEGIES.MEAN:
+        default:
+            return {
+                soilMoistureVWC: weightedMean(nodes.map(n => ({ value: n.soilMoistureVWC, weight: 1 })))!,
+                soilTemperature: weightedMean(nodes.map(n => ({ value: n.soilTemperature, weight: 1 }))),
+                selectedNodeId: mostTrusted.nodeId,
+                selectionReason: `Mean of ${nodes.length} nodes (${range})`,
+            };
+    }
+}
+
+/**
+ * Field-level moisture from member nodes with a fresh reading
+ * Returns null when no member node reported within its freshness window
+ */
+export async function aggregateFieldMoisture(
+    field: FieldRecord,
+    strategy: FieldAggregationStrategy = field.aggregationStrategy as FieldAggregationStrategy,
+    now: Date = new Date()
+): Promise<FieldMoisture | null> {
+    try {
+        const members = await getFieldNodes(field.id);
+        const readings = await getLatestReadingsForNodes(members.map(n => n.nodeId));
+        const intervalByNode = new Map(members.map(n => [n.nodeId, n.reportIntervalSec]));
+
+        const nodes: NodeContribution[] = [];
+        for (const reading of readings) {
+            const freshWindowMs =
+                (intervalByNode.get(reading.nodeId) ?? NODE_CONSTANTS.DEFAULT_REPORT_INTERVAL_SEC) * 1000 * FIELD_AGGREGATION_CONSTANTS.FRESH_REPORT_INTERVALS;
+
+            if (now.getTime() - reading.timestamp.getTime() > freshWindowMs) {
+                continue;
+            }
+
+            nodes.push({
+                nodeId: reading.nodeId,
+                readingId: reading.id,
+                soilMoistureVWC: reading.soilMoistureVWC,
+                soilTemperature: reading.soilTemperature,
+                timestamp: reading.timestamp,
+                rssi: reading.rssi,
+                batteryLevel: reading.batteryLevel,
+                calibrated: reading.calibrationVersion !== null,
+                quality: scoreReading(reading, freshWindowMs, now),
+            });
+        }
+
+        if (nodes.length === 0) {
+            return null;
+        }
+
+        const selection = applyStrategy(strategy, nodes);
+        const selected = nodes.find(n => n.nodeId === selection.selectedNodeId)!;
+
+        return {
+            fieldId: field.id,
+            strategy,
+            soilMoistureVWC: round(selection.soilMoistureVWC, 2),
+            soilTemperature: selection.soilTemperature !== null ? round(selection.soilTemperature, 2) : null,
+            timestamp: new Date(Math.max(...nodes.map(n => n.timestamp.getTime()))),
+            nodeCount: nodes.length,
+            selectedNodeId: selection.selectedNodeId,
+            selectionScore: selected.quality,
+            selectionReason: selection.selectionReason,
+            nodes,
+        };
+    } catch (error) {
+        logger.error({ error, fieldId: field.id, strategy }, 'Failed to aggregate field moisture');
+        throw error;
+    }
+}
+
+/**
+ * Fuzzy soil status of field-level moisture, against the field's crop and soil texture
+ */
+export function analyzeFieldMoisture(field: FieldRecord, moisture: FieldMoisture): FuzzySoilAnalysis {
+    return analyzeSoilMoisture(
+        moisture.soilMoistureVWC,
+        moisture.soilTemperature,
+        field.soilTexture as SoilTexture,
+        field.cropType as UPCropName | null
+    );
+}
+
+/**
+ * Persist field-level moisture with its fuzzy analysis
+ */
+export async function storeFieldMoisture(field: FieldRecord, moisture: FieldMoisture) {
+    const aggregated = await createAggregatedReading(moisture);
+    return createAggregatedAnalysis(aggregated.id, moisture.timestamp, analyzeFieldMoisture(field, moisture));
+}
+
+/**
+ * Recompute and persist field-level moisture after a member node reported
+ * Single-node fields are skipped: their effective VWC is the node reading
+ */
+export async function recordFieldMoisture(field: FieldRecord): Promise<FieldMoisture | null> {
+    try {
+        const members = await getFieldNodes(field.id);
+        if (members.length < 2) {
+            return null;
+        }
+
+        const moisture = await aggregateFieldMoisture(field);
+        if (moisture) {
+            await storeFieldMoisture(field, moisture);
+            logger.debug(
+                { fieldId: field.id, strategy: moisture.strategy, vwc: moisture.soilMoistureVWC, nodes: moisture.nodeCount },
+                'Field moisture aggregated'
+            );
+        }
+
+        return moisture;
+    } catch (error) {
+        logger.error({ error, fieldId: field.id }, 'Failed to record field moisture');
+        throw error;
+    }
+}
+
+/**
+ * Soil reading that field-level decisions (irrigation, crop suitability) should use
+ * Multi-node fields use the aggregate; otherwise, or when no member is fresh, the primary node's latest reading
+ */
+export async function getEffectiveSoilReading(field: FieldRecord): Promise<EffectiveSoilReading | null> {
+    const members = await getFieldNodes(field.id);
+
+    if (members.length > 1) {
+        const moisture = await aggregateFieldMoisture(field);
+        if (moisture) {
+            return {
+                soilMoistureVWC: moisture.soilMoistureVWC,
+                soilTemperature: moisture.soilTemperature,
+                timestamp: moisture.timestamp,
+                aggregated: true,
+                analysisId: null,
+                moisture,
+            };
+        }
+    }
+
+    const reading = await getLatestReading(field.nodeId);
+    if (!reading) {
+        return null;
+    }
+
+    return {
+        soilMoistureVWC: reading.soilMoistureVWC,
+        soilTemperature: reading.soilTemperature,
+        timestamp: reading.timestamp,
+        aggregated: false,
+        analysisId: reading.analysis?.id ?? null,
+        moisture: null,
+    };
+}
@@ -0,0 +1,89 @@
+// src/services/field/fieldNode.service.ts
+/**
+ * Field Node Membership Service
+ * A field has one primary node (Field.nodeId, which keys its GDD, irrigation and alert data)
+ * plus any number of member nodes whose readings feed the field-level moisture
+ */
+
+import { createLogger } from '../../config/logger.js';
+import {
+    attachNodeToField,
+    detachNodeFromField,
+    getFieldById,
+    getFieldByNodeId,
+    getFieldNodes,
+} from '../../repositories/field.repository.js';
+import { findPendingNode } from '../../repositories/pendingNode.repository.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'field-node' });
+
+/**
+ * Reject nodes that already belong to another field
+ */
+async function assertNodeUnassigned(nodeId: number, fieldId: number): Promise<void> {
+    try {
+        const current = await getFieldByNodeId(nodeId);
+
+        if (current.id !== fieldId) {
+            throw new ConflictError(`Node ${nodeId} already belongs to field ${current.id}`, {
+                nodeId,
+                fieldId: current.id,
+            });
+        }
+    } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+    }
+}
+
+/**
+ * Add member node to field
+ * Pending nodes are claimed instead, so their held readings are replayed into the field
+ */
+export async function addFieldNode(fieldId: number, nodeId: number) {
+    try {
+        const field = await getFieldById(fieldId);
+
+        await assertNodeUnassigned(nodeId, fieldId);
+
+        if (await findPendingNode(nodeId)) {
+            throw new ConflictError(
+                `Node ${nodeId} is pending registration; claim it via POST /api/nodes/pending/${nodeId}/claim with fieldId=${fieldId}`
+            );
+        }
+
+        await attachNodeToField(field.id, nodeId);
+        logger.info({ fieldId: field.id, nodeId }, 'Node added to field');
+
+        return await getFieldNodes(field.id);
+    } catch (error) {
+        logger.error({ error, fieldId, nodeId }, 'Failed to add node to field');
+        throw error;
+    }
+}
+
+/**
+ * Remove member node from field (the primary node cannot be removed)
+ */
+export async function removeFieldNode(fieldId: number, nodeId: number) {
+    try {
+        const field = await getFieldById(fieldId);
+
+        if (field.nodeId === nodeId) {
+            throw new ValidationError(`Node ${nodeId} is the primary node of field ${field.id} and cannot be removed`);
+        }
+
+        const members = await getFieldNodes(field.id);
+        if (!members.some(n => n.nodeId === nodeId)) {
+            throw new NotFoundError('FieldNode', `fieldId=${field.id}, nodeId=${nodeId}`);
+        }
+
+        await detachNodeFromField(nodeId);
+        logger.info({ fieldId: field.id, nodeId }, 'Node removed from field');
+
+        return await getFieldNodes(field.id);
+    } catch (error) {
+        logger.error({ error, fieldId, nodeId }, 'Failed to remove node from field');
+        throw error;
+    }
+}
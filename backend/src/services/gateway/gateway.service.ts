@@ -0,0 +1,177 @@
+// src/services/gateway/gateway.service.ts
+/**
+ * Gateway Registry Service
+ * Gateway activity tracking and the field → gateway air-data link check
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { AIR_DATA_STATUS, GATEWAY_CONSTANTS } from '../../utils/constants.js';
+import type { AirDataStatus } from '../../utils/constants.js';
+import {
+    createGateway,
+    findGateway,
+    getGateway,
+    deleteGateway,
+    touchGateway,
+} from '../../repositories/gateway.repository.js';
+import type { CreateGatewayInput } from '../../repositories/gateway.repository.js';
+import { getAllFields } from '../../repositories/field.repository.js';
+import { getLatestWeatherReading } from '../../repositories/weather.repository.js';
+import type { FieldAirData } from '../../models/common.types.js';
+import { ConflictError, ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'gateway' });
+
+/**
+ * Reject links to gateways that are not registered
+ */
+export async function assertGatewayRegistered(gatewayId: string): Promise<void> {
+    const gateway = await findGateway(gatewayId);
+
+    if (!gateway) {
+        throw new ValidationError(`Gateway '${gatewayId}' is not registered`, { gatewayId });
+    }
+}
+
+/**
+ * Register a new gateway
+ */
+export async function registerGateway(input: CreateGatewayInput) {
+    try {
+        if (await findGateway(input.gatewayId)) {
+            throw new ConflictError(`Gateway '${input.gatewayId}' is already registered`, { gatewayId: input.gatewayId });
+        }
+
+        const gateway = await createGateway(input);
+        logger.info({ gatewayId: gateway.gatewayId }, 'Gateway registered');
+
+        return gateway;
+    } catch (error) {
+        logger.error({ error, gatewayId: input.gatewayId }, 'Failed to register gateway');
+        throw error;
+    }
+}
+
+/**
+ * Every node attached to a gateway through its fields, primary and member nodes
+ */
+export function getAttachedNodeIds(fields: Array<{ nodeId: number; nodes: Array<{ nodeId: number }> }>): number[] {
+    const nodeIds = new Set(fields.flatMap(f => [f.nodeId, ...f.nodes.map(n => n.nodeId)]));
+    return [...nodeIds].sort((a, b) => a - b);
+}
+
+/**
+ * Gateway with attached nodes and its latest weather reading
+ */
+export async function getGatewayDetails(gatewayId: string) {
+    try {
+        const gateway = await getGateway(gatewayId);
+        const latestWeather = await getLatestWeatherReading(gatewayId);
+
+        return {
+            ...gateway,
+            nodeIds: getAttachedNodeIds(gateway.fields),
+            latestWeather,
+        };
+    } catch (error) {
+        logger.error({ error, gatewayId }, 'Failed to get gateway details');
+        throw error;
+    }
+}
+
+/**
+ * Delete gateway unless fields still take air data from it
+ */
+export async function removeGateway(gatewayId: string) {
+    try {
+        const gateway = await getGateway(gatewayId);
+
+        if (gateway.fields.length > 0) {
+            throw new ConflictError(
+                `Gateway '${gatewayId}' still serves ${gateway.fields.length} field(s); relink them first`,
+                { gatewayId, nodeIds: getAttachedNodeIds(gateway.fields) }
+            );
+        }
+
+        await deleteGateway(gatewayId);
+        logger.info({ gatewayId }, 'Gateway deleted');
+    } catch (error) {
+        logger.error({ error, gatewayId }, 'Failed to delete gateway');
+        throw error;
+    }
+}
+
+/**
+ * Record that a gateway was heard from
+ * Tracking failures must not reject the data the gateway delivered
+ */
+export async function recordGatewayActivity(
+    gatewayId: string,
+    seenAt: Date,
+    firmwareVersion?: string
+): Promise<void> {
+    try {
+        const updated = await touchGateway(gatewayId, seenAt, firmwareVersion);
+
+        if (!updated) {
+            logger.debug({ gatewayId }, 'Gateway activity not recorded (unregistered or older than lastSeen)');
+        }
+    } catch (error) {
+        logger.warn({ error, gatewayId }, 'Failed to record gateway activity');
+    }
+}
+
+/**
+ * Classify each field's air-temperature source
+ * Surfaces fields whose GDD silently stalls because of a missing or wrong gateway link
+ */
+export async function getFieldAirDataStatus(now: Date = new Date()): Promise<FieldAirData[]> {
+    try {
+        const fields = await getAllFields();
+        const staleBefore = now.getTime() - GATEWAY_CONSTANTS.AIR_DATA_STALE_HOURS * 60 * 60 * 1000;
+
+        // One lookup per gateway
+        const latestByGateway = new Map<string, { lastAirReadingAt: Date | null; gatewayLastSeen: Date | null }>();
+
+        for (const gatewayId of new Set(fields.map(f => f.gatewayId))) {
+            if (!gatewayId) continue;
+
+            const [gateway, weather] = await Promise.all([
+                findGateway(gatewayId),
+                getLatestWeatherReading(gatewayId),
+            ]);
+
+            latestByGateway.set(gatewayId, {
+                lastAirReadingAt: weather?.timestamp ?? null,
+                gatewayLastSeen: gateway?.lastSeen ?? null,
+            });
+        }
+
+        return fields.map(field => {
+            const latest = field.gatewayId ? latestByGateway.get(field.gatewayId) : undefined;
+            const lastAirReadingAt = latest?.lastAirReadingAt ?? null;
+
+            let status: AirDataStatus = AIR_DATA_STATUS.OK;
+            if (!field.gatewayId) {
+                status = AIR_DATA_STATUS.UNLINKED;
+            } else if (!lastAirReadingAt) {
+                status = AIR_DATA_STATUS.NO_READINGS;
+            } else if (lastAirReadingAt.getTime() < staleBefore) {
+                status = AIR_DATA_STATUS.STALE;
+            }
+
+            return {
+                fieldId: field.id,
+                nodeId: field.nodeId,
+                fieldName: field.fieldName,
+                gatewayId: field.gatewayId,
+                status,
+                lastAirReadingAt,
+                gatewayLastSeen: latest?.gatewayLastSeen ?? null,
+            };
+        });
+    } catch (error) {
+        logger.error({ error }, 'Failed to get field air data status');
+        throw error;
+    }
+}
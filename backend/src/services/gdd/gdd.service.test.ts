@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../repositories/field.repository.js', () => ({
+    getFieldByNodeId: vi.fn(),
+    updateFieldGDD: vi.fn(),
+}));
+vi.mock('../../repositories/weather.repository.js', () => ({ getDailyAverageAirTemp: vi.fn() }));
+vi.mock('../../repositories/gdd.repository.js', () => ({
+    createGDDRecord: vi.fn(),
+    getGDDRecordForDate: vi.fn(),
+    getLatestGDDRecord: vi.fn(),
+    getGDDRecordsSinceSowing: vi.fn(),
+    deleteGDDRecordsInRange: vi.fn(),
+}));
+vi.mock('../websocket.service.js', () => ({ broadcastEvent: vi.fn() }));
+
+import { calculateDailyGDD, recalculateGDDRange } from './gdd.service.js';
+import { getFieldByNodeId, updateFieldGDD } from '../../repositories/field.repository.js';
+import { getDailyAverageAirTemp } from '../../repositories/weather.repository.js';
+import { createGDDRecord, getLatestGDDRecord } from '../../repositories/gdd.repository.js';
+import { broadcastEvent } from '../websocket.service.js';
+import { REALTIME_EVENTS } from '../../utils/constants.js';
+
+type Field = Awaited<ReturnType<typeof getFieldByNodeId>>;
+type GDDRecord = NonNullable<Awaited<ReturnType<typeof getLatestGDDRecord>>>;
+
+let field: Field;
+let records: GDDRecord[];
+
+beforeEach(() => {
+    vi.resetAllMocks();
+
+    // Wheat: 1800 GDD total, INITIAL below 15% (270 GDD)
+    field = {
+        id: 3,
+        nodeId: 12,
+        gatewayId: 'gw-1',
+        cropType: 'wheat',
+        cropConfirmed: true,
+        sowingDate: new Date(2026, 3, 1),
+        baseTemperature: 5,
+        expectedGDDTotal: 1800,
+        accumulatedGDD: 265,
+        currentGrowthStage: 'INITIAL',
+    } as Field;
+    records = [{ date: new Date(2026, 4, 10), cumulativeGDD: 265 } as GDDRecord];
+
+    vi.mocked(getFieldByNodeId).mockImplementation(async () => ({ ...field }));
+    vi.mocked(updateFieldGDD).mockImplementation(async (_nodeId, gdd, stage) => {
+        field = { ...field, accumulatedGDD: gdd, currentGrowthStage: stage };
+        return field;
+    });
+    vi.mocked(getLatestGDDRecord).mockImplementation(async () =>
+        [...records].sort((a, b) => b.date.getTime() - a.date.getTime())[0] ?? null
+    );
+    vi.mocked(createGDDRecord).mockImplementation(async (input) => {
+        const record = { ...input } as unknown as GDDRecord;
+        records.push(record);
+        return record;
+    });
+    // 10 GDD per day on wheat's 5 °C base
+    vi.mocked(getDailyAverageAirTemp).mockResolvedValue({ avgAirTemp: 15, minAirTemp: 8, maxAirTemp: 22, readingsCount: 24 });
+});
+
+describe('GDD stage broadcast', () => {
+    it('pushes a forward transition on the latest day', async () => {
+        await calculateDailyGDD(12, new Date(2026, 4, 11));
+
+        expect(broadcastEvent).toHaveBeenCalledTimes(1);
+        expect(broadcastEvent).toHaveBeenCalledWith(
+            REALTIME_EVENTS.GDD_STAGE,
+            { nodeId: 12, fieldId: 3 },
+            expect.objectContaining({ previousStage: 'INITIAL', growthStage: 'DEVELOPMENT', cumulativeGDD: 275 })
+        );
+    });
+
+    it('does not push a day older than the latest record', async () => {
+        await calculateDailyGDD(12, new Date(2026, 4, 5));
+
+        expect(broadcastEvent).not.toHaveBeenCalled();
+    });
+
+    it('pushes one net transition for a recalculated range', async () => {
+        // Range wiped back to 245 GDD; three days walk INITIAL -> DEVELOPMENT
+        records = [{ date: new Date(2026, 4, 7), cumulativeGDD: 245 } as GDDRecord];
+        field = { ...field, accumulatedGDD: 255, currentGrowthStage: 'INITIAL' };
+
+        const count = await recalculateGDDRange(12, new Date(2026, 4, 8), new Date(2026, 4, 10));
+
+        expect(count).toBe(3);
+        expect(broadcastEvent).toHaveBeenCalledTimes(1);
+        expect(broadcastEvent).toHaveBeenCalledWith(
+            REALTIME_EVENTS.GDD_STAGE,
+            { nodeId: 12, fieldId: 3 },
+            expect.objectContaining({ previousStage: 'INITIAL', growthStage: 'DEVELOPMENT', cumulativeGDD: 275 })
+        );
+    });
+
+    it('does not replay transitions walked through while recalculating a range', async () => {
+        // Day one drops the field back to INITIAL; the range ends in the DEVELOPMENT stage held before it
+        records = [{ date: new Date(2026, 4, 7), cumulativeGDD: 245 } as GDDRecord];
+        field = { ...field, accumulatedGDD: 285, currentGrowthStage: 'DEVELOPMENT' };
+
+        await recalculateGDDRange(12, new Date(2026, 4, 8), new Date(2026, 4, 10));
+
+        expect(broadcastEvent).not.toHaveBeenCalled();
+    });
+});
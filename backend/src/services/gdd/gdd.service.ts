@@ -6,7 +6,7 @@
  */
 
 import { createLogger } from '../../config/logger.js';
-import { CROP_DATABASE, GROWTH_STAGES } from '../../utils/constants.js';
+import { CROP_DATABASE, GROWTH_STAGES, REALTIME_EVENTS } from '../../utils/constants.js';
 import type { GrowthStage, UPCropName } from '../../utils/constants.js';
 import { getFieldByNodeId, updateFieldGDD } from '../../repositories/field.repository.js';
 import { getDailyAverageAirTemp } from '../../repositories/weather.repository.js';
@@ -19,9 +19,14 @@ import {
 } from '../../repositories/gdd.repository.js';
 import type { GDDResult, GDDStatus } from '../../models/common.types.js';
 import { ValidationError } from '../../utils/errors.js';
+import { broadcastEvent } from '../websocket.service.js';
 
 const logger = createLogger({ service: 'gdd' });
 
+type FieldRecord = Awaited<ReturnType<typeof getFieldByNodeId>>;
+
+const STAGE_ORDER = Object.values(GROWTH_STAGES);
+
 /**
  * Calculate daily GDD
  */
@@ -32,7 +37,7 @@ function calculateDailyGDDValue(avgAirTemp: number, baseTemp: number): number {
 /**
  * Determine growth stage from cumulative GDD
  */
-function determineGrowthStage(
+export function determineGrowthStage(
     cumulativeGDD: number,
     totalGDD: number,
     cropType: UPCropName
@@ -53,12 +58,40 @@ function determineGrowthStage(
     }
 }
 
+/**
+ * Push a forward growth stage transition to subscribed clients
+ */
+function broadcastStageTransition(
+    field: FieldRecord,
+    previousStage: GrowthStage,
+    growthStage: GrowthStage,
+    cumulativeGDD: number,
+    date: Date
+): void {
+    if (STAGE_ORDER.indexOf(growthStage) <= STAGE_ORDER.indexOf(previousStage)) {
+        return;
+    }
+
+    broadcastEvent(REALTIME_EVENTS.GDD_STAGE, { nodeId: field.nodeId, fieldId: field.id }, {
+        cropType: field.cropType,
+        previousStage,
+        growthStage,
+        cumulativeGDD: Number(cumulativeGDD.toFixed(2)),
+        expectedGDDTotal: field.expectedGDDTotal,
+        date,
+    });
+}
+
 /**
  * Calculate GDD for a specific day
+ *
+ * @param options.broadcast - Push a stage transition (default true); batch callers
+ *   disable it and push the net transition once the whole range is done
  */
 export async function calculateDailyGDD(
     nodeId: number,
-    date: Date
+    date: Date,
+    options: { broadcast?: boolean | undefined } = {}
 ): Promise<GDDResult | null> {
     try {
         const field = await getFieldByNodeId(nodeId);
@@ -95,6 +128,11 @@ export async function calculateDailyGDD(
         }
 
         // Get air temperature data
+        if (!field.gatewayId) {
+            logger.warn({ nodeId, date: dateOnly }, 'Field has no gateway linked, no air temperature data');
+            return null;
+        }
+
         const tempData = await getDailyAverageAirTemp(field.gatewayId, dateOnly);
 
         if (!tempData) {
@@ -132,6 +170,18 @@ export async function calculateDailyGDD(
         // Update field
         await updateFieldGDD(nodeId, cumulativeGDD, growthStage);
 
+        // A day older than the latest record is history, not a live transition
+        const isLatestDay = !latestRecord || latestRecord.date < dateOnly;
+        if ((options.broadcast ?? true) && isLatestDay) {
+            broadcastStageTransition(
+                field,
+                (field.currentGrowthStage as GrowthStage | null) ?? GROWTH_STAGES.INITIAL,
+                growthStage,
+                cumulativeGDD,
+                dateOnly
+            );
+        }
+
         logger.info(
             { nodeId, date: dateOnly, dailyGDD, cumulativeGDD, growthStage },
             'GDD calculated'
@@ -198,6 +248,27 @@ export async function getGDDStatus(nodeId: number): Promise<GDDStatus> {
     }
 }
 
+/**
+ * After a batch, push the transition from the stage held before it (if forward)
+ * Intermediate days are history and are not pushed
+ */
+async function broadcastNetTransition(before: FieldRecord): Promise<void> {
+    const after = await getFieldByNodeId(before.nodeId);
+    const latestRecord = await getLatestGDDRecord(after.id);
+
+    if (!latestRecord) {
+        return;
+    }
+
+    broadcastStageTransition(
+        after,
+        (before.currentGrowthStage as GrowthStage | null) ?? GROWTH_STAGES.INITIAL,
+        (after.currentGrowthStage as GrowthStage | null) ?? GROWTH_STAGES.INITIAL,
+        after.accumulatedGDD,
+        latestRecord.date
+    );
+}
+
 /**
  * Recalculate GDD for date range (batch processing)
  */
@@ -227,13 +298,15 @@ export async function recalculateGDDRange(
         endDateOnly.setHours(0, 0, 0, 0);
 
         while (currentDate <= endDateOnly) {
-            const result = await calculateDailyGDD(nodeId, new Date(currentDate));
+            const result = await calculateDailyGDD(nodeId, new Date(currentDate), { broadcast: false });
             if (result) {
                 count++;
             }
             currentDate.setDate(currentDate.getDate() + 1);
         }
 
+        await broadcastNetTransition(field);
+
         logger.info({ nodeId, count }, 'GDD recalculation complete');
 
         return count;
@@ -285,12 +358,16 @@ export async function calculateMissingGDD(nodeId: number): Promise<number> {
         // Calculate missing
         let calculated = 0;
         for (const date of missingDates) {
-            const result = await calculateDailyGDD(nodeId, date);
+            const result = await calculateDailyGDD(nodeId, date, { broadcast: false });
             if (result) {
                 calculated++;
             }
         }
 
+        if (calculated > 0) {
+            await broadcastNetTransition(field);
+        }
+
         return calculated;
 
     } catch (error) {
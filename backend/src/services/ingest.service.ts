@@ -0,0 +1,167 @@
+// src/services/ingest.service.ts
+/**
+ * HTTP Batch Ingest Service
+ * Same validation and processing as MQTT, for gateways that upload buffered batches
+ */
+
+import type { z } from 'zod';
+import { createLogger } from '../config/logger.js';
+import { INGEST_CONSTANTS } from '../utils/constants.js';
+import { sensorPayloadSchema, weatherPayloadSchema } from '../models/payload.schemas.js';
+import { processSensorData } from './sensor/sensor.service.js';
+import { processWeatherData } from './weather/weatherReading.service.js';
+import { recordGatewayActivity } from './gateway/gateway.service.js';
+import type { IngestItemResult, IngestBatchResult } from '../models/common.types.js';
+import { AppError } from '../utils/errors.js';
+
+const logger = createLogger({ service: 'ingest' });
+
+export interface IngestBatchInput {
+    sensors: unknown[];
+    weather: unknown[];
+}
+
+/**
+ * Flatten zod issues into one message
+ */
+function formatIssues(error: z.ZodError): string {
+    return error.errors.map(e => `${e.path.join('.') || 'item'}: ${e.message}`).join('; ');
+}
+
+/**
+ * Check buffered timestamp is within accepted backdate/skew range
+ */
+function checkTimestamp(timestamp: Date, now: Date): string | null {
+    const oldest = now.getTime() - INGEST_CONSTANTS.MAX_BACKDATE_DAYS * 24 * 60 * 60 * 1000;
+    const newest = now.getTime() + INGEST_CONSTANTS.MAX_CLOCK_SKEW_MINUTES * 60 * 1000;
+
+    if (timestamp.getTime() < oldest) {
+        return `Timestamp older than ${INGEST_CONSTANTS.MAX_BACKDATE_DAYS} days`;
+    }
+    if (timestamp.getTime() > newest) {
+        return 'Timestamp is in the future';
+    }
+    return null;
+}
+
+/**
+ * Message safe to return to the gateway
+ */
+function itemError(error: unknown): string {
+    return error instanceof AppError && error.isOperational ? error.message : 'Internal error';
+}
+
+/**
+ * Validate and store a batch of sensor and weather payloads
+ * Items are processed oldest first so sequence tracking and lastSeen see buffered data in order
+ */
+export async function ingestBatch(gatewayId: string, batch: IngestBatchInput): Promise<IngestBatchResult> {
+    const now = new Date();
+    const results: IngestItemResult[] = [];
+
+    await recordGatewayActivity(gatewayId, now);
+
+    const receivedAt = (timestamp: string | undefined) => (timestamp ? Date.parse(timestamp) : now.getTime());
+
+    const sensorItems = batch.sensors.map((item, index) => {
+        const parsed = sensorPayloadSchema.safeParse(item);
+        return { index, parsed, at: parsed.success ? receivedAt(parsed.data.timestamp) : 0 };
+    });
+    const weatherItems = batch.weather.map((item, index) => {
+        const parsed = weatherPayloadSchema.safeParse(item);
+        return { index, parsed, at: parsed.success ? receivedAt(parsed.data.timestamp) : 0 };
+    });
+
+    for (const { index, parsed } of sensorItems.sort((a, b) => a.at - b.at)) {
+        if (!parsed.success) {
+            results.push({ type: 'sensor', index, status: 'rejected', error: formatIssues(parsed.error) });
+            continue;
+        }
+
+        const payload = parsed.data;
+        const timestamp = payload.timestamp ? new Date(payload.timestamp) : now;
+        const timestampError = checkTimestamp(timestamp, now);
+
+        if (timestampError) {
+            results.push({ type: 'sensor', index, status: 'rejected', nodeId: payload.nodeId, error: timestampError });
+            continue;
+        }
+
+        try {
+            const processed = await processSensorData({ ...payload, timestamp: timestamp.toISOString() });
+            results.push({
+                type: 'sensor',
+                index,
+                status: processed.duplicate
+                    ? 'duplicate'
+                    : processed.pending ? 'pending' : processed.lowBattery ? 'low_battery' : 'stored',
+                nodeId: payload.nodeId,
+                timestamp,
+            });
+        } catch (error) {
+            results.push({ type: 'sensor', index, status: 'rejected', nodeId: payload.nodeId, error: itemError(error) });
+        }
+    }
+
+    for (const { index, parsed } of weatherItems.sort((a, b) => a.at - b.at)) {
+        if (!parsed.success) {
+            results.push({ type: 'weather', index, status: 'rejected', error: formatIssues(parsed.error) });
+            continue;
+        }
+
+        const payload = parsed.data;
+        const timestamp = payload.timestamp ? new Date(payload.timestamp) : now;
+
+        // A gateway may only report its own weather station
+        if (payload.gatewayId !== gatewayId) {
+            results.push({
+                type: 'weather',
+                index,
+                status: 'rejected',
+                error: `gatewayId '${payload.gatewayId}' does not match authenticated gateway`,
+            });
+            continue;
+        }
+
+        const timestampError = checkTimestamp(timestamp, now);
+        if (timestampError) {
+            results.push({ type: 'weather', index, status: 'rejected', error: timestampError });
+            continue;
+        }
+
+        try {
+            await processWeatherData({ ...payload, timestamp: timestamp.toISOString() });
+            results.push({ type: 'weather', index, status: 'stored', timestamp });
+        } catch (error) {
+            results.push({ type: 'weather', index, status: 'rejected', error: itemError(error) });
+        }
+    }
+
+    results.sort((a, b) => (a.type === b.type ? a.index - b.index : a.type === 'sensor' ? -1 : 1));
+
+    const summary: IngestBatchResult = {
+        gatewayId,
+        received: results.length,
+        stored: results.filter(r => r.status === 'stored').length,
+        duplicates: results.filter(r => r.status === 'duplicate').length,
+        pending: results.filter(r => r.status === 'pending').length,
+        lowBattery: results.filter(r => r.status === 'low_battery').length,
+        rejected: results.filter(r => r.status === 'rejected').length,
+        results,
+    };
+
+    logger.info(
+        {
+            gatewayId,
+            received: summary.received,
+            stored: summary.stored,
+            duplicates: summary.duplicates,
+            pending: summary.pending,
+            lowBattery: summary.lowBattery,
+            rejected: summary.rejected,
+        },
+        'Ingest batch processed'
+    );
+
+    return summary;
+}
@@ -10,12 +10,34 @@ import {
     CROP_DATABASE,
     IRRIGATION_URGENCY,
     IRRIGATION_CONSTANTS,
+    IRRIGATION_EFFICIENCY,
+    INFILTRATION_WINDOW_HOURS,
+    REALTIME_EVENTS,
 } from '../../utils/constants.js';
-import type { SoilTexture, UPCropName, GrowthStage, IrrigationUrgency } from '../../utils/constants.js';
-import { getFieldByNodeId } from '../../repositories/field.repository.js';
-import { getLatestReading } from '../../repositories/sensor.repository.js';
+import type { SoilTexture, UPCropName, GrowthStage, IrrigationUrgency, IrrigationMethod } from '../../utils/constants.js';
+import {
+    getFieldByNodeId,
+    updateLastIrrigationCheck,
+    recordIrrigationAction,
+} from '../../repositories/field.repository.js';
+import {
+    createIrrigationLog,
+    createIrrigationEvent,
+    getIrrigationEvents,
+    getIrrigationLogById,
+    findPendingIrrigationLog,
+} from '../../repositories/irrigation.repository.js';
 import { isRainExpected, estimateDailyET } from '../weather/weather.sevice.js';
-import type { IrrigationDecision, SoilWaterBalance } from '../../models/common.types.js';
+import { estimateVWCFromWaterBalance, rebuildWaterBalance } from './waterBalance.service.js';
+import { calculateCropCoefficient } from '../crop/cropCoefficient.service.js';
+import { getEffectiveSoilReading } from '../field/fieldMoisture.service.js';
+import { broadcastEvent } from '../websocket.service.js';
+import type {
+    IrrigationDecision,
+    SoilWaterBalance,
+    IrrigationActionInput,
+    IrrigationActionResult,
+} from '../../models/common.types.js';
 import { NotFoundError, ValidationError } from '../../utils/errors.js';
 
 const logger = createLogger({ service: 'irrigation' });
@@ -23,7 +45,7 @@ const logger = createLogger({ service: 'irrigation' });
 /**
  * Calculate soil water balance
  */
-function calculateWaterBalance(
+export function calculateWaterBalance(
     soilTexture: SoilTexture,
     currentVWC: number,
     rootDepth: number,
@@ -87,7 +109,7 @@ function calculateIrrigationDepth(
  * Determine urgency level
  * ✅ FIXED: Proper logic to check optimal range first
  */
-function determineUrgency(
+export function determineUrgency(
     currentVWC: number,
     balance: SoilWaterBalance,
     cropParams: typeof CROP_DATABASE[UPCropName]
@@ -164,13 +186,31 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             throw new ValidationError(`Unknown crop type: ${field.cropType}`);
         }
 
-        // Get latest sensor reading
-        const reading = await getLatestReading(nodeId);
-        if (!reading || reading.soilMoistureVWC === null) {
-            throw new NotFoundError('SensorReading', `No valid VWC reading for nodeId=${nodeId}`);
+        // Get latest field-level reading, falling back to the water balance ledger if stale
+        const reading = await getEffectiveSoilReading(field);
+        const readingAgeHours = reading
+            ? (Date.now() - reading.timestamp.getTime()) / (60 * 60 * 1000)
+            : Infinity;
+
+        let currentVWC: number;
+        let vwcSource: IrrigationDecision['vwcSource'] = 'sensor';
+
+        if (reading && reading.soilMoistureVWC !== null && readingAgeHours <= IRRIGATION_CONSTANTS.STALE_READING_HOURS) {
+            currentVWC = reading.soilMoistureVWC;
+        } else {
+            const estimatedVWC = await estimateVWCFromWaterBalance(nodeId);
+
+            if (estimatedVWC !== null) {
+                currentVWC = estimatedVWC;
+                vwcSource = 'water_balance';
+                logger.info({ nodeId, readingAgeHours, estimatedVWC }, 'Sensor reading stale, using water balance estimate');
+            } else if (reading && reading.soilMoistureVWC !== null) {
+                currentVWC = reading.soilMoistureVWC;
+            } else {
+                throw new NotFoundError('SensorReading', `No valid VWC reading for nodeId=${nodeId}`);
+            }
         }
 
-        const currentVWC = reading.soilMoistureVWC;
         const soilTexture = field.soilTexture as SoilTexture;
         const growthStage = (field.currentGrowthStage as GrowthStage) || null;
 
@@ -222,6 +262,14 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             logger.warn({ error, nodeId }, 'Weather check failed, proceeding without adjustment');
         }
 
+        // Crop water use at current growth stage
+        const et0 = await estimateDailyET(field.latitude, field.longitude, field.gatewayId ?? undefined);
+        const { kc } = calculateCropCoefficient(
+            field.cropType as UPCropName,
+            field.accumulatedGDD,
+            field.expectedGDDTotal ?? undefined
+        );
+
         // Calculate irrigation depth
         const targetVWC = cropParams.vwcOptimal;
         const deficit = Math.max(0, targetVWC - currentVWC);
@@ -249,6 +297,29 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             decision = 'do_not_irrigate';
         }
 
+        // Suppress repeat irrigation while recently applied water is still infiltrating
+        const infiltrationHours = INFILTRATION_WINDOW_HOURS[soilTexture];
+        const infiltrationStart = new Date(Date.now() - infiltrationHours * 60 * 60 * 1000);
+        const [lastEvent] = await getIrrigationEvents(nodeId, infiltrationStart);
+
+        const recentIrrigation = lastEvent
+            ? {
+                appliedAt: lastEvent.appliedAt,
+                depthMm: lastEvent.depthMm,
+                method: lastEvent.method as IrrigationMethod,
+            }
+            : null;
+
+        let nextCheckHours = decision === 'irrigate_now' ? 6 : decision === 'irrigate_soon' ? 12 : 24;
+
+        const irrigationHeld = recentIrrigation !== null && decision !== 'do_not_irrigate';
+        if (irrigationHeld && recentIrrigation) {
+            decision = 'do_not_irrigate';
+
+            const hoursSince = (Date.now() - recentIrrigation.appliedAt.getTime()) / (60 * 60 * 1000);
+            nextCheckHours = Math.max(1, Math.ceil(infiltrationHours - hoursSince));
+        }
+
         // Generate reason
         const reason = generateReason(
             decision,
@@ -256,13 +327,30 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             targetVWC,
             balance,
             cropParams,
-            weatherAdjustment
+            weatherAdjustment,
+            irrigationHeld ? recentIrrigation : null
         );
 
-        // Next check hours
-        const nextCheckHours = decision === 'irrigate_now' ? 6 : decision === 'irrigate_soon' ? 12 : 24;
+        const timestamp = new Date();
+
+        // Persist decision for audit trail
+        const log = await createIrrigationLog({
+            nodeId,
+            currentVWC: Number(currentVWC.toFixed(1)),
+            targetVWC: Number(targetVWC.toFixed(1)),
+            cropType: field.cropType,
+            growthStage: growthStage ?? undefined,
+            shouldIrrigate: decision !== 'do_not_irrigate',
+            urgency: finalUrgency,
+            reason,
+            estimatedWaterNeeded: suggestedDepthMm,
+            timestamp,
+        });
+
+        await updateLastIrrigationCheck(nodeId);
 
         const result: IrrigationDecision = {
+            logId: log.id,
             nodeId,
             fieldName: field.fieldName,
             decision,
@@ -270,6 +358,7 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             urgencyScore: finalScore,
             reason,
             currentVWC: Number(currentVWC.toFixed(1)),
+            vwcSource,
             targetVWC: Number(targetVWC.toFixed(1)),
             deficit: Number(deficit.toFixed(1)),
             suggestedDepthMm,
@@ -277,15 +366,23 @@ export async function makeIrrigationDecision(nodeId: number): Promise<Irrigation
             cropType: field.cropType,
             growthStage,
             weatherAdjustment,
+            cropET: {
+                et0,
+                kc,
+                etc: Number((et0 * kc).toFixed(2)),
+            },
+            recentIrrigation,
             nextCheckHours,
-            timestamp: new Date(),
+            timestamp,
         };
 
         logger.info(
-            { nodeId, decision, urgency: finalUrgency, currentVWC, targetVWC },
+            { nodeId, logId: log.id, decision, urgency: finalUrgency, currentVWC, targetVWC },
             'Irrigation decision made'
         );
 
+        broadcastEvent(REALTIME_EVENTS.IRRIGATION_DECISION, { nodeId, fieldId: field.id }, result);
+
         return result;
 
     } catch (error) {
@@ -303,11 +400,17 @@ function generateReason(
     targetVWC: number,
     balance: SoilWaterBalance,
     cropParams: typeof CROP_DATABASE[UPCropName],
-    weatherAdjustment: string | null
+    weatherAdjustment: string | null,
+    heldBy: IrrigationDecision['recentIrrigation']
 ): string {
     const reasons: string[] = [];
 
-    if (decision === 'irrigate_now') {
+    if (heldBy) {
+        reasons.push(
+            `${heldBy.depthMm.toFixed(1)}mm applied by ${heldBy.method} at ` +
+            `${heldBy.appliedAt.toISOString()} - waiting for water to reach sensor depth`
+        );
+    } else if (decision === 'irrigate_now') {
         if (currentVWC < cropParams.vwcMin) {
             reasons.push(`Severe moisture deficit - irrigate immediately`);
             reasons.push(`Current VWC (${currentVWC.toFixed(1)}%) below crop minimum (${cropParams.vwcMin}%)`);
@@ -354,3 +457,88 @@ export async function getIrrigationRecommendations(nodeIds: number[]): Promise<I
 
     return decisions;
 }
+
+/**
+ * Record applied irrigation and link it to the matching decision
+ */
+export async function confirmIrrigationAction(
+    nodeId: number,
+    input: IrrigationActionInput
+): Promise<IrrigationActionResult> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        // Resolve applied depth: 1 L/m² = 1 mm
+        let depthMm: number;
+        if (input.depthMm !== undefined) {
+            depthMm = input.depthMm;
+        } else if (input.volumeLiters !== undefined && input.areaM2 !== undefined) {
+            depthMm = input.volumeLiters / input.areaM2;
+        } else {
+            throw new ValidationError('Either depthMm or volumeLiters with areaM2 is required');
+        }
+
+        // Link to explicit decision, or the latest pending irrigate decision
+        let irrigationLogId: number | undefined;
+        if (input.logId !== undefined) {
+            const log = await getIrrigationLogById(input.logId);
+            if (!log || log.nodeId !== nodeId) {
+                throw new NotFoundError('IrrigationLog', `id=${input.logId}, nodeId=${nodeId}`);
+            }
+            irrigationLogId = log.id;
+        } else {
+            const windowStart = new Date(
+                input.appliedAt.getTime() - IRRIGATION_CONSTANTS.ACTION_MATCH_WINDOW_HOURS * 60 * 60 * 1000
+            );
+            const pending = await findPendingIrrigationLog(nodeId, windowStart, input.appliedAt);
+            irrigationLogId = pending?.id;
+        }
+
+        const effectiveDepthMm = depthMm * IRRIGATION_EFFICIENCY[input.method];
+
+        const event = await createIrrigationEvent({
+            nodeId,
+            irrigationLogId,
+            appliedAt: input.appliedAt,
+            method: input.method,
+            depthMm: Number(depthMm.toFixed(1)),
+            volumeLiters: input.volumeLiters,
+            effectiveDepthMm: Number(effectiveDepthMm.toFixed(1)),
+            notes: input.notes,
+        });
+
+        if (!field.lastIrrigationAction || field.lastIrrigationAction < input.appliedAt) {
+            await recordIrrigationAction(nodeId, input.appliedAt);
+        }
+
+        // Feed applied water into the ledger from the application day onward
+        if (field.cropConfirmed && field.sowingDate) {
+            try {
+                await rebuildWaterBalance(nodeId, input.appliedAt);
+            } catch (error) {
+                logger.warn({ error, nodeId }, 'Water balance update after irrigation failed');
+            }
+        }
+
+        logger.info(
+            { nodeId, eventId: event.id, irrigationLogId, depthMm, method: input.method },
+            'Irrigation action recorded'
+        );
+
+        return {
+            eventId: event.id,
+            nodeId,
+            irrigationLogId: event.irrigationLogId,
+            appliedAt: event.appliedAt,
+            method: input.method,
+            depthMm: event.depthMm,
+            volumeLiters: event.volumeLiters,
+            effectiveDepthMm: event.effectiveDepthMm,
+            infiltrationWindowHours: INFILTRATION_WINDOW_HOURS[field.soilTexture as SoilTexture],
+        };
+
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to record irrigation action');
+        throw error;
+    }
+}
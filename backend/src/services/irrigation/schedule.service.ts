@@ -0,0 +1,163 @@
+// src/services/irrigation/schedule.service.ts
+/**
+ * Irrigation Schedule Forecaster
+ * Projects root-zone depletion over the forecast window using
+ * forecast ET0 × Kc and rainfall, planning a refill whenever
+ * depletion would cross RAW
+ */
+
+import { createLogger } from '../../config/logger.js';
+import {
+    CROP_DATABASE,
+    IRRIGATION_CONSTANTS,
+    IRRIGATION_EFFICIENCY,
+    APPLICATION_RATE_MM_PER_HOUR,
+} from '../../utils/constants.js';
+import type { SoilTexture, UPCropName, IrrigationMethod } from '../../utils/constants.js';
+import { getFieldByNodeId } from '../../repositories/field.repository.js';
+import { getEffectiveSoilReading } from '../field/fieldMoisture.service.js';
+import { getET0Series } from '../weather/weather.sevice.js';
+import { calculateCropCoefficient } from '../crop/cropCoefficient.service.js';
+import { getRootZoneCapacity, estimateVWCFromWaterBalance } from './waterBalance.service.js';
+import type { IrrigationSchedule, IrrigationScheduleDay } from '../../models/common.types.js';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'irrigation-schedule' });
+
+/**
+ * Build multi-day irrigation schedule for field
+ */
+export async function getIrrigationSchedule(
+    nodeId: number,
+    method: IrrigationMethod = 'drip'
+): Promise<IrrigationSchedule> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        if (!field.cropType || !field.cropConfirmed) {
+            throw new ValidationError('Field must have confirmed crop for irrigation schedule');
+        }
+
+        const cropType = field.cropType as UPCropName;
+        const cropParams = CROP_DATABASE[cropType];
+        if (!cropParams) {
+            throw new ValidationError(`Unknown crop type: ${field.cropType}`);
+        }
+
+        const capacity = getRootZoneCapacity(field.soilTexture as SoilTexture, cropType);
+
+        // Starting point: fresh field-level reading, else water balance ledger
+        const reading = await getEffectiveSoilReading(field);
+        const readingAgeHours = reading
+            ? (Date.now() - reading.timestamp.getTime()) / (60 * 60 * 1000)
+            : Infinity;
+
+        let startVWC: number;
+        let vwcSource: IrrigationSchedule['vwcSource'] = 'sensor';
+
+        if (reading && reading.soilMoistureVWC !== null && readingAgeHours <= IRRIGATION_CONSTANTS.STALE_READING_HOURS) {
+            startVWC = reading.soilMoistureVWC;
+        } else {
+            const estimatedVWC = await estimateVWCFromWaterBalance(nodeId);
+            if (estimatedVWC === null) {
+                throw new NotFoundError('SensorReading', `No recent VWC reading or water balance for nodeId=${nodeId}`);
+            }
+            startVWC = estimatedVWC;
+            vwcSource = 'water_balance';
+        }
+
+        let depletion = Math.min(
+            capacity.taw,
+            Math.max(0, ((capacity.fieldCapacity - startVWC) / 100) * capacity.rootDepthMm)
+        );
+        const startDepletion = depletion;
+
+        const series = await getET0Series(field.latitude, field.longitude, field.gatewayId ?? undefined);
+        const baseTemp = field.baseTemperature ?? cropParams.baseTemperature;
+        const totalGDD = field.expectedGDDTotal ?? undefined;
+        let cumulativeGDD = field.accumulatedGDD;
+
+        const efficiency = IRRIGATION_EFFICIENCY[method];
+        const days: IrrigationScheduleDay[] = [];
+
+        for (const day of series) {
+            // Advance crop stage with forecast heat units
+            const coefficient = calculateCropCoefficient(cropType, cumulativeGDD, totalGDD);
+            const etc = day.et0 * coefficient.kc;
+            const rainfall = day.precipitation;
+
+            const depletionStart = depletion;
+            let projected = Math.max(0, depletionStart - rainfall + etc);
+
+            // Refill to field capacity on the day depletion would cross RAW
+            let netDepthMm = 0;
+            if (projected > capacity.raw) {
+                netDepthMm = Math.min(
+                    IRRIGATION_CONSTANTS.MAX_IRRIGATION_DEPTH_MM,
+                    Math.max(IRRIGATION_CONSTANTS.MIN_IRRIGATION_DEPTH_MM, projected)
+                );
+                projected = Math.max(0, projected - netDepthMm);
+            }
+
+            const grossDepthMm = netDepthMm / efficiency;
+
+            days.push({
+                date: day.date,
+                et0: day.et0,
+                kc: coefficient.kc,
+                etc: Number(etc.toFixed(2)),
+                rainfall,
+                growthStage: coefficient.growthStage,
+                depletionStartMm: Number(depletionStart.toFixed(1)),
+                depletionEndMm: Number(projected.toFixed(1)),
+                projectedVWC: Number(
+                    (capacity.fieldCapacity - (projected / capacity.rootDepthMm) * 100).toFixed(1)
+                ),
+                irrigation: netDepthMm > 0
+                    ? {
+                        netDepthMm: Number(netDepthMm.toFixed(1)),
+                        grossDepthMm: Number(grossDepthMm.toFixed(1)),
+                        durationMin: Math.ceil((grossDepthMm / APPLICATION_RATE_MM_PER_HOUR[method]) * 60),
+                    }
+                    : null,
+            });
+
+            depletion = projected;
+            cumulativeGDD += Math.max(0, (day.tempMin + day.tempMax) / 2 - baseTemp);
+        }
+
+        const planned = days.filter(d => d.irrigation !== null);
+
+        logger.info(
+            { nodeId, days: days.length, plannedIrrigations: planned.length, method },
+            'Irrigation schedule projected'
+        );
+
+        return {
+            nodeId,
+            fieldName: field.fieldName,
+            cropType,
+            method,
+            vwcSource,
+            startVWC: Number(startVWC.toFixed(1)),
+            startDepletionMm: Number(startDepletion.toFixed(1)),
+            taw: Number(capacity.taw.toFixed(1)),
+            raw: Number(capacity.raw.toFixed(1)),
+            plannedIrrigations: planned.map(d => ({
+                date: d.date,
+                netDepthMm: d.irrigation?.netDepthMm ?? 0,
+                grossDepthMm: d.irrigation?.grossDepthMm ?? 0,
+                durationMin: d.irrigation?.durationMin ?? 0,
+            })),
+            totalGrossDepthMm: Number(
+                planned.reduce((sum, d) => sum + (d.irrigation?.grossDepthMm ?? 0), 0).toFixed(1)
+            ),
+            days,
+            timestamp: new Date(),
+        };
+
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to build irrigation schedule');
+        throw error;
+    }
+}
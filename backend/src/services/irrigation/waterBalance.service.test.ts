@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../repositories/field.repository.js', () => ({ getFieldByNodeId: vi.fn() }));
+vi.mock('../../repositories/sensor.repository.js', () => ({ getReadingsForDate: vi.fn() }));
+vi.mock('../../repositories/aggregatedReading.repository.js', () => ({ getAggregatedReadingsForDate: vi.fn() }));
+vi.mock('../../repositories/irrigation.repository.js', () => ({ getIrrigationEvents: vi.fn() }));
+vi.mock('../../repositories/gdd.repository.js', () => ({
+    getGDDRecordForDate: vi.fn(),
+    getGDDRecordOnOrBefore: vi.fn(),
+}));
+vi.mock('../../repositories/waterBalance.repository.js', () => ({
+    upsertWaterBalanceRecord: vi.fn(),
+    getWaterBalanceRecordForDate: vi.fn(),
+    getLatestWaterBalanceRecord: vi.fn(),
+    getWaterBalanceRecords: vi.fn(),
+    setObservedRainfall: vi.fn(),
+}));
+vi.mock('../weather/weather.sevice.js', () => ({
+    getWeatherForecast: vi.fn(),
+    estimateDailyET: vi.fn(),
+}));
+
+import { computeDailyBalance, rebuildWaterBalance } from './waterBalance.service.js';
+import { getFieldByNodeId } from '../../repositories/field.repository.js';
+import { getReadingsForDate } from '../../repositories/sensor.repository.js';
+import { getAggregatedReadingsForDate } from '../../repositories/aggregatedReading.repository.js';
+import { getIrrigationEvents } from '../../repositories/irrigation.repository.js';
+import { upsertWaterBalanceRecord, getWaterBalanceRecordForDate } from '../../repositories/waterBalance.repository.js';
+import { getWeatherForecast, estimateDailyET } from '../weather/weather.sevice.js';
+
+type Field = Awaited<ReturnType<typeof getFieldByNodeId>>;
+type NodeReading = Awaited<ReturnType<typeof getReadingsForDate>>[number];
+type Aggregate = Awaited<ReturnType<typeof getAggregatedReadingsForDate>>[number];
+type LedgerRecord = NonNullable<Awaited<ReturnType<typeof getWaterBalanceRecordForDate>>>;
+
+const today = new Date(2026, 5, 10, 12);
+
+const field = {
+    id: 3,
+    nodeId: 1,
+    gatewayId: null,
+    latitude: 26.8,
+    longitude: 80.9,
+    soilTexture: 'LOAM',
+    cropType: 'wheat',
+    cropConfirmed: true,
+    sowingDate: new Date(2026, 5, 10),
+    expectedGDDTotal: 1800,
+    accumulatedGDD: 0,
+} as Field;
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(today);
+
+    vi.mocked(getFieldByNodeId).mockResolvedValue(field);
+    vi.mocked(getWeatherForecast).mockResolvedValue({ forecast: [] } as unknown as Awaited<ReturnType<typeof getWeatherForecast>>);
+    vi.mocked(estimateDailyET).mockResolvedValue(5);
+    vi.mocked(getIrrigationEvents).mockResolvedValue([]);
+    vi.mocked(getAggregatedReadingsForDate).mockResolvedValue([]);
+    vi.mocked(getReadingsForDate).mockResolvedValue([]);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+const upserted = () => vi.mocked(upsertWaterBalanceRecord).mock.calls.map(([input]) => input);
+
+describe('computeDailyBalance', () => {
+    it('adds crop ET to the carried depletion', () => {
+        expect(computeDailyBalance(10, 0, 0, 5, null, 100)).toEqual({ depletionEnd: 15, deepPercolation: 0, correction: 0 });
+    });
+
+    it('offsets ET with rain and irrigation', () => {
+        expect(computeDailyBalance(40, 10, 20, 5, null, 100)).toMatchObject({ depletionEnd: 15, deepPercolation: 0 });
+    });
+
+    it('drains water beyond field capacity as deep percolation', () => {
+        expect(computeDailyBalance(10, 30, 0, 5, null, 100)).toEqual({ depletionEnd: 0, deepPercolation: 15, correction: 0 });
+    });
+
+    it('caps depletion at TAW', () => {
+        expect(computeDailyBalance(95, 0, 0, 10, null, 100)).toMatchObject({ depletionEnd: 100 });
+    });
+
+    it('lets a measured depletion override the model and reports the correction', () => {
+        expect(computeDailyBalance(10, 0, 0, 5, 25, 100)).toEqual({ depletionEnd: 25, deepPercolation: 0, correction: 10 });
+        expect(computeDailyBalance(10, 0, 0, 5, 8, 100)).toMatchObject({ depletionEnd: 8, correction: -7 });
+    });
+});
+
+describe('rebuildWaterBalance', () => {
+    it('corrects towards the field aggregate on multi-node days, not the primary node', async () => {
+        vi.mocked(getAggregatedReadingsForDate).mockResolvedValue([
+            { soilMoistureVWC: 20 },
+            { soilMoistureVWC: 22 },
+        ] as Aggregate[]);
+        vi.mocked(getReadingsForDate).mockResolvedValue([{ soilMoistureVWC: 30 }] as NodeReading[]);
+
+        await rebuildWaterBalance(1);
+
+        expect(upserted()[0]).toMatchObject({ measuredVWC: 21 });
+        expect(getReadingsForDate).not.toHaveBeenCalled();
+    });
+
+    it('uses the primary node readings on days without field aggregates', async () => {
+        vi.mocked(getReadingsForDate).mockResolvedValue([
+            { soilMoistureVWC: 24 },
+            { soilMoistureVWC: 26 },
+        ] as NodeReading[]);
+
+        await rebuildWaterBalance(1);
+
+        expect(getReadingsForDate).toHaveBeenCalledWith(1, expect.any(Date));
+        expect(upserted()[0]).toMatchObject({ measuredVWC: 25 });
+    });
+
+    it('carries depletion from day to day', async () => {
+        vi.mocked(getFieldByNodeId).mockResolvedValue({ ...field, sowingDate: new Date(2026, 5, 8) });
+
+        await rebuildWaterBalance(1);
+
+        const days = upserted();
+        expect(days).toHaveLength(3);
+        expect(days[0]).toMatchObject({ depletionStartMm: 0 });
+        expect(days[1]!.depletionStartMm).toBe(days[0]!.depletionEndMm);
+        expect(days[2]!.depletionStartMm).toBe(days[1]!.depletionEndMm);
+        expect(days[2]!.depletionEndMm).toBeGreaterThan(0);
+    });
+
+    it('resumes from the previous day written to the ledger', async () => {
+        vi.mocked(getFieldByNodeId).mockResolvedValue({ ...field, sowingDate: new Date(2026, 5, 1) });
+        vi.mocked(getWaterBalanceRecordForDate).mockImplementation(async (_fieldId, date) =>
+            date.getDate() === 9 ? ({ depletionEndMm: 42 } as LedgerRecord) : null
+        );
+
+        await rebuildWaterBalance(1, new Date(2026, 5, 10));
+
+        expect(upserted()).toHaveLength(1);
+        expect(upserted()[0]).toMatchObject({ depletionStartMm: 42 });
+    });
+
+    it('restarts at field capacity after a ledger gap', async () => {
+        vi.mocked(getFieldByNodeId).mockResolvedValue({ ...field, sowingDate: new Date(2026, 5, 1) });
+        vi.mocked(getWaterBalanceRecordForDate).mockResolvedValue(null);
+
+        await rebuildWaterBalance(1, new Date(2026, 5, 10));
+
+        expect(upserted()[0]).toMatchObject({ depletionStartMm: 0 });
+    });
+});
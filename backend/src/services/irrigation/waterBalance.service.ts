@@ -0,0 +1,365 @@
+// src/services/irrigation/waterBalance.service.ts
+/**
+ * Soil Water Balance Ledger Service
+ * Daily FAO-56 root-zone depletion (Chapter 8, Eq. 85):
+ *   Dr,i = Dr,i-1 - P - I + ETc + DP
+ * Corrected towards the field's measured VWC whenever readings exist
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { CROP_DATABASE, SOIL_WATER_CONSTANTS } from '../../utils/constants.js';
+import type { SoilTexture, UPCropName } from '../../utils/constants.js';
+import { getFieldByNodeId } from '../../repositories/field.repository.js';
+import { getReadingsForDate } from '../../repositories/sensor.repository.js';
+import { getAggregatedReadingsForDate } from '../../repositories/aggregatedReading.repository.js';
+import { getIrrigationEvents } from '../../repositories/irrigation.repository.js';
+import { getGDDRecordForDate, getGDDRecordOnOrBefore } from '../../repositories/gdd.repository.js';
+import {
+    upsertWaterBalanceRecord,
+    getWaterBalanceRecordForDate,
+    getLatestWaterBalanceRecord,
+    getWaterBalanceRecords,
+    setObservedRainfall,
+} from '../../repositories/waterBalance.repository.js';
+import type { RainfallSource } from '../../repositories/waterBalance.repository.js';
+import { getWeatherForecast, estimateDailyET } from '../weather/weather.sevice.js';
+import { calculateCropCoefficient } from '../crop/cropCoefficient.service.js';
+import type { WaterBalanceLedger } from '../../models/common.types.js';
+import { getStartOfDay, getEndOfDay, getDateRange, formatISODate, isToday } from '../../utils/dateHelpers.js';
+import { ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'water-balance' });
+
+type Field = Awaited<ReturnType<typeof getFieldByNodeId>>;
+
+/**
+ * Root-zone water holding capacity for field's soil and crop
+ */
+export function getRootZoneCapacity(soilTexture: SoilTexture, cropType: UPCropName) {
+    const soilParams = SOIL_WATER_CONSTANTS[soilTexture];
+    const cropParams = CROP_DATABASE[cropType];
+
+    if (!soilParams) {
+        throw new ValidationError(`Invalid soil texture: ${soilTexture}`);
+    }
+
+    const rootDepthMm = cropParams.rootDepth * 10;
+    const taw = ((soilParams.FIELD_CAPACITY - soilParams.WILTING_POINT) / 100) * rootDepthMm;
+
+    return {
+        fieldCapacity: soilParams.FIELD_CAPACITY,
+        rootDepthMm,
+        taw,
+        raw: taw * cropParams.mad, // RAW = p × TAW (FAO-56 Eq. 83)
+    };
+}
+
+/**
+ * Single-day depletion update, clamped to [0, TAW]
+ * A measured depletion replaces the modelled one; the difference is the correction
+ */
+export function computeDailyBalance(
+    depletionStart: number,
+    rainfallMm: number,
+    irrigationMm: number,
+    etcMm: number,
+    measuredDepletion: number | null,
+    taw: number
+) {
+    const waterIn = rainfallMm + irrigationMm;
+
+    // Water beyond field capacity drains below the root zone
+    const deepPercolation = Math.max(0, waterIn - etcMm - depletionStart);
+
+    const modelled = Math.min(
+        taw,
+        Math.max(0, depletionStart - waterIn + etcMm + deepPercolation)
+    );
+
+    if (measuredDepletion === null) {
+        return { depletionEnd: modelled, deepPercolation, correction: 0 };
+    }
+
+    return {
+        depletionEnd: measuredDepletion,
+        deepPercolation,
+        correction: measuredDepletion - modelled,
+    };
+}
+
+/**
+ * Mean VWC measured in the field on a day
+ * Multi-node days use the stored field aggregates, matching irrigation decisions;
+ * days without aggregates (single-node field) use the primary node's readings
+ */
+async function getMeasuredVWC(field: Field, date: Date): Promise<number | null> {
+    const aggregates = await getAggregatedReadingsForDate(field.id, date);
+    const readings = aggregates.length > 0 ? aggregates : await getReadingsForDate(field.nodeId, date);
+    const values = readings
+        .map(r => r.soilMoistureVWC)
+        .filter((v): v is number => v !== null);
+
+    if (values.length === 0) {
+        return null;
+    }
+
+    return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Effective irrigation applied on a day (mm)
+ */
+async function getAppliedIrrigation(nodeId: number, date: Date): Promise<number> {
+    const events = await getIrrigationEvents(nodeId, getStartOfDay(date), getEndOfDay(date));
+    return events.reduce((sum, e) => sum + e.effectiveDepthMm, 0);
+}
+
+/**
+ * Forecast rainfall by date, empty if weather unavailable
+ */
+async function getForecastRainfall(field: Field): Promise<Map<string, number>> {
+    try {
+        const forecast = await getWeatherForecast(field.latitude, field.longitude);
+        return new Map(forecast.forecast.map(day => [day.date, day.precipitation]));
+    } catch (error) {
+        logger.warn({ error, nodeId: field.nodeId }, 'Forecast unavailable, assuming no rain');
+        return new Map();
+    }
+}
+
+/**
+ * Recompute ledger from a date through today
+ * Stored rainfall and ET0 for past days are kept; irrigation and
+ * sensor correction are re-read so backdated inputs flow forward
+ */
+export async function rebuildWaterBalance(nodeId: number, fromDate?: Date): Promise<number> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        if (!field.cropConfirmed || !field.cropType || !field.sowingDate) {
+            throw new ValidationError('Field must have confirmed crop for water balance');
+        }
+
+        const cropType = field.cropType as UPCropName;
+        const capacity = getRootZoneCapacity(field.soilTexture as SoilTexture, cropType);
+
+        const sowingDate = getStartOfDay(field.sowingDate);
+        const startDate = fromDate && fromDate > sowingDate ? getStartOfDay(fromDate) : sowingDate;
+        const today = getStartOfDay(new Date());
+
+        if (startDate > today) {
+            return 0;
+        }
+
+        // Carry depletion from the day before; season starts at field capacity.
+        // A gap (previous day never written) also restarts at field capacity: the
+        // missing days' inputs are unknown, and the next measured day corrects it
+        const previousDay = new Date(startDate);
+        previousDay.setDate(previousDay.getDate() - 1);
+        const previousRecord = startDate > sowingDate
+            ? await getWaterBalanceRecordForDate(field.id, previousDay)
+            : null;
+        let depletion = previousRecord?.depletionEndMm ?? 0;
+
+        const forecastRain = await getForecastRainfall(field);
+        const currentET0 = await estimateDailyET(field.latitude, field.longitude, field.gatewayId ?? undefined);
+
+        const dates = getDateRange(startDate, today);
+        const totalGDD = field.expectedGDDTotal ?? undefined;
+        let cumulativeGDD = (await getGDDRecordOnOrBefore(field.id, startDate))?.cumulativeGDD ?? 0;
+
+        for (const date of dates) {
+            // Kc follows GDD progress; days without a GDD record keep the last known value
+            const gddRecord = isToday(date) ? null : await getGDDRecordForDate(field.id, date);
+            if (isToday(date)) {
+                cumulativeGDD = field.accumulatedGDD;
+            } else if (gddRecord) {
+                cumulativeGDD = gddRecord.cumulativeGDD;
+            }
+            const coefficient = calculateCropCoefficient(cropType, cumulativeGDD, totalGDD);
+
+            const existing = await getWaterBalanceRecordForDate(field.id, date);
+            const refreshInputs = !existing || isToday(date);
+
+            // Rainfall: observed values always win, forecast refreshed for today
+            let rainfallMm = existing?.rainfallMm ?? 0;
+            let rainfallSource = (existing?.rainfallSource ?? 'none') as RainfallSource;
+            if (refreshInputs && rainfallSource !== 'observed') {
+                const forecastMm = forecastRain.get(formatISODate(date));
+                rainfallMm = forecastMm ?? 0;
+                rainfallSource = forecastMm !== undefined ? 'forecast' : 'none';
+            }
+
+            // Past days missing from ledger fall back to current ET0 estimate
+            const et0Mm = refreshInputs ? currentET0 : existing.et0Mm;
+            const kc = coefficient.kc;
+            const etcMm = et0Mm * kc;
+
+            const irrigationMm = await getAppliedIrrigation(nodeId, date);
+
+            const measuredVWC = await getMeasuredVWC(field, date);
+            const measuredDepletion = measuredVWC !== null
+                ? Math.min(
+                    capacity.taw,
+                    Math.max(0, ((capacity.fieldCapacity - measuredVWC) / 100) * capacity.rootDepthMm)
+                )
+                : null;
+
+            const result = computeDailyBalance(
+                depletion,
+                rainfallMm,
+                irrigationMm,
+                etcMm,
+                measuredDepletion,
+                capacity.taw
+            );
+
+            await upsertWaterBalanceRecord({
+                fieldId: field.id,
+                date,
+                rainfallMm: Number(rainfallMm.toFixed(1)),
+                rainfallSource,
+                irrigationMm: Number(irrigationMm.toFixed(1)),
+                et0Mm: Number(et0Mm.toFixed(2)),
+                kc: Number(kc.toFixed(2)),
+                etcMm: Number(etcMm.toFixed(2)),
+                deepPercolationMm: Number(result.deepPercolation.toFixed(1)),
+                depletionStartMm: Number(depletion.toFixed(1)),
+                depletionEndMm: Number(result.depletionEnd.toFixed(1)),
+                measuredVWC: measuredVWC !== null ? Number(measuredVWC.toFixed(1)) : undefined,
+                measuredDepletionMm: measuredDepletion !== null ? Number(measuredDepletion.toFixed(1)) : undefined,
+                correctionMm: Number(result.correction.toFixed(1)),
+                tawMm: Number(capacity.taw.toFixed(1)),
+                rawMm: Number(capacity.raw.toFixed(1)),
+                cropType,
+                growthStage: coefficient.growthStage,
+            });
+
+            depletion = result.depletionEnd;
+        }
+
+        logger.info({ nodeId, from: startDate, days: dates.length }, 'Water balance ledger updated');
+
+        return dates.length;
+
+    } catch (error) {
+        logger.error({ error, nodeId, fromDate }, 'Failed to rebuild water balance');
+        throw error;
+    }
+}
+
+/**
+ * Extend ledger from its latest entry through today
+ */
+export async function updateWaterBalance(nodeId: number): Promise<number> {
+    const field = await getFieldByNodeId(nodeId);
+    const latest = await getLatestWaterBalanceRecord(field.id);
+
+    // Recompute the latest day as well - it was written with partial data
+    return rebuildWaterBalance(nodeId, latest?.date);
+}
+
+/**
+ * Record rain gauge observation and propagate forward
+ */
+export async function recordObservedRainfall(
+    nodeId: number,
+    date: Date,
+    rainfallMm: number
+): Promise<number> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        await updateWaterBalance(nodeId);
+
+        const updated = await setObservedRainfall(field.id, date, rainfallMm);
+        if (updated === 0) {
+            throw new ValidationError('Date is outside the water balance ledger (before sowing or in the future)', {
+                date: formatISODate(date),
+            });
+        }
+
+        logger.info({ nodeId, date, rainfallMm }, 'Observed rainfall recorded');
+
+        return await rebuildWaterBalance(nodeId, date);
+
+    } catch (error) {
+        logger.error({ error, nodeId, date }, 'Failed to record observed rainfall');
+        throw error;
+    }
+}
+
+/**
+ * Get ledger for date range with current status
+ */
+export async function getWaterBalanceLedger(
+    nodeId: number,
+    startDate: Date,
+    endDate: Date
+): Promise<WaterBalanceLedger> {
+    try {
+        const field = await getFieldByNodeId(nodeId);
+
+        if (!field.cropConfirmed || !field.cropType) {
+            throw new ValidationError('Field must have confirmed crop for water balance');
+        }
+
+        const capacity = getRootZoneCapacity(field.soilTexture as SoilTexture, field.cropType as UPCropName);
+        const records = await getWaterBalanceRecords(field.id, startDate, endDate);
+        const latest = await getLatestWaterBalanceRecord(field.id);
+
+        const currentDepletion = latest?.depletionEndMm ?? null;
+
+        return {
+            fieldId: field.id,
+            nodeId,
+            cropType: field.cropType,
+            soilTexture: field.soilTexture as SoilTexture,
+            rootDepthMm: capacity.rootDepthMm,
+            taw: Number(capacity.taw.toFixed(1)),
+            raw: Number(capacity.raw.toFixed(1)),
+            current: latest && currentDepletion !== null
+                ? {
+                    date: latest.date,
+                    depletionMm: currentDepletion,
+                    depletionPercent: Number(((currentDepletion / capacity.taw) * 100).toFixed(1)),
+                    belowRAW: currentDepletion > capacity.raw,
+                    estimatedVWC: Number(
+                        (capacity.fieldCapacity - (currentDepletion / capacity.rootDepthMm) * 100).toFixed(1)
+                    ),
+                }
+                : null,
+            records,
+        };
+
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to get water balance ledger');
+        throw error;
+    }
+}
+
+/**
+ * Estimate current root-zone VWC from the ledger
+ * Used when the node has missed its readings
+ */
+export async function estimateVWCFromWaterBalance(nodeId: number): Promise<number | null> {
+    try {
+        await updateWaterBalance(nodeId);
+
+        const field = await getFieldByNodeId(nodeId);
+        const latest = await getLatestWaterBalanceRecord(field.id);
+
+        if (!latest || !isToday(latest.date) || !field.cropType) {
+            return null;
+        }
+
+        const capacity = getRootZoneCapacity(field.soilTexture as SoilTexture, field.cropType as UPCropName);
+        const vwc = capacity.fieldCapacity - (latest.depletionEndMm / capacity.rootDepthMm) * 100;
+
+        return Number(vwc.toFixed(1));
+
+    } catch (error) {
+        logger.warn({ error, nodeId }, 'Water balance VWC estimate unavailable');
+        return null;
+    }
+}
@@ -7,56 +7,15 @@ import { z } from 'zod';
 import { MQTT_CONFIG, MQTT_TOPICS } from '../config/mqtt.config.js';
 import { createLogger } from '../config/logger.js';
 import { processSensorData } from './sensor/sensor.service.js';
-import { createWeatherReading } from '../repositories/weather.repository.js';
+import { processRawFrame } from './sensor/rawFrame.service.js';
+import { processWeatherData } from './weather/weatherReading.service.js';
+import { sensorPayloadSchema, weatherPayloadSchema } from '../models/payload.schemas.js';
 import type { SensorPayload, WeatherPayload } from '../models/common.types.js';
 
 const logger = createLogger({ service: 'mqtt' });
 
 let client: mqtt.MqttClient | null = null;
 
-// Validation schemas
-const sensorPayloadSchema = z.object({
-    nodeId: z.number().int().positive(),
-    moisture: z.number().int().min(0).max(1000),
-    temperature: z.number().int().min(-100).max(600),
-    rssi: z.number().int().min(-120).max(0).optional(),
-    batteryLevel: z.number().int().min(0).max(100).optional(),
-    timestamp: z.string().optional(),
-});
-
-const weatherPayloadSchema = z.object({
-    gatewayId: z.string().min(1),
-    airTemperature: z.number().min(-20).max(60),
-    humidity: z.number().min(0).max(100),
-    pressure: z.number().positive().optional(),
-    timestamp: z.string().optional(),
-});
-
-/**
- * Process weather data from gateway
- */
-async function processWeatherData(payload: WeatherPayload): Promise<void> {
-    try {
-        const timestamp = payload.timestamp ? new Date(payload.timestamp) : new Date();
-
-        await createWeatherReading({
-            gatewayId: payload.gatewayId,
-            airTemperature: payload.airTemperature,
-            humidity: payload.humidity,
-            pressure: payload.pressure,
-            timestamp,
-        });
-
-        logger.info(
-            { gatewayId: payload.gatewayId, airTemp: payload.airTemperature },
-            'Weather data processed'
-        );
-    } catch (error) {
-        logger.error({ error, payload }, 'Failed to process weather data');
-        throw error;
-    }
-}
-
 /**
  * Initialize MQTT connection
  */
@@ -91,10 +50,26 @@ export function initializeMQTT(): void {
                 logger.info({ topic: weatherTopic }, 'Subscribed to weather data');
             }
         });
+
+        // Subscribe to raw LoRa frames forwarded by gateways
+        client?.subscribe(MQTT_TOPICS.GATEWAY_RAW, { qos: 1 }, (err) => {
+            if (err) {
+                logger.error({ err }, 'Failed to subscribe to raw frame topic');
+            } else {
+                logger.info({ topic: MQTT_TOPICS.GATEWAY_RAW }, 'Subscribed to raw frames');
+            }
+        });
     });
 
     client.on('message', async (topic: string, message: Buffer) => {
         try {
+            // Raw frames are hex/base64 text, not necessarily JSON
+            if (topic.startsWith('wusn/gateway/') && topic.endsWith('/raw')) {
+                const gatewayId = topic.split('/')[2] ?? 'unknown';
+                await processRawFrame(gatewayId, message.toString());
+                return;
+            }
+
             const payload = JSON.parse(message.toString());
             logger.debug({ topic, payload }, 'Message received');
 
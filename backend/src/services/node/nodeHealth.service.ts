@@ -0,0 +1,153 @@
+// src/services/node/nodeHealth.service.ts
+/**
+ * Node Health Service
+ * Battery trend, RSSI statistics, packet delivery and sequence counters
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { NODE_CONSTANTS } from '../../utils/constants.js';
+import { getNodeByNodeId } from '../../repositories/node.repository.js';
+import { getNodeTelemetry } from '../../repositories/sensor.repository.js';
+import type { NodeHealth } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'node-health' });
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Least-squares slope of battery % against time (% per day)
+ */
+function calculateBatterySlope(points: Array<{ time: number; level: number }>): number | null {
+    if (points.length < 2) {
+        return null;
+    }
+
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.time, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.level, 0) / n;
+
+    let covariance = 0;
+    let variance = 0;
+    for (const p of points) {
+        covariance += (p.time - meanX) * (p.level - meanY);
+        variance += (p.time - meanX) ** 2;
+    }
+
+    if (variance === 0) {
+        return null;
+    }
+
+    return (covariance / variance) * MS_PER_DAY;
+}
+
+/**
+ * Get health summary for node
+ */
+export async function getNodeHealth(
+    nodeId: number,
+    windowDays: number = NODE_CONSTANTS.HEALTH_WINDOW_DAYS
+): Promise<NodeHealth> {
+    try {
+        const node = await getNodeByNodeId(nodeId);
+
+        const now = Date.now();
+        const since = new Date(now - windowDays * MS_PER_DAY);
+        const telemetry = await getNodeTelemetry(nodeId, since);
+
+        // Battery
+        const batteryPoints = telemetry
+            .filter(r => r.batteryLevel !== null)
+            .map(r => ({ time: r.timestamp.getTime(), level: r.batteryLevel as number }));
+
+        const currentBattery = batteryPoints.length > 0
+            ? batteryPoints[batteryPoints.length - 1]!.level
+            : null;
+
+        const firstBattery = batteryPoints[0];
+        const lastBattery = batteryPoints[batteryPoints.length - 1];
+        const batterySpanHours = firstBattery && lastBattery
+            ? (lastBattery.time - firstBattery.time) / MS_PER_HOUR
+            : 0;
+
+        const slope = batterySpanHours >= NODE_CONSTANTS.BATTERY_TREND_MIN_SPAN_HOURS
+            ? calculateBatterySlope(batteryPoints)
+            : null;
+
+        let trend: NodeHealth['battery']['trend'] = 'unknown';
+        let daysUntilEmpty: number | null = null;
+
+        if (slope !== null) {
+            if (slope <= -NODE_CONSTANTS.BATTERY_STABLE_PCT_PER_DAY) {
+                trend = 'discharging';
+                daysUntilEmpty = currentBattery !== null
+                    ? Number((currentBattery / -slope).toFixed(1))
+                    : null;
+            } else if (slope >= NODE_CONSTANTS.BATTERY_STABLE_PCT_PER_DAY) {
+                trend = 'charging';
+            } else {
+                trend = 'stable';
+            }
+        }
+
+        // RSSI
+        const rssiValues = telemetry
+            .filter(r => r.rssi !== null)
+            .map(r => r.rssi as number);
+
+        const rssiMean = rssiValues.length > 0
+            ? rssiValues.reduce((sum, v) => sum + v, 0) / rssiValues.length
+            : null;
+
+        const rssiStdDev = rssiMean !== null
+            ? Math.sqrt(rssiValues.reduce((sum, v) => sum + (v - rssiMean) ** 2, 0) / rssiValues.length)
+            : null;
+
+        // Packet delivery over the part of the window the node has existed
+        const windowStart = Math.max(since.getTime(), node.installDate.getTime());
+        const windowHours = Math.max(0, (now - windowStart) / MS_PER_HOUR);
+        const expected = Math.floor((windowHours * 3600) / node.reportIntervalSec);
+        const lastPacket = telemetry[telemetry.length - 1];
+
+        return {
+            nodeId,
+            isActive: node.isActive,
+            lastSeen: node.lastSeen,
+            windowDays,
+            battery: {
+                current: currentBattery,
+                trend,
+                slopePctPerDay: slope !== null ? Number(slope.toFixed(3)) : null,
+                daysUntilEmpty,
+                samples: batteryPoints.length,
+            },
+            rssi: {
+                latest: rssiValues.length > 0 ? rssiValues[rssiValues.length - 1]! : null,
+                min: rssiValues.length > 0 ? Math.min(...rssiValues) : null,
+                max: rssiValues.length > 0 ? Math.max(...rssiValues) : null,
+                mean: rssiMean !== null ? Number(rssiMean.toFixed(1)) : null,
+                stdDev: rssiStdDev !== null ? Number(rssiStdDev.toFixed(1)) : null,
+                samples: rssiValues.length,
+            },
+            packets: {
+                received: telemetry.length,
+                expected,
+                deliveryRatio: expected > 0
+                    ? Number(Math.min(1, telemetry.length / expected).toFixed(3))
+                    : null,
+                perHour: windowHours > 0 ? Number((telemetry.length / windowHours).toFixed(2)) : 0,
+                lastPacketAt: lastPacket ? lastPacket.timestamp : null,
+            },
+            sequence: {
+                lastSeq: node.lastSeq,
+                lastSeqAt: node.lastSeqAt,
+                duplicates: node.duplicateCount,
+                gaps: node.gapCount,
+                resets: node.seqResetCount,
+            },
+        };
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to get node health');
+        throw error;
+    }
+}
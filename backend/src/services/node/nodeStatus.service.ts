@@ -0,0 +1,114 @@
+// src/services/node/nodeStatus.service.ts
+/**
+ * Node Reporting Status Service
+ * Classifies nodes by consecutive missed reports against their firmware sleep interval
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { NODE_CONSTANTS, NODE_STATUS } from '../../utils/constants.js';
+import type { NodeStatus } from '../../utils/constants.js';
+import { getAllNodes, markNodeOffline } from '../../repositories/node.repository.js';
+import { raiseNodeOfflineAlert } from '../alert/alert.service.js';
+import type { NodeStatusEntry, FleetStatus } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'node-status' });
+
+type NodeRecord = Awaited<ReturnType<typeof getAllNodes>>[number];
+
+/**
+ * Classify node by reports missed since lastSeen
+ */
+function classifyNode(node: NodeRecord, now: Date): NodeStatusEntry {
+    const intervalMs = node.reportIntervalSec * 1000;
+    const silentMs = Math.max(0, now.getTime() - node.lastSeen.getTime());
+    const missedReports = Math.floor(silentMs / intervalMs);
+
+    let status: NodeStatus = NODE_STATUS.ONLINE;
+    if (!node.isActive || missedReports >= NODE_CONSTANTS.OFFLINE_AFTER_MISSED_REPORTS) {
+        status = NODE_STATUS.OFFLINE;
+    } else if (missedReports >= NODE_CONSTANTS.LATE_AFTER_MISSED_REPORTS) {
+        status = NODE_STATUS.LATE;
+    }
+
+    return {
+        nodeId: node.nodeId,
+        status,
+        isActive: node.isActive,
+        lastSeen: node.lastSeen,
+        reportIntervalSec: node.reportIntervalSec,
+        missedReports,
+        minutesSilent: Math.round(silentMs / 60000),
+        offlineSince: node.offlineSince,
+    };
+}
+
+/**
+ * Fleet-wide online/late/offline summary
+ */
+export async function getFleetStatus(): Promise<FleetStatus> {
+    try {
+        const now = new Date();
+        const nodes = (await getAllNodes()).map(node => classifyNode(node, now));
+
+        return {
+            total: nodes.length,
+            online: nodes.filter(n => n.status === NODE_STATUS.ONLINE).length,
+            late: nodes.filter(n => n.status === NODE_STATUS.LATE).length,
+            offline: nodes.filter(n => n.status === NODE_STATUS.OFFLINE).length,
+            nodes,
+            timestamp: now,
+        };
+    } catch (error) {
+        logger.error({ error }, 'Failed to get fleet status');
+        throw error;
+    }
+}
+
+/**
+ * Deactivate nodes past the missed-report limit and alert once per transition
+ */
+export async function detectOfflineNodes(): Promise<{ checked: number; wentOffline: number[] }> {
+    try {
+        const now = new Date();
+        const nodes = await getAllNodes();
+        const wentOffline: number[] = [];
+
+        for (const node of nodes) {
+            if (!node.isActive) {
+                continue;
+            }
+
+            const entry = classifyNode(node, now);
+            if (entry.status !== NODE_STATUS.OFFLINE) {
+                continue;
+            }
+
+            // Guard against a reading arriving between the scan and the update
+            const cutoff = new Date(
+                now.getTime() - NODE_CONSTANTS.OFFLINE_AFTER_MISSED_REPORTS * node.reportIntervalSec * 1000
+            );
+            const deactivated = await markNodeOffline(node.nodeId, cutoff, now);
+            if (!deactivated) {
+                continue;
+            }
+
+            wentOffline.push(node.nodeId);
+            logger.warn(
+                { nodeId: node.nodeId, missedReports: entry.missedReports, lastSeen: node.lastSeen },
+                'Node marked offline'
+            );
+
+            await raiseNodeOfflineAlert(
+                node.nodeId,
+                entry.missedReports,
+                entry.minutesSilent,
+                (NODE_CONSTANTS.OFFLINE_AFTER_MISSED_REPORTS * node.reportIntervalSec) / 60
+            );
+        }
+
+        return { checked: nodes.length, wentOffline };
+    } catch (error) {
+        logger.error({ error }, 'Failed to detect offline nodes');
+        throw error;
+    }
+}
@@ -0,0 +1,158 @@
+// src/services/node/pendingNode.service.ts
+/**
+ * Pending Node Service
+ * Unknown nodes are queued with their raw readings until an admin claims them into a field;
+ * held readings are then replayed through normal processing with the field's soil texture
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { PENDING_NODE_CONSTANTS } from '../../utils/constants.js';
+import {
+    getPendingNode,
+    getHeldReadings,
+    deleteHeldReadings,
+    deletePendingNode,
+} from '../../repositories/pendingNode.repository.js';
+import {
+    attachNodeToField,
+    createField,
+    getFieldById,
+    getFieldByNodeId,
+} from '../../repositories/field.repository.js';
+import type { CreateFieldInput } from '../../repositories/field.repository.js';
+import { configureNode } from '../../repositories/node.repository.js';
+import type { NodeSettingsInput } from '../../repositories/node.repository.js';
+import { assertGatewayRegistered } from '../gateway/gateway.service.js';
+import { processSensorData } from '../sensor/sensor.service.js';
+import type { PendingClaimResult } from '../../models/common.types.js';
+import { AppError, NotFoundError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'pending-node' });
+
+const MAX_REPORTED_ERRORS = 20;
+
+// Claim into a new field (node becomes its primary) or join an existing field as a member node
+export type ClaimPendingNodeInput =
+    | { field: Omit<CreateFieldInput, 'nodeId'> & { gatewayId: string }; node: NodeSettingsInput }
+    | { fieldId: number; node: NodeSettingsInput };
+
+/**
+ * Claim pending node into a field and replay its held readings
+ * If a previous claim assigned the node but failed mid-replay, claiming again resumes the replay
+ */
+export async function claimPendingNode(nodeId: number, input: ClaimPendingNodeInput): Promise<PendingClaimResult> {
+    try {
+        const pending = await getPendingNode(nodeId);
+
+        let field;
+        try {
+            field = await getFieldByNodeId(nodeId);
+            logger.warn({ nodeId, fieldId: field.id }, 'Field already exists for pending node, resuming replay');
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+
+            if ('fieldId' in input) {
+                field = await getFieldById(input.fieldId);
+                await configureNode(nodeId, input.node, pending.lastSeen);
+                await attachNodeToField(field.id, nodeId);
+            } else {
+                await assertGatewayRegistered(input.field.gatewayId);
+                await configureNode(nodeId, input.node, pending.lastSeen);
+                field = await createField({ ...input.field, nodeId });
+            }
+        }
+
+        const result: PendingClaimResult = {
+            nodeId,
+            fieldId: field.id,
+            replayed: 0,
+            stored: 0,
+            duplicates: 0,
+            rejected: 0,
+            errors: [],
+        };
+
+        // Oldest first so sequence tracking sees the packets in order; replayed rows are deleted per page
+        while (true) {
+            const held = await getHeldReadings(nodeId, PENDING_NODE_CONSTANTS.REPROCESS_BATCH_SIZE);
+            if (held.length === 0) break;
+
+            const replayedIds: number[] = [];
+
+            try {
+                for (const reading of held) {
+                    try {
+                        const processed = await processSensorData(
+                            {
+                                nodeId,
+                                moisture: reading.moisture,
+                                temperature: reading.temperature,
+                                rssi: reading.rssi ?? undefined,
+                                batteryLevel: reading.batteryLevel ?? undefined,
+                                seq: reading.seq ?? undefined,
+                                timestamp: reading.timestamp.toISOString(),
+                            },
+                            { replay: true }
+                        );
+
+                        if (processed.duplicate) {
+                            result.duplicates++;
+                        } else if (!processed.lowBattery) {
+                            result.stored++;
+                        }
+                    } catch (error) {
+                        // Infrastructure failures stop the replay; remaining readings stay held for a retry
+                        if (!(error instanceof AppError && error.isOperational)) throw error;
+
+                        result.rejected++;
+                        if (result.errors.length < MAX_REPORTED_ERRORS) {
+                            result.errors.push(`${reading.timestamp.toISOString()}: ${error.message}`);
+                        }
+                    }
+
+                    result.replayed++;
+                    replayedIds.push(reading.id);
+                }
+            } finally {
+                // Also on abort, so a retried claim does not replay these again
+                await deleteHeldReadings(replayedIds);
+            }
+        }
+
+        await deletePendingNode(nodeId);
+
+        logger.info(
+            {
+                nodeId,
+                fieldId: field.id,
+                replayed: result.replayed,
+                stored: result.stored,
+                duplicates: result.duplicates,
+                rejected: result.rejected,
+            },
+            'Pending node claimed'
+        );
+
+        return result;
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to claim pending node');
+        throw error;
+    }
+}
+
+/**
+ * Drop pending node and its held readings (unknown or foreign node)
+ */
+export async function discardPendingNode(nodeId: number): Promise<number> {
+    try {
+        const pending = await getPendingNode(nodeId);
+        await deletePendingNode(nodeId);
+
+        logger.info({ nodeId, discarded: pending._count.readings }, 'Pending node discarded');
+
+        return pending._count.readings;
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to discard pending node');
+        throw error;
+    }
+}
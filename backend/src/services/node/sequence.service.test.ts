@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../repositories/node.repository.js', () => ({
+    getNodeByNodeId: vi.fn(),
+    advanceNodeSequence: vi.fn(),
+    recordDuplicatePacket: vi.fn(),
+    recordLatePacket: vi.fn(),
+}));
+
+vi.mock('../../repositories/sensor.repository.js', () => ({
+    findReadingBySeq: vi.fn(),
+    getAdjacentSequencedReadings: vi.fn(),
+}));
+
+import { checkPacketSequence } from './sequence.service.js';
+import {
+    getNodeByNodeId,
+    advanceNodeSequence,
+    recordDuplicatePacket,
+    recordLatePacket,
+} from '../../repositories/node.repository.js';
+import { findReadingBySeq, getAdjacentSequencedReadings } from '../../repositories/sensor.repository.js';
+
+const LAST_AT = new Date('2026-10-19T10:00:00Z');
+const minutesAfter = (minutes: number) => new Date(LAST_AT.getTime() + minutes * 60000);
+
+function givenNode(lastSeq: number | null, reportIntervalSec = 600) {
+    vi.mocked(getNodeByNodeId).mockResolvedValue({
+        nodeId: 1,
+        lastSeq,
+        lastSeqAt: lastSeq === null ? null : LAST_AT,
+        reportIntervalSec,
+    } as Awaited<ReturnType<typeof getNodeByNodeId>>);
+}
+
+function givenNeighbours(
+    previous: { seq: number } | null,
+    next: { id: number; seq: number; gapBefore: number } | null
+) {
+    vi.mocked(getAdjacentSequencedReadings).mockResolvedValue({
+        previous: previous && { id: 1, seq: previous.seq, gapBefore: 0, timestamp: minutesAfter(-20) },
+        next: next && { ...next, timestamp: minutesAfter(-5) },
+    });
+}
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(findReadingBySeq).mockResolvedValue(null);
+    vi.mocked(advanceNodeSequence).mockResolvedValue(true);
+    vi.mocked(recordLatePacket).mockResolvedValue(true);
+});
+
+describe('checkPacketSequence', () => {
+    it('starts tracking on the first packet', async () => {
+        givenNode(null);
+
+        await expect(checkPacketSequence(1, 17, LAST_AT)).resolves.toEqual({ status: 'FIRST', missed: 0 });
+    });
+
+    it('drops a packet whose seq is already stored nearby', async () => {
+        givenNode(4);
+        vi.mocked(findReadingBySeq).mockResolvedValue({ id: 9 } as Awaited<ReturnType<typeof findReadingBySeq>>);
+
+        await expect(checkPacketSequence(1, 5, minutesAfter(10))).resolves.toEqual({ status: 'DUPLICATE', missed: 0 });
+        expect(recordDuplicatePacket).toHaveBeenCalledWith(1);
+        expect(advanceNodeSequence).not.toHaveBeenCalled();
+    });
+
+    it('drops a copy whose twin advanced the state but is not stored yet', async () => {
+        givenNode(4);
+
+        await expect(checkPacketSequence(1, 4, minutesAfter(1))).resolves.toEqual({ status: 'DUPLICATE', missed: 0 });
+    });
+
+    it('never spans a report interval with the dedup window', async () => {
+        givenNode(0, 10);
+        await checkPacketSequence(1, 0, minutesAfter(10));
+
+        const [, , from, to] = vi.mocked(findReadingBySeq).mock.calls[0]!;
+        expect(to.getTime() - from.getTime()).toBe(10000);
+    });
+
+    it('accepts the next seq after one interval', async () => {
+        givenNode(4);
+
+        await expect(checkPacketSequence(1, 5, minutesAfter(10))).resolves.toEqual({ status: 'IN_ORDER', missed: 0 });
+    });
+
+    it('counts packets skipped in the counter', async () => {
+        givenNode(254);
+
+        await expect(checkPacketSequence(1, 1, minutesAfter(30))).resolves.toEqual({ status: 'IN_ORDER', missed: 2 });
+        expect(advanceNodeSequence).toHaveBeenCalledWith(1, { lastSeq: 254, lastSeqAt: LAST_AT }, {
+            seq: 1,
+            seqAt: minutesAfter(30),
+            missed: 2,
+            reset: false,
+        });
+    });
+
+    describe('counter not retained across deep sleep', () => {
+        it('treats seq 0 after a normal interval as in order, not a reboot', async () => {
+            givenNode(0);
+
+            await expect(checkPacketSequence(1, 0, minutesAfter(10))).resolves.toEqual({ status: 'IN_ORDER', missed: 0 });
+            expect(advanceNodeSequence).toHaveBeenCalledWith(1, expect.anything(), expect.objectContaining({ reset: false }));
+        });
+
+        it('counts missed reports from the clock', async () => {
+            givenNode(0);
+
+            await expect(checkPacketSequence(1, 0, minutesAfter(40))).resolves.toEqual({ status: 'IN_ORDER', missed: 3 });
+        });
+    });
+
+    describe('reboot', () => {
+        it('flags a counter restart and counts missed reports from the clock', async () => {
+            givenNode(57);
+
+            await expect(checkPacketSequence(1, 0, minutesAfter(20))).resolves.toEqual({ status: 'RESET', missed: 1 });
+            expect(advanceNodeSequence).toHaveBeenCalledWith(1, expect.anything(), expect.objectContaining({
+                missed: 1,
+                reset: true,
+            }));
+        });
+
+        it('falls back to the clock after a full counter cycle of silence', async () => {
+            givenNode(10);
+
+            await expect(checkPacketSequence(1, 11, minutesAfter(10 * 300))).resolves.toEqual({
+                status: 'IN_ORDER',
+                missed: 299,
+            });
+        });
+    });
+
+    describe('late packets', () => {
+        it('fills a gap counted when the next packet arrived', async () => {
+            givenNode(7);
+            givenNeighbours({ seq: 4 }, { id: 42, seq: 7, gapBefore: 2 });
+
+            await expect(checkPacketSequence(1, 5, minutesAfter(-15))).resolves.toEqual({ status: 'LATE', missed: 0 });
+            expect(recordLatePacket).toHaveBeenCalledWith(1, 42);
+            expect(advanceNodeSequence).not.toHaveBeenCalled();
+        });
+
+        it('fills a clock-counted gap of a counter that is not retained', async () => {
+            givenNode(0);
+            givenNeighbours({ seq: 0 }, { id: 42, seq: 0, gapBefore: 1 });
+
+            await checkPacketSequence(1, 0, minutesAfter(-15));
+            expect(recordLatePacket).toHaveBeenCalledWith(1, 42);
+        });
+
+        it('leaves counters alone when no gap was counted there', async () => {
+            givenNode(7);
+            givenNeighbours({ seq: 6 }, { id: 42, seq: 7, gapBefore: 0 });
+
+            await expect(checkPacketSequence(1, 5, minutesAfter(-15))).resolves.toEqual({ status: 'LATE', missed: 0 });
+            expect(recordLatePacket).not.toHaveBeenCalled();
+        });
+
+        it('leaves counters alone when the seq does not belong in the gap', async () => {
+            givenNode(7);
+            givenNeighbours({ seq: 4 }, { id: 42, seq: 7, gapBefore: 2 });
+
+            await checkPacketSequence(1, 9, minutesAfter(-15));
+            await checkPacketSequence(1, 4, minutesAfter(-15));
+            expect(recordLatePacket).not.toHaveBeenCalled();
+        });
+
+        it('leaves counters alone for packets older than any stored one', async () => {
+            givenNode(7);
+            givenNeighbours(null, null);
+
+            await checkPacketSequence(1, 3, new Date('2024-05-01T00:00:00Z'));
+            expect(recordLatePacket).not.toHaveBeenCalled();
+        });
+    });
+});
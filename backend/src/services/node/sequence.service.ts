@@ -0,0 +1,149 @@
+// src/services/node/sequence.service.ts
+/**
+ * Packet Sequence Service
+ * Deduplicates retried/relayed packets and tracks gaps and reboots from the firmware rolling counter
+ *
+ * Firmware that keeps the counter in RAM restarts it on every deep-sleep wake, so the
+ * same seq one report interval later is expected; gaps are then counted from the clock.
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { SEQUENCE_CONSTANTS, SEQUENCE_STATUS } from '../../utils/constants.js';
+import {
+    getNodeByNodeId,
+    advanceNodeSequence,
+    recordDuplicatePacket,
+    recordLatePacket,
+} from '../../repositories/node.repository.js';
+import { findReadingBySeq, getAdjacentSequencedReadings } from '../../repositories/sensor.repository.js';
+import type { PacketSequenceCheck } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'sequence' });
+
+// Concurrent packets from the same node re-read state and retry the compare-and-set
+const MAX_STATE_ATTEMPTS = 3;
+
+/**
+ * Forward distance from previous to current seq, across the uint8 wrap
+ */
+function sequenceDelta(previous: number, current: number): number {
+    return (((current - previous) % SEQUENCE_CONSTANTS.MODULUS) + SEQUENCE_CONSTANTS.MODULUS) % SEQUENCE_CONSTANTS.MODULUS;
+}
+
+/**
+ * Fill the gap a late packet belongs to, if one was counted when the next stored packet arrived
+ * Packets outside any counted gap (replays, backfilled history) leave the counters alone
+ */
+async function fillCountedGap(nodeId: number, seq: number, timestamp: Date): Promise<boolean> {
+    const { previous, next } = await getAdjacentSequencedReadings(nodeId, timestamp);
+
+    if (!next || next.gapBefore === 0) {
+        return false;
+    }
+
+    // Seq-tracked gap: the late seq must lie strictly between its neighbours
+    // (equal neighbours mean the gap was counted from the clock)
+    if (previous?.seq != null && next.seq != null) {
+        const span = sequenceDelta(previous.seq, next.seq);
+        const offset = sequenceDelta(previous.seq, seq);
+
+        if (span > 0 && (offset === 0 || offset >= span)) {
+            return false;
+        }
+    }
+
+    return recordLatePacket(nodeId, next.id);
+}
+
+/**
+ * Classify packet against node sequence state and update duplicate/gap/reset counters
+ */
+export async function checkPacketSequence(nodeId: number, seq: number, timestamp: Date): Promise<PacketSequenceCheck> {
+    try {
+        // Copies arrive within minutes; never span a report interval (a counter restarted every wake repeats seq)
+        const { reportIntervalSec } = await getNodeByNodeId(nodeId);
+        const windowMs = Math.min(SEQUENCE_CONSTANTS.DEDUP_WINDOW_MINUTES * 60, reportIntervalSec / 2) * 1000;
+
+        // Same seq already stored close to this time: retry or copy heard by another gateway
+        const stored = await findReadingBySeq(
+            nodeId,
+            seq,
+            new Date(timestamp.getTime() - windowMs),
+            new Date(timestamp.getTime() + windowMs)
+        );
+
+        if (stored) {
+            await recordDuplicatePacket(nodeId);
+            return { status: SEQUENCE_STATUS.DUPLICATE, missed: 0 };
+        }
+
+        for (let attempt = 0; attempt < MAX_STATE_ATTEMPTS; attempt++) {
+            const node = await getNodeByNodeId(nodeId);
+            const expected = { lastSeq: node.lastSeq, lastSeqAt: node.lastSeqAt };
+
+            if (node.lastSeq === null || node.lastSeqAt === null) {
+                if (await advanceNodeSequence(nodeId, expected, { seq, seqAt: timestamp, missed: 0, reset: false })) {
+                    return { status: SEQUENCE_STATUS.FIRST, missed: 0 };
+                }
+                continue;
+            }
+
+            const elapsedMs = timestamp.getTime() - node.lastSeqAt.getTime();
+            const delta = sequenceDelta(node.lastSeq, seq);
+
+            // Copy whose twin has advanced the state but is not stored yet
+            if (delta === 0 && Math.abs(elapsedMs) <= windowMs) {
+                await recordDuplicatePacket(nodeId);
+                return { status: SEQUENCE_STATUS.DUPLICATE, missed: 0 };
+            }
+
+            // Older than the last in-order packet: delivered out of order, may fill an earlier gap
+            if (elapsedMs < 0) {
+                if (await fillCountedGap(nodeId, seq, timestamp)) {
+                    logger.debug({ nodeId, seq }, 'Late packet filled sequence gap');
+                }
+                return { status: SEQUENCE_STATUS.LATE, missed: 0 };
+            }
+
+            // Reports the node should have sent since the last packet
+            const intervals = Math.max(1, Math.round(elapsedMs / (node.reportIntervalSec * 1000)));
+
+            let next: { seq: number; seqAt: Date; missed: number; reset: boolean };
+            let status: PacketSequenceCheck['status'];
+
+            if (intervals >= SEQUENCE_CONSTANTS.MODULUS) {
+                // Silent for a full counter cycle: seq cannot tell, fall back to the clock
+                next = { seq, seqAt: timestamp, missed: intervals - 1, reset: false };
+                status = SEQUENCE_STATUS.IN_ORDER;
+            } else if (delta === 0) {
+                // Same seq after a report interval: counter not retained across deep sleep, use the clock
+                next = { seq, seqAt: timestamp, missed: intervals - 1, reset: false };
+                status = SEQUENCE_STATUS.IN_ORDER;
+            } else if (delta > intervals + SEQUENCE_CONSTANTS.RESET_TOLERANCE_PACKETS) {
+                // Counter jumped further than time allows: node rebooted and restarted from 0
+                next = { seq, seqAt: timestamp, missed: intervals - 1, reset: true };
+                status = SEQUENCE_STATUS.RESET;
+            } else {
+                next = { seq, seqAt: timestamp, missed: delta - 1, reset: false };
+                status = SEQUENCE_STATUS.IN_ORDER;
+            }
+
+            if (await advanceNodeSequence(nodeId, expected, next)) {
+                if (status === SEQUENCE_STATUS.RESET) {
+                    logger.info({ nodeId, lastSeq: node.lastSeq, seq, missed: next.missed }, 'Node sequence restarted');
+                } else if (next.missed > 0) {
+                    logger.warn({ nodeId, lastSeq: node.lastSeq, seq, missed: next.missed }, 'Packets missing from sequence');
+                }
+
+                return { status, missed: next.missed };
+            }
+        }
+
+        // Persistent contention: accept the packet without touching counters
+        logger.warn({ nodeId, seq }, 'Sequence state contended, skipping sequence tracking');
+        return { status: SEQUENCE_STATUS.IN_ORDER, missed: 0 };
+    } catch (error) {
+        logger.error({ error, nodeId, seq }, 'Failed to check packet sequence');
+        throw error;
+    }
+}
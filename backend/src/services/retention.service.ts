@@ -0,0 +1,78 @@
+// src/services/retention.service.ts
+/**
+ * Reading Retention Service
+ * Rolls raw sensor readings up into hourly/daily summaries before pruning them,
+ * so season history survives at reduced resolution
+ */
+
+import { createLogger } from '../config/logger.js';
+import { env } from '../config/environment.js';
+import {
+    getOldestPrunableReading,
+    rollUpAndPruneReadings,
+    pruneHourlyRollups,
+} from '../repositories/rollup.repository.js';
+import type { RetentionCutoffs, RetentionRunResult } from '../models/common.types.js';
+
+const logger = createLogger({ service: 'retention' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the UTC day containing date
+ */
+function utcDayStart(date: Date): Date {
+    return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Current retention boundaries from configured ages
+ */
+export function getRetentionCutoffs(now: Date = new Date()): RetentionCutoffs {
+    const today = utcDayStart(now).getTime();
+
+    return {
+        rawFrom: new Date(today - env.READING_RETENTION_DAYS * DAY_MS),
+        hourlyFrom: new Date(today - env.HOURLY_ROLLUP_RETENTION_DAYS * DAY_MS),
+    };
+}
+
+/**
+ * Move raw readings past retention into rollups, one UTC day per transaction
+ */
+export async function runRetention(now: Date = new Date()): Promise<RetentionRunResult> {
+    const cutoffs = getRetentionCutoffs(now);
+    const result: RetentionRunResult = {
+        cutoffs,
+        daysProcessed: 0,
+        readingsPruned: 0,
+        hourlyBucketsWritten: 0,
+        dailyBucketsWritten: 0,
+        hourlyBucketsPruned: 0,
+    };
+
+    try {
+        const oldest = await getOldestPrunableReading(cutoffs.rawFrom);
+
+        if (oldest) {
+            for (let day = utcDayStart(oldest); day < cutoffs.rawFrom; day = new Date(day.getTime() + DAY_MS)) {
+                const dayEnd = new Date(day.getTime() + DAY_MS);
+                const rolled = await rollUpAndPruneReadings(day, dayEnd, cutoffs.hourlyFrom);
+
+                result.daysProcessed++;
+                result.readingsPruned += rolled.readingsPruned;
+                result.hourlyBucketsWritten += rolled.hourlyBuckets;
+                result.dailyBucketsWritten += rolled.dailyBuckets;
+            }
+        }
+
+        result.hourlyBucketsPruned = await pruneHourlyRollups(cutoffs.hourlyFrom);
+
+        logger.info(result, 'Retention run completed');
+
+        return result;
+    } catch (error) {
+        logger.error({ error, cutoffs, daysProcessed: result.daysProcessed }, 'Retention run failed');
+        throw error;
+    }
+}
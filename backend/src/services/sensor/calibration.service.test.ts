@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+    fitPolynomialCalibration,
+    fitPiecewiseCalibration,
+    applyCalibrationCurve,
+    convertMoistureToVWC,
+} from './calibration.service.js';
+import { ValidationError } from '../../utils/errors.js';
+
+describe('fitPolynomialCalibration', () => {
+    it('recovers an exact linear relation', () => {
+        const samples = [100, 300, 500, 700].map(raw => ({ rawValue: raw, labVWC: 5 + raw * 0.05 }));
+        const fit = fitPolynomialCalibration(samples, 1);
+
+        expect(fit.rSquared).toBe(1);
+        expect(fit.rmse).toBe(0);
+        expect(applyCalibrationCurve(fit, 400)).toBe(25);
+    });
+
+    it('fits a quadratic through noisy samples', () => {
+        const samples = [
+            { rawValue: 200, labVWC: 8.4 },
+            { rawValue: 350, labVWC: 16.0 },
+            { rawValue: 500, labVWC: 23.6 },
+            { rawValue: 650, labVWC: 33.1 },
+            { rawValue: 800, labVWC: 45.2 },
+        ];
+        const fit = fitPolynomialCalibration(samples, 2);
+
+        expect(fit.degree).toBe(2);
+        expect(fit.sampleCount).toBe(5);
+        expect(fit.coefficients).toHaveLength(3);
+        expect(fit.rSquared).toBeGreaterThan(0.99);
+        expect(fit.rmse).toBeGreaterThan(0);
+    });
+
+    it('requires degree + 2 samples', () => {
+        const samples = [
+            { rawValue: 200, labVWC: 10 },
+            { rawValue: 500, labVWC: 20 },
+            { rawValue: 800, labVWC: 40 },
+        ];
+
+        expect(() => fitPolynomialCalibration(samples, 2)).toThrow(ValidationError);
+        expect(() => fitPolynomialCalibration(samples, 1)).not.toThrow();
+    });
+
+    it('rejects samples at a single raw value', () => {
+        const samples = [1, 2, 3, 4].map(i => ({ rawValue: 400, labVWC: 20 + i }));
+        expect(() => fitPolynomialCalibration(samples, 1)).toThrow(ValidationError);
+    });
+
+    it('does not extrapolate beyond the sampled range', () => {
+        const samples = [100, 300, 500, 700].map(raw => ({ rawValue: raw, labVWC: raw * 0.05 }));
+        const fit = fitPolynomialCalibration(samples, 1);
+
+        expect(applyCalibrationCurve(fit, 0)).toBe(5);
+        expect(applyCalibrationCurve(fit, 1000)).toBe(35);
+    });
+});
+
+describe('fitPiecewiseCalibration', () => {
+    it('averages lab VWC per raw value into sorted knots', () => {
+        const fit = fitPiecewiseCalibration([
+            { rawValue: 600, labVWC: 30 },
+            { rawValue: 200, labVWC: 10 },
+            { rawValue: 600, labVWC: 32 },
+        ]);
+
+        expect(fit.knots).toEqual([
+            { raw: 200, vwc: 10 },
+            { raw: 600, vwc: 31 },
+        ]);
+        expect(applyCalibrationCurve(fit, 400)).toBe(20.5);
+    });
+
+    it('needs more than one distinct raw value', () => {
+        expect(() => fitPiecewiseCalibration([
+            { rawValue: 300, labVWC: 10 },
+            { rawValue: 300, labVWC: 12 },
+        ])).toThrow(ValidationError);
+    });
+});
+
+describe('convertMoistureToVWC', () => {
+    it('scales pre-scaled payloads by ten', () => {
+        expect(convertMoistureToVWC(253, 'PRESCALED', 'LOAM')).toBe(25.3);
+    });
+
+    it('maps raw ADC values through the texture curve', () => {
+        expect(convertMoistureToVWC(600, 'RAW_10BIT', 'LOAM')).toBe(25);
+        expect(convertMoistureToVWC(2402, 'RAW_12BIT', 'LOAM')).toBeCloseTo(25, 0);
+    });
+});
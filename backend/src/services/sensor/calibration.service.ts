@@ -2,12 +2,21 @@
  * Sensor Calibration Service
  * Converts sensor values to VWC and temperature
  * 
- * MQTT Protocol: Sensors send pre-scaled values
- * - moisture: 0-1000 representing 0.0-100.0% VWC
+ * MQTT Protocol: moisture encoding declared per node (Node.payloadEncoding)
+ * - PRESCALED: 0-1000 representing 0.0-100.0% VWC
+ * - RAW_10BIT / RAW_12BIT: raw ADC, converted through soil texture curve
  * - temperature: value * 10 (e.g., 285 = 28.5°C)
  */
 
-import type { SoilTexture } from '../../utils/constants.js';
+import { CALIBRATION_FIT_METHODS, PAYLOAD_ENCODINGS, PAYLOAD_ENCODING_MAX } from '../../utils/constants.js';
+import type { SoilTexture, PayloadEncoding } from '../../utils/constants.js';
+import type {
+    CalibrationCurve,
+    CalibrationFit,
+    CalibrationKnot,
+    CalibrationPoint,
+} from '../../models/common.types.js';
+import { ValidationError } from '../../utils/errors.js';
 
 /**
  * Convert moisture value to VWC percentage
@@ -57,10 +66,10 @@ export function convertToTemperature(tempRaw: number): number {
 }
 
 /**
- * ADVANCED CALIBRATION (Future Enhancement)
+ * RAW ADC CALIBRATION
  * 
- * If you later want to use raw ADC values (0-1023) from actual sensor hardware,
- * uncomment and use these calibration curves instead.
+ * Default texture curves for nodes that send raw ADC values (0-1023).
+ * 12-bit readings are rescaled onto the same curve.
  */
 
 const CALIBRATION_CURVES: Record<SoilTexture, Array<{ smu: number; vwc: number }>> = {
@@ -118,3 +127,220 @@ export function convertRawADCToVWC(smu: number, soilTexture: SoilTexture): numbe
     return curve[curve.length - 1]?.vwc ?? 0;
 }
 
+/**
+ * Convert moisture value to VWC according to node payload encoding
+ */
+export function convertMoistureToVWC(
+    moisture: number,
+    encoding: PayloadEncoding,
+    soilTexture: SoilTexture
+): number {
+    switch (encoding) {
+        case PAYLOAD_ENCODINGS.RAW_10BIT:
+            return convertRawADCToVWC(moisture, soilTexture);
+        case PAYLOAD_ENCODINGS.RAW_12BIT:
+            return convertRawADCToVWC(
+                (moisture / PAYLOAD_ENCODING_MAX.RAW_12BIT) * PAYLOAD_ENCODING_MAX.RAW_10BIT,
+                soilTexture
+            );
+        default:
+            return convertToVWC(moisture, soilTexture);
+    }
+}
+
+/**
+ * PER-NODE CALIBRATION PROFILES
+ *
+ * Curves fitted from paired (node-reported value, gravimetric lab VWC) samples.
+ * Evaluation clamps raw input to the sampled range - no extrapolation.
+ */
+
+/**
+ * Solve linear system by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i] ?? 0]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) {
+                pivot = row;
+            }
+        }
+
+        if (Math.abs(a[pivot]![col]!) < 1e-12) {
+            throw new ValidationError('Calibration samples are degenerate (singular fit)');
+        }
+
+        [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row]![col]! / a[col]![col]!;
+            for (let k = col; k <= n; k++) {
+                a[row]![k]! -= factor * a[col]![k]!;
+            }
+        }
+    }
+
+    const solution = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row]![n]!;
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row]![k]! * solution[k]!;
+        }
+        solution[row] = sum / a[row]![row]!;
+    }
+
+    return solution;
+}
+
+/**
+ * Evaluate calibration curve without clamping output
+ */
+export function evaluateCalibrationCurve(curve: CalibrationCurve, raw: number): number {
+    const clampedRaw = Math.max(curve.rawMin, Math.min(curve.rawMax, raw));
+
+    if (curve.fitMethod === CALIBRATION_FIT_METHODS.PIECEWISE_LINEAR && curve.knots) {
+        const knots = curve.knots;
+
+        for (let i = 0; i < knots.length - 1; i++) {
+            const k1 = knots[i];
+            const k2 = knots[i + 1];
+
+            if (k1 && k2 && clampedRaw >= k1.raw && clampedRaw <= k2.raw) {
+                const ratio = (clampedRaw - k1.raw) / (k2.raw - k1.raw);
+                return k1.vwc + ratio * (k2.vwc - k1.vwc);
+            }
+        }
+
+        return knots[knots.length - 1]?.vwc ?? 0;
+    }
+
+    const span = curve.rawMax - curve.rawMin;
+    const t = span > 0 ? (clampedRaw - curve.rawMin) / span : 0;
+
+    // Horner's method
+    return curve.coefficients.reduceRight((acc, c) => acc * t + c, 0);
+}
+
+/**
+ * Convert node-reported moisture to VWC using calibration profile
+ */
+export function applyCalibrationCurve(curve: CalibrationCurve, raw: number): number {
+    const vwc = evaluateCalibrationCurve(curve, raw);
+
+    return Math.max(0, Math.min(100, Number(vwc.toFixed(1))));
+}
+
+/**
+ * R² and RMSE of curve against samples
+ */
+function scoreCalibrationCurve(
+    curve: CalibrationCurve,
+    samples: CalibrationPoint[]
+): { rSquared: number; rmse: number } {
+    const meanVWC = samples.reduce((sum, s) => sum + s.labVWC, 0) / samples.length;
+
+    let ssRes = 0;
+    let ssTot = 0;
+    for (const sample of samples) {
+        const predicted = evaluateCalibrationCurve(curve, sample.rawValue);
+        ssRes += (sample.labVWC - predicted) ** 2;
+        ssTot += (sample.labVWC - meanVWC) ** 2;
+    }
+
+    return {
+        rSquared: ssTot > 0 ? Number((1 - ssRes / ssTot).toFixed(4)) : 1,
+        rmse: Number(Math.sqrt(ssRes / samples.length).toFixed(3)),
+    };
+}
+
+/**
+ * Least-squares polynomial fit of lab VWC against normalised raw value
+ */
+export function fitPolynomialCalibration(samples: CalibrationPoint[], degree: number): CalibrationFit {
+    if (samples.length < degree + 2) {
+        throw new ValidationError(
+            `Polynomial degree ${degree} needs at least ${degree + 2} samples (got ${samples.length})`
+        );
+    }
+
+    const rawValues = samples.map(s => s.rawValue);
+    const rawMin = Math.min(...rawValues);
+    const rawMax = Math.max(...rawValues);
+    const span = rawMax - rawMin;
+
+    if (span <= 0) {
+        throw new ValidationError('Calibration samples must cover more than one raw value');
+    }
+
+    // Normal equations (XᵀX)c = Xᵀy on t in [0, 1] for numerical stability
+    const size = degree + 1;
+    const xtx = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const xty = new Array<number>(size).fill(0);
+
+    for (const sample of samples) {
+        const t = (sample.rawValue - rawMin) / span;
+        const powers = Array.from({ length: size }, (_, i) => t ** i);
+
+        for (let i = 0; i < size; i++) {
+            xty[i]! += powers[i]! * sample.labVWC;
+            for (let j = 0; j < size; j++) {
+                xtx[i]![j]! += powers[i]! * powers[j]!;
+            }
+        }
+    }
+
+    const curve: CalibrationCurve = {
+        fitMethod: CALIBRATION_FIT_METHODS.POLYNOMIAL,
+        coefficients: solveLinearSystem(xtx, xty),
+        knots: null,
+        rawMin,
+        rawMax,
+    };
+
+    return {
+        ...curve,
+        degree,
+        sampleCount: samples.length,
+        ...scoreCalibrationCurve(curve, samples),
+    };
+}
+
+/**
+ * Piecewise-linear fit through mean lab VWC at each distinct raw value
+ */
+export function fitPiecewiseCalibration(samples: CalibrationPoint[]): CalibrationFit {
+    const grouped = new Map<number, { sum: number; count: number }>();
+    for (const sample of samples) {
+        const entry = grouped.get(sample.rawValue) ?? { sum: 0, count: 0 };
+        entry.sum += sample.labVWC;
+        entry.count++;
+        grouped.set(sample.rawValue, entry);
+    }
+
+    const knots: CalibrationKnot[] = [...grouped.entries()]
+        .map(([raw, { sum, count }]) => ({ raw, vwc: Number((sum / count).toFixed(2)) }))
+        .sort((a, b) => a.raw - b.raw);
+
+    if (knots.length < 2) {
+        throw new ValidationError('Calibration samples must cover more than one raw value');
+    }
+
+    const curve: CalibrationCurve = {
+        fitMethod: CALIBRATION_FIT_METHODS.PIECEWISE_LINEAR,
+        coefficients: [],
+        knots,
+        rawMin: knots[0]!.raw,
+        rawMax: knots[knots.length - 1]!.raw,
+    };
+
+    return {
+        ...curve,
+        degree: null,
+        sampleCount: samples.length,
+        ...scoreCalibrationCurve(curve, samples),
+    };
+}
@@ -0,0 +1,110 @@
+// src/services/sensor/calibrationProfile.service.ts
+/**
+ * Node Calibration Profile Service
+ * Fits versioned per-node curves from gravimetric samples
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { CALIBRATION_CONSTANTS, CALIBRATION_FIT_METHODS } from '../../utils/constants.js';
+import type { CalibrationFitMethod } from '../../utils/constants.js';
+import { getNodeByNodeId } from '../../repositories/node.repository.js';
+import {
+    getCalibrationSamples,
+    getActiveCalibrationProfile,
+    createCalibrationProfile,
+} from '../../repositories/calibration.repository.js';
+import { fitPolynomialCalibration, fitPiecewiseCalibration } from './calibration.service.js';
+import type { CalibrationCurve, CalibrationKnot } from '../../models/common.types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'calibration' });
+
+type CalibrationProfileRecord = NonNullable<Awaited<ReturnType<typeof getActiveCalibrationProfile>>>;
+
+export interface FitCalibrationOptions {
+    method: CalibrationFitMethod;
+    degree?: number | undefined;
+    since?: Date | undefined;       // Only use samples taken on/after (e.g. after reinstall)
+    activate: boolean;
+    notes?: string | undefined;
+}
+
+/**
+ * Curve definition from stored profile
+ */
+export function toCalibrationCurve(profile: CalibrationProfileRecord): CalibrationCurve {
+    return {
+        fitMethod: profile.fitMethod as CalibrationFitMethod,
+        coefficients: profile.coefficients,
+        knots: (profile.knots as unknown as CalibrationKnot[] | null) ?? null,
+        rawMin: profile.rawMin,
+        rawMax: profile.rawMax,
+    };
+}
+
+/**
+ * Active calibration curve for node, if any
+ */
+export async function getNodeCalibration(nodeId: number): Promise<{ version: number; curve: CalibrationCurve } | null> {
+    const profile = await getActiveCalibrationProfile(nodeId);
+
+    if (!profile) {
+        return null;
+    }
+
+    return {
+        version: profile.version,
+        curve: toCalibrationCurve(profile),
+    };
+}
+
+/**
+ * Fit new calibration profile version from node samples
+ */
+export async function fitCalibrationProfile(nodeId: number, options: FitCalibrationOptions) {
+    try {
+        await getNodeByNodeId(nodeId);
+
+        // A polynomial needs more points than coefficients, or R² is 1 by construction
+        const isPiecewise = options.method === CALIBRATION_FIT_METHODS.PIECEWISE_LINEAR;
+        const degree = options.degree ?? CALIBRATION_CONSTANTS.DEFAULT_POLYNOMIAL_DEGREE;
+        const minSamples = isPiecewise
+            ? CALIBRATION_CONSTANTS.MIN_SAMPLES
+            : Math.max(CALIBRATION_CONSTANTS.MIN_SAMPLES, degree + 2);
+
+        const samples = await getCalibrationSamples(nodeId, options.since);
+        if (samples.length < minSamples) {
+            throw new ValidationError(
+                isPiecewise
+                    ? `At least ${minSamples} calibration samples required (got ${samples.length})`
+                    : `Polynomial degree ${degree} needs at least ${minSamples} calibration samples (got ${samples.length})`
+            );
+        }
+
+        const points = samples.map(s => ({ rawValue: s.rawValue, labVWC: s.labVWC }));
+
+        const fit = isPiecewise
+            ? fitPiecewiseCalibration(points)
+            : fitPolynomialCalibration(points, degree);
+
+        const profile = await createCalibrationProfile(nodeId, fit, options.activate, options.notes);
+
+        logger.info(
+            {
+                nodeId,
+                version: profile.version,
+                method: fit.fitMethod,
+                samples: fit.sampleCount,
+                rSquared: fit.rSquared,
+                rmse: fit.rmse,
+                active: profile.isActive,
+            },
+            'Calibration profile fitted'
+        );
+
+        return profile;
+    } catch (error) {
+        logger.error({ error, nodeId }, 'Failed to fit calibration profile');
+        throw error;
+    }
+}
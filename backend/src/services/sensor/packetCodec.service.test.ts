@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { crc16Modbus, decodeFrameText, decodeWusnPacket } from './packetCodec.service.js';
+import { FrameDecodeError } from '../../utils/errors.js';
+import type { FrameRejectionReason } from '../../utils/constants.js';
+
+/**
+ * v1 frame as the firmware packs it, with a valid CRC unless one is given
+ */
+function buildFrame(fields: { seq?: number; moisture?: number; temp?: number; battery?: number }, crc?: number): Buffer {
+    const frame = Buffer.alloc(12);
+    frame.writeUInt8(1, 0);
+    frame.writeUInt8(3, 1);
+    frame.writeUInt8(fields.seq ?? 42, 2);
+    frame.writeUInt16LE(fields.moisture ?? 253, 3);
+    frame.writeInt16LE(fields.temp ?? 287, 5);
+    frame.writeUInt8(fields.battery ?? 87, 7);
+    frame.writeUInt16LE(3950, 8);
+    frame.writeUInt16LE(crc ?? crc16Modbus(frame.subarray(0, 10)), 10);
+    return frame;
+}
+
+function rejectionReason(fn: () => unknown): FrameRejectionReason | undefined {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof FrameDecodeError) return error.reason;
+        throw error;
+    }
+    return undefined;
+}
+
+describe('crc16Modbus', () => {
+    it('matches the CRC-16/MODBUS check value', () => {
+        expect(crc16Modbus(Buffer.from('123456789', 'ascii'))).toBe(0x4B37);
+    });
+
+    it('is 0xFFFF for no data', () => {
+        expect(crc16Modbus(new Uint8Array())).toBe(0xFFFF);
+    });
+});
+
+describe('decodeWusnPacket', () => {
+    it('decodes the little-endian v1 layout', () => {
+        expect(decodeWusnPacket(buildFrame({ temp: -35 }))).toMatchObject({
+            version: 1,
+            nodeId: 3,
+            seq: 42,
+            moisturePctX10: 253,
+            tempCX10: -35,
+            batteryPct: 87,
+            vbatMv: 3950,
+        });
+    });
+
+    it('rejects a CRC mismatch', () => {
+        expect(rejectionReason(() => decodeWusnPacket(buildFrame({}, 0x1234)))).toBe('CRC');
+    });
+
+    it('rejects a frame whose payload was altered after the CRC', () => {
+        const frame = buildFrame({});
+        frame.writeUInt16LE(999, 3);
+        expect(rejectionReason(() => decodeWusnPacket(frame))).toBe('CRC');
+    });
+
+    it('rejects wrong lengths and unknown versions', () => {
+        expect(rejectionReason(() => decodeWusnPacket(Buffer.alloc(0)))).toBe('LENGTH');
+        expect(rejectionReason(() => decodeWusnPacket(buildFrame({}).subarray(0, 11)))).toBe('LENGTH');
+
+        const frame = buildFrame({});
+        frame.writeUInt8(9, 0);
+        expect(rejectionReason(() => decodeWusnPacket(frame))).toBe('VERSION');
+    });
+});
+
+describe('decodeFrameText', () => {
+    it('detects hex and base64', () => {
+        const frame = buildFrame({});
+
+        expect(decodeFrameText(frame.toString('hex'))).toEqual({ bytes: frame, encoding: 'HEX' });
+        expect(decodeFrameText(frame.toString('base64'))).toEqual({ bytes: frame, encoding: 'BASE64' });
+    });
+
+    it('honours an explicit encoding', () => {
+        expect(rejectionReason(() => decodeFrameText('AQMq/QAf', 'HEX'))).toBe('ENCODING');
+    });
+
+    it('rejects text that is neither', () => {
+        expect(rejectionReason(() => decodeFrameText('not a frame!'))).toBe('ENCODING');
+    });
+});
@@ -0,0 +1,121 @@
+// src/services/sensor/packetCodec.service.ts
+/**
+ * WusnPacket Codec
+ * Mirrors the firmware packed struct and simpleCrc16 (CRC-16/Modbus) so gateways can forward raw frames
+ */
+
+import { FRAME_ENCODINGS, FRAME_REJECTION_REASONS } from '../../utils/constants.js';
+import type { FrameEncoding } from '../../utils/constants.js';
+import type { DecodedWusnPacket } from '../../models/common.types.js';
+import { FrameDecodeError } from '../../utils/errors.js';
+
+interface PacketLayout {
+    size: number;               // Bytes including trailing CRC
+    decode: (frame: Buffer) => DecodedWusnPacket;
+}
+
+/**
+ * Packet layouts by version byte
+ * New firmware formats only need an entry here, not a receiver reflash
+ */
+const PACKET_LAYOUTS: Record<number, PacketLayout> = {
+    // #pragma pack(1): u8 version, u8 nodeId, u8 seq, u16 moisturePctX10, i16 tempCX10,
+    //                  u8 batteryPct, u16 vbat_mV, u16 crc
+    1: {
+        size: 12,
+        decode: (frame) => ({
+            version: frame.readUInt8(0),
+            nodeId: frame.readUInt8(1),
+            seq: frame.readUInt8(2),
+            moisturePctX10: frame.readUInt16LE(3),
+            tempCX10: frame.readInt16LE(5),
+            batteryPct: frame.readUInt8(7),
+            vbatMv: frame.readUInt16LE(8),
+            crc: frame.readUInt16LE(10),
+        }),
+    },
+};
+
+const HEX_PATTERN = /^[0-9a-fA-F]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * CRC-16/Modbus (poly 0xA001 reflected, init 0xFFFF) - firmware simpleCrc16
+ */
+export function crc16Modbus(data: Uint8Array): number {
+    let crc = 0xFFFF;
+
+    for (const byte of data) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = (crc & 1) ? (crc >>> 1) ^ 0xA001 : crc >>> 1;
+        }
+    }
+
+    return crc;
+}
+
+/**
+ * Frame bytes from hex or base64 text
+ * Auto-detection is unambiguous for v1 frames: base64 of version byte 0x01 starts with "AQ"
+ */
+export function decodeFrameText(text: string, encoding?: FrameEncoding): { bytes: Buffer; encoding: FrameEncoding } {
+    const trimmed = text.trim();
+
+    const detected = encoding
+        ?? (HEX_PATTERN.test(trimmed) && trimmed.length % 2 === 0 ? FRAME_ENCODINGS.HEX : FRAME_ENCODINGS.BASE64);
+
+    if (detected === FRAME_ENCODINGS.HEX) {
+        if (!HEX_PATTERN.test(trimmed) || trimmed.length % 2 !== 0) {
+            throw new FrameDecodeError(FRAME_REJECTION_REASONS.ENCODING, 'Frame is not valid hex');
+        }
+        return { bytes: Buffer.from(trimmed, 'hex'), encoding: detected };
+    }
+
+    if (!BASE64_PATTERN.test(trimmed) || trimmed.length % 4 !== 0) {
+        throw new FrameDecodeError(FRAME_REJECTION_REASONS.ENCODING, 'Frame is neither hex nor base64');
+    }
+
+    return { bytes: Buffer.from(trimmed, 'base64'), encoding: detected };
+}
+
+/**
+ * Decode and verify a WusnPacket frame
+ */
+export function decodeWusnPacket(frame: Buffer): DecodedWusnPacket {
+    if (frame.length === 0) {
+        throw new FrameDecodeError(FRAME_REJECTION_REASONS.LENGTH, 'Empty frame');
+    }
+
+    const version = frame.readUInt8(0);
+    const layout = PACKET_LAYOUTS[version];
+
+    if (!layout) {
+        throw new FrameDecodeError(
+            FRAME_REJECTION_REASONS.VERSION,
+            `Unsupported packet version ${version}`,
+            { version }
+        );
+    }
+
+    if (frame.length !== layout.size) {
+        throw new FrameDecodeError(
+            FRAME_REJECTION_REASONS.LENGTH,
+            `Frame is ${frame.length} bytes, version ${version} packets are ${layout.size}`,
+            { version, length: frame.length }
+        );
+    }
+
+    const packet = layout.decode(frame);
+    const calculated = crc16Modbus(frame.subarray(0, layout.size - 2));
+
+    if (calculated !== packet.crc) {
+        throw new FrameDecodeError(
+            FRAME_REJECTION_REASONS.CRC,
+            `CRC mismatch (frame 0x${packet.crc.toString(16).padStart(4, '0')}, calculated 0x${calculated.toString(16).padStart(4, '0')})`,
+            { nodeId: packet.nodeId }
+        );
+    }
+
+    return packet;
+}
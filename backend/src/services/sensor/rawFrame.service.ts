@@ -0,0 +1,129 @@
+// src/services/sensor/rawFrame.service.ts
+/**
+ * Raw Frame Ingestion Service
+ * Decodes frames forwarded verbatim by gateways and stores the ones that fail
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../../config/logger.js';
+import { FRAME_ENCODINGS, FRAME_REJECTION_REASONS } from '../../utils/constants.js';
+import type { FrameEncoding, FrameRejectionReason } from '../../utils/constants.js';
+import { decodeFrameText, decodeWusnPacket } from './packetCodec.service.js';
+import { processSensorData } from './sensor.service.js';
+import { createRejectedFrame } from '../../repositories/rejectedFrame.repository.js';
+import { recordGatewayActivity } from '../gateway/gateway.service.js';
+import type { ProcessedSensorData } from '../../models/common.types.js';
+import { FrameDecodeError, ValidationError } from '../../utils/errors.js';
+
+const logger = createLogger({ service: 'raw-frame' });
+
+// Gateways may wrap the frame to pass link metadata: {"frame": "...", "rssi": -97}
+const rawFrameEnvelopeSchema = z.object({
+    frame: z.string().min(1),
+    encoding: z.nativeEnum(FRAME_ENCODINGS).optional(),
+    rssi: z.number().int().min(-120).max(0).optional(),
+    timestamp: z.string().datetime().optional(),
+});
+
+type RawFrameEnvelope = z.infer<typeof rawFrameEnvelopeSchema>;
+
+/**
+ * Envelope from message body: JSON envelope or bare hex/base64 text
+ */
+function parseEnvelope(message: string): RawFrameEnvelope {
+    if (!message.startsWith('{')) {
+        return { frame: message };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(message);
+    } catch {
+        throw new FrameDecodeError(FRAME_REJECTION_REASONS.ENCODING, 'Envelope is not valid JSON');
+    }
+
+    const result = rawFrameEnvelopeSchema.safeParse(json);
+    if (!result.success) {
+        throw new FrameDecodeError(
+            FRAME_REJECTION_REASONS.ENCODING,
+            `Invalid envelope: ${result.error.errors.map(e => `${e.path.join('.')} ${e.message}`).join(', ')}`
+        );
+    }
+
+    return result.data;
+}
+
+/**
+ * Decode raw frame from gateway and ingest it as a sensor reading
+ * Returns null when the frame was rejected (and stored)
+ */
+export async function processRawFrame(gatewayId: string, message: string): Promise<ProcessedSensorData | null> {
+    const receivedAt = new Date();
+    const body = message.trim();
+
+    let envelope: RawFrameEnvelope = { frame: body };
+    let encoding: FrameEncoding | undefined;
+    let nodeId: number | undefined;
+
+    const reject = async (reason: FrameRejectionReason, detail: string) => {
+        logger.warn({ gatewayId, nodeId, reason, detail }, 'Raw frame rejected');
+
+        await createRejectedFrame({
+            gatewayId,
+            payload: envelope.frame,
+            encoding,
+            reason,
+            detail,
+            nodeId,
+            rssi: envelope.rssi,
+            receivedAt,
+        });
+
+        return null;
+    };
+
+    // Even a rejected frame shows the gateway is alive
+    await recordGatewayActivity(gatewayId, receivedAt);
+
+    try {
+        envelope = parseEnvelope(body);
+
+        const decoded = decodeFrameText(envelope.frame, envelope.encoding);
+        encoding = decoded.encoding;
+
+        const packet = decodeWusnPacket(decoded.bytes);
+        nodeId = packet.nodeId;
+
+        if (packet.nodeId === 0) {
+            return await reject(FRAME_REJECTION_REASONS.VALUES, 'Node ID 0 is reserved');
+        }
+
+        if (packet.batteryPct > 100) {
+            return await reject(FRAME_REJECTION_REASONS.VALUES, `Battery ${packet.batteryPct}% out of range`);
+        }
+
+        logger.debug({ gatewayId, packet }, 'Raw frame decoded');
+
+        // Firmware sends VWC ×10 and °C ×10, the same scaling as JSON payloads
+        return await processSensorData({
+            nodeId: packet.nodeId,
+            moisture: packet.moisturePctX10,
+            temperature: packet.tempCX10,
+            batteryLevel: packet.batteryPct,
+            rssi: envelope.rssi,
+            seq: packet.seq,
+            timestamp: envelope.timestamp ?? receivedAt.toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof FrameDecodeError) {
+            return reject(error.reason, error.message);
+        }
+
+        if (error instanceof ValidationError) {
+            return reject(FRAME_REJECTION_REASONS.VALUES, error.message);
+        }
+
+        logger.error({ error, gatewayId }, 'Failed to process raw frame');
+        throw error;
+    }
+}
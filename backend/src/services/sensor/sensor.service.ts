@@ -1,44 +1,154 @@
 // src/services/sensor/sensor.service.ts
 import { createLogger } from '../../config/logger.js';
 import { createSensorReading } from '../../repositories/sensor.repository.js';
-import { getFieldByNodeId, createField } from '../../repositories/field.repository.js';
-import { convertToVWC, convertToTemperature } from './calibration.service.js';
-import type { SensorPayload, ProcessedSensorData } from '../../models/common.types.js';
-import type { SoilTexture } from '../../utils/constants.js';
-import { ValidationError } from '../../utils/errors.js';
-import { getLatestReading, getAverageReadings } from '../../repositories/sensor.repository.js';
+import { getFieldByNodeId } from '../../repositories/field.repository.js';
+import { holdPendingReading } from '../../repositories/pendingNode.repository.js';
+import { convertMoistureToVWC, convertToTemperature, applyCalibrationCurve } from './calibration.service.js';
+import { getNodeCalibration } from './calibrationProfile.service.js';
+import type {
+    SensorPayload,
+    ProcessedSensorData,
+    FieldMoisture,
+    FuzzySoilAnalysis,
+    SensorSeries,
+    SeriesPoint,
+    SeriesStats,
+} from '../../models/common.types.js';
+import {
+    PAYLOAD_ENCODINGS,
+    PAYLOAD_ENCODING_MAX,
+    SEQUENCE_STATUS,
+    SERIES_BUCKETS,
+    SERIES_CONSTANTS,
+    ROLLUP_RESOLUTIONS,
+    PENDING_NODE_CONSTANTS,
+    NODE_CONSTANTS,
+    REALTIME_EVENTS,
+} from '../../utils/constants.js';
+import type { SoilTexture, PayloadEncoding, SeriesBucket, UPCropName } from '../../utils/constants.js';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+import { getLatestReading, getAverageReadings, getReadingBuckets } from '../../repositories/sensor.repository.js';
+import type { ReadingBucketRow } from '../../repositories/sensor.repository.js';
+import { getRollupBuckets } from '../../repositories/rollup.repository.js';
+import { getWeatherBuckets } from '../../repositories/weather.repository.js';
+import { getRetentionCutoffs } from '../retention.service.js';
+import { touchNode, getNodeByNodeId } from '../../repositories/node.repository.js';
+import { evaluateReadingAlerts, raiseLowBatteryAlert } from '../alert/alert.service.js';
+import { checkPacketSequence } from '../node/sequence.service.js';
+import { recordFieldMoisture } from '../field/fieldMoisture.service.js';
+import { analyzeSoilMoisture } from '../analysis/fuzzySoil.service.js';
+import { createAnalysis } from '../../repositories/analysis.repository.js';
+import { broadcastEvent } from '../websocket.service.js';
 
 
 const logger = createLogger({ service: 'sensor' });
 
+export interface ProcessSensorOptions {
+    replay?: boolean | undefined;   // Re-processing held readings: store only, no alerts
+}
+
+/**
+ * Whether payload is the firmware low-battery SOS (zero moisture and temperature)
+ */
+function isLowBatterySOS(payload: SensorPayload): payload is SensorPayload & { batteryLevel: number } {
+    return payload.moisture === 0
+        && payload.temperature === 0
+        && payload.batteryLevel !== undefined
+        && payload.batteryLevel < NODE_CONSTANTS.SOS_BATTERY_PCT;
+}
+
 /**
  * Process incoming sensor data
  */
-export async function processSensorData(payload: SensorPayload): Promise<ProcessedSensorData> {
+export async function processSensorData(
+    payload: SensorPayload,
+    options: ProcessSensorOptions = {}
+): Promise<ProcessedSensorData> {
     try {
         logger.info({ nodeId: payload.nodeId }, 'Processing sensor data');
 
         const timestamp = payload.timestamp ? new Date(payload.timestamp) : new Date();
 
-        // Get or create field configuration
+        // Unknown nodes are queued until claimed into a real field; soil texture and location are unknown
         let field;
         try {
             field = await getFieldByNodeId(payload.nodeId);
         } catch (error) {
-            // Field doesn't exist, create with defaults
-            logger.warn({ nodeId: payload.nodeId }, 'Field not found, creating default config');
-            field = await createField({
+            if (!(error instanceof NotFoundError)) throw error;
+
+            const held = await holdPendingReading(
+                {
+                    nodeId: payload.nodeId,
+                    moisture: payload.moisture,
+                    temperature: payload.temperature,
+                    rssi: payload.rssi,
+                    batteryLevel: payload.batteryLevel,
+                    seq: payload.seq,
+                    timestamp,
+                },
+                PENDING_NODE_CONSTANTS.MAX_HELD_READINGS
+            );
+
+            if (held) {
+                logger.warn({ nodeId: payload.nodeId }, 'No field for node, reading held pending registration');
+            } else {
+                logger.warn({ nodeId: payload.nodeId }, 'Pending node hold limit reached, reading dropped');
+            }
+
+            return {
                 nodeId: payload.nodeId,
-                gatewayId: `gateway-${payload.nodeId}`,
-                fieldName: `Field ${payload.nodeId}`,
-                latitude: 26.8467,
-                longitude: 80.9462,
-                soilTexture: 'SANDY_LOAM',
-            });
+                soilMoistureVWC: null,
+                soilTemperature: null,
+                timestamp,
+                duplicate: false,
+                pending: true,
+                lowBattery: false,
+            };
+        }
+
+        // Low-battery SOS: firmware skips the sensors, so the zeros are not a soil reading
+        if (isLowBatterySOS(payload)) {
+            const node = await touchNode(payload.nodeId, timestamp);
+            logger.warn({ nodeId: payload.nodeId, batteryLevel: payload.batteryLevel }, 'Low battery SOS from node');
+
+            if (!options.replay && timestamp >= node.lastSeen) {
+                try {
+                    await raiseLowBatteryAlert(payload.nodeId, payload.batteryLevel);
+                } catch (error) {
+                    logger.warn({ error, nodeId: payload.nodeId }, 'Low battery alert failed for SOS packet');
+                }
+            }
+
+            return {
+                nodeId: payload.nodeId,
+                soilMoistureVWC: null,
+                soilTemperature: null,
+                timestamp,
+                duplicate: false,
+                pending: false,
+                lowBattery: true,
+            };
+        }
+
+        // The node record declares its payload encoding (nodes not registered yet use the default)
+        let encoding: PayloadEncoding = PAYLOAD_ENCODINGS.PRESCALED;
+        try {
+            encoding = (await getNodeByNodeId(payload.nodeId)).payloadEncoding as PayloadEncoding;
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+        }
+
+        if (payload.moisture > PAYLOAD_ENCODING_MAX[encoding]) {
+            throw new ValidationError(
+                `Moisture ${payload.moisture} out of range for ${encoding} encoding (max ${PAYLOAD_ENCODING_MAX[encoding]})`
+            );
         }
 
-        // Convert raw values using calibration - type assertion for soilTexture
-        const vwc = convertToVWC(payload.moisture, field.soilTexture as SoilTexture);
+        // Convert using node calibration profile, else encoding default (texture curve for raw ADC)
+        const calibration = await getNodeCalibration(payload.nodeId);
+        const vwc = calibration
+            ? applyCalibrationCurve(calibration.curve, payload.moisture)
+            : convertMoistureToVWC(payload.moisture, encoding, field.soilTexture as SoilTexture);
         const temp = convertToTemperature(payload.temperature);
 
         // Validate converted values
@@ -50,16 +160,99 @@ export async function processSensorData(payload: SensorPayload): Promise<Process
             throw new ValidationError(`Invalid temperature value: ${temp} (raw: ${payload.temperature})`);
         }
 
+        // Register node / refresh lastSeen only once the payload is known to be valid
+        const node = await touchNode(payload.nodeId, timestamp);
+
+        // Drop retries and multi-gateway copies of a packet already ingested
+        let gapBefore = 0;
+        if (payload.seq !== undefined) {
+            const sequence = await checkPacketSequence(payload.nodeId, payload.seq, timestamp);
+            gapBefore = sequence.missed;
+
+            if (sequence.status === SEQUENCE_STATUS.DUPLICATE) {
+                logger.info({ nodeId: payload.nodeId, seq: payload.seq }, 'Duplicate packet ignored');
+
+                return {
+                    nodeId: payload.nodeId,
+                    soilMoistureVWC: vwc,
+                    soilTemperature: temp,
+                    timestamp,
+                    duplicate: true,
+                    pending: false,
+                    lowBattery: false,
+                };
+            }
+        }
+
         // Store in database
-        await createSensorReading({
+        const reading = await createSensorReading({
             nodeId: payload.nodeId,
             moisture: payload.moisture,
             temperature: payload.temperature,
             soilMoistureVWC: vwc,
             soilTemperature: temp,
+            rssi: payload.rssi,
+            batteryLevel: payload.batteryLevel,
+            calibrationVersion: calibration?.version,
+            seq: payload.seq,
+            gapBefore,
             timestamp,
         });
 
+        // Graded soil status for the reading; analysis failures must not reject it either
+        let analysis: FuzzySoilAnalysis | null = null;
+        try {
+            analysis = analyzeSoilMoisture(vwc, temp, field.soilTexture as SoilTexture, field.cropType as UPCropName | null);
+            await createAnalysis(reading.id, timestamp, analysis);
+        } catch (error) {
+            logger.warn({ error, nodeId: payload.nodeId, readingId: reading.id }, 'Fuzzy analysis failed for reading');
+        }
+
+        // Alerts describe current conditions; backfilled readings older than lastSeen are only stored
+        let fieldMoisture: FieldMoisture | null = null;
+        if (!options.replay && timestamp >= node.lastSeen) {
+            // Field-level moisture for multi-node fields; the node reading itself is already stored
+            try {
+                fieldMoisture = await recordFieldMoisture(field);
+            } catch (error) {
+                logger.warn({ error, nodeId: payload.nodeId, fieldId: field.id }, 'Field moisture aggregation failed for reading');
+            }
+
+            // Alert failures must not reject an otherwise valid reading
+            try {
+                await evaluateReadingAlerts({
+                    nodeId: payload.nodeId,
+                    readingId: reading.id,
+                    soilMoistureVWC: vwc,
+                    soilTemperature: temp,
+                    batteryLevel: payload.batteryLevel,
+                    timestamp,
+                    fieldMoisture,
+                });
+            } catch (error) {
+                logger.warn({ error, nodeId: payload.nodeId }, 'Alert evaluation failed for reading');
+            }
+        }
+
+        // Dashboards get the calibrated reading, not the raw MQTT payload
+        if (!options.replay) {
+            broadcastEvent(REALTIME_EVENTS.READING, { nodeId: payload.nodeId, fieldId: field.id }, {
+                readingId: reading.id,
+                soilMoistureVWC: vwc,
+                soilTemperature: temp,
+                rssi: payload.rssi ?? null,
+                batteryLevel: payload.batteryLevel ?? null,
+                calibrationVersion: calibration?.version ?? null,
+                timestamp,
+                analysis,
+                fieldMoisture: fieldMoisture && {
+                    soilMoistureVWC: fieldMoisture.soilMoistureVWC,
+                    strategy: fieldMoisture.strategy,
+                    nodeCount: fieldMoisture.nodeCount,
+                },
+            });
+        }
+
         logger.info(
             { nodeId: payload.nodeId, vwc, temp },
             'Sensor data processed successfully'
@@ -70,6 +263,9 @@ export async function processSensorData(payload: SensorPayload): Promise<Process
             soilMoistureVWC: vwc,
             soilTemperature: temp,
             timestamp,
+            duplicate: false,
+            pending: false,
+            lowBattery: false,
         };
     } catch (error) {
         logger.error({ error, payload }, 'Failed to process sensor data');
@@ -93,6 +289,7 @@ export async function getLatestSensorData(nodeId: number) {
             soilMoistureVWC: reading.soilMoistureVWC,
             soilTemperature: reading.soilTemperature,
             timestamp: reading.timestamp,
+            analysis: reading.analysis,
         };
     } catch (error) {
         logger.error({ error, nodeId }, 'Failed to get latest sensor data');
@@ -122,4 +319,189 @@ export async function getAverageSensorData(nodeId: number, hours: number = 24) {
         logger.error({ error, nodeId, hours }, 'Failed to get average sensor data');
         throw error;
     }
-}
\ No newline at end of file
+}
+
+const BUCKET_MS: Record<SeriesBucket, number> = {
+    '1h': 60 * 60 * 1000,
+    '1d': 24 * 60 * 60 * 1000,
+    '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+function toStats(min: number | null, max: number | null, avg: number | null, count: number): SeriesStats {
+    return {
+        min,
+        max,
+        avg: avg !== null ? Number(avg.toFixed(2)) : null,
+        count,
+    };
+}
+
+const EMPTY_STATS: SeriesStats = { min: null, max: null, avg: null, count: 0 };
+
+/**
+ * Combine two partial aggregates of the same metric (count-weighted mean)
+ */
+function mergeMetric(
+    a: { min: number | null; max: number | null; avg: number | null; count: number },
+    b: { min: number | null; max: number | null; avg: number | null; count: number }
+) {
+    if (a.count === 0) return b;
+    if (b.count === 0) return a;
+
+    return {
+        min: Math.min(a.min ?? Infinity, b.min ?? Infinity),
+        max: Math.max(a.max ?? -Infinity, b.max ?? -Infinity),
+        avg: ((a.avg ?? 0) * a.count + (b.avg ?? 0) * b.count) / (a.count + b.count),
+        count: a.count + b.count,
+    };
+}
+
+/**
+ * Merge soil bucket rows from raw readings and rollups (disjoint sources, same buckets)
+ */
+function mergeReadingBuckets(sources: ReadingBucketRow[][]): ReadingBucketRow[] {
+    const merged = new Map<number, ReadingBucketRow>();
+
+    for (const row of sources.flat()) {
+        const key = row.bucket.getTime();
+        const existing = merged.get(key);
+
+        if (!existing) {
+            merged.set(key, row);
+            continue;
+        }
+
+        const vwc = mergeMetric(
+            { min: existing.vwcMin, max: existing.vwcMax, avg: existing.vwcAvg, count: existing.vwcCount },
+            { min: row.vwcMin, max: row.vwcMax, avg: row.vwcAvg, count: row.vwcCount }
+        );
+        const temp = mergeMetric(
+            { min: existing.tempMin, max: existing.tempMax, avg: existing.tempAvg, count: existing.tempCount },
+            { min: row.tempMin, max: row.tempMax, avg: row.tempAvg, count: row.tempCount }
+        );
+
+        merged.set(key, {
+            bucket: row.bucket,
+            vwcMin: vwc.min,
+            vwcMax: vwc.max,
+            vwcAvg: vwc.avg,
+            vwcCount: vwc.count,
+            tempMin: temp.min,
+            tempMax: temp.max,
+            tempAvg: temp.avg,
+            tempCount: temp.count,
+        });
+    }
+
+    return [...merged.values()];
+}
+
+/**
+ * Soil buckets for [from, to) from raw readings plus whatever retention has rolled up
+ * A reading is either raw or rolled up, never both, so the sources add without double counting.
+ * Daily rollups are UTC days: in other timezones their day/week buckets are aligned to UTC midnight,
+ * and 1h series stop at the hourly rollup horizon
+ */
+async function getSoilBuckets(
+    nodeId: number,
+    bucket: SeriesBucket,
+    timezone: string,
+    from: Date,
+    to: Date
+): Promise<ReadingBucketRow[]> {
+    const unit = SERIES_BUCKETS[bucket];
+    const { rawFrom, hourlyFrom } = getRetentionCutoffs();
+    const queries = [getReadingBuckets(nodeId, unit, timezone, from, to)];
+
+    // Rollups only ever hold readings older than the raw retention cutoff
+    if (from < rawFrom) {
+        const hourlyStart = from > hourlyFrom ? from : hourlyFrom;
+        if (hourlyStart < to) {
+            queries.push(getRollupBuckets(nodeId, ROLLUP_RESOLUTIONS.HOURLY, unit, timezone, hourlyStart, to));
+        }
+
+        const dailyEnd = to < hourlyFrom ? to : hourlyFrom;
+        if (bucket !== '1h' && from < dailyEnd) {
+            queries.push(getRollupBuckets(nodeId, ROLLUP_RESOLUTIONS.DAILY, unit, timezone, from, dailyEnd));
+        }
+    }
+
+    const sources = await Promise.all(queries);
+    return sources.length === 1 ? sources[0]! : mergeReadingBuckets(sources);
+}
+
+/**
+ * Get time-bucketed soil and air series for node (aggregated in SQL)
+ */
+export async function getSensorSeries(
+    nodeId: number,
+    bucket: SeriesBucket,
+    from: Date,
+    to: Date,
+    timezone: string = 'UTC'
+): Promise<SensorSeries> {
+    try {
+        const buckets = Math.ceil((to.getTime() - from.getTime()) / BUCKET_MS[bucket]);
+        if (buckets > SERIES_CONSTANTS.MAX_BUCKETS) {
+            throw new ValidationError(
+                `Range spans ${buckets} ${bucket} buckets, at most ${SERIES_CONSTANTS.MAX_BUCKETS} allowed; use a larger bucket`
+            );
+        }
+
+        // Air measurements come from the gateway serving the node's field
+        let gatewayId: string | null = null;
+        try {
+            gatewayId = (await getFieldByNodeId(nodeId)).gatewayId;
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+        }
+
+        const unit = SERIES_BUCKETS[bucket];
+        const [soilRows, airRows] = await Promise.all([
+            getSoilBuckets(nodeId, bucket, timezone, from, to),
+            gatewayId ? getWeatherBuckets(gatewayId, unit, timezone, from, to) : Promise.resolve([]),
+        ]);
+
+        const points = new Map<number, SeriesPoint>();
+        const pointAt = (bucketStart: Date): SeriesPoint => {
+            const key = bucketStart.getTime();
+            let point = points.get(key);
+            if (!point) {
+                point = {
+                    bucket: bucketStart,
+                    soilMoistureVWC: EMPTY_STATS,
+                    soilTemperature: EMPTY_STATS,
+                    airTemperature: EMPTY_STATS,
+                    humidity: EMPTY_STATS,
+                };
+                points.set(key, point);
+            }
+            return point;
+        };
+
+        for (const row of soilRows) {
+            const point = pointAt(row.bucket);
+            point.soilMoistureVWC = toStats(row.vwcMin, row.vwcMax, row.vwcAvg, row.vwcCount);
+            point.soilTemperature = toStats(row.tempMin, row.tempMax, row.tempAvg, row.tempCount);
+        }
+
+        for (const row of airRows) {
+            const point = pointAt(row.bucket);
+            point.airTemperature = toStats(row.airTempMin, row.airTempMax, row.airTempAvg, row.airTempCount);
+            point.humidity = toStats(row.humidityMin, row.humidityMax, row.humidityAvg, row.humidityCount);
+        }
+
+        return {
+            nodeId,
+            gatewayId,
+            bucket,
+            timezone,
+            from,
+            to,
+            points: [...points.values()].sort((a, b) => a.bucket.getTime() - b.bucket.getTime()),
+        };
+    } catch (error) {
+        logger.error({ error, nodeId, bucket, from, to }, 'Failed to get sensor series');
+        throw error;
+    }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getDayOfYear,
+    calculateExtraterrestrialRadiation,
+    calculateHargreavesET0,
+    calculatePenmanMonteithET0,
+    toPressureKPa,
+} from './et0.service.js';
+
+describe('getDayOfYear', () => {
+    it('counts from 1 January', () => {
+        expect(getDayOfYear(new Date('2026-01-01T00:00:00Z'))).toBe(1);
+        expect(getDayOfYear(new Date('2026-09-03T12:00:00Z'))).toBe(246);
+        expect(getDayOfYear(new Date('2024-12-31T23:59:00Z'))).toBe(366);
+    });
+});
+
+describe('calculateExtraterrestrialRadiation', () => {
+    it('matches FAO-56 Example 8 (20°S, 3 September)', () => {
+        expect(calculateExtraterrestrialRadiation(-20, 246)).toBeCloseTo(32.2, 1);
+    });
+
+    it('is zero during polar night', () => {
+        expect(calculateExtraterrestrialRadiation(80, 355)).toBe(0);
+    });
+});
+
+describe('calculateHargreavesET0', () => {
+    it('applies FAO-56 Eq. 52', () => {
+        // 0.0023 × (20.7 + 17.8) × √11.8 × 0.408 × 32.2
+        expect(calculateHargreavesET0(14.8, 26.6, 32.2)).toBeCloseTo(4.0, 1);
+    });
+
+    it('treats an inverted temperature range as zero', () => {
+        expect(calculateHargreavesET0(25, 20, 30)).toBe(0);
+    });
+
+    it('never goes negative in frost', () => {
+        expect(calculateHargreavesET0(-30, -20, 10)).toBe(0);
+    });
+});
+
+describe('calculatePenmanMonteithET0', () => {
+    const base = { tempMin: 14.8, tempMax: 26.6, humidity: 60, pressureKPa: 101.3, windSpeed: 2, ra: 32.2 };
+
+    it('gives a plausible daily ET0 for a warm day', () => {
+        const et0 = calculatePenmanMonteithET0(base);
+        expect(et0).toBeGreaterThan(2);
+        expect(et0).toBeLessThan(7);
+    });
+
+    it('rises with wind and falls with humidity', () => {
+        const et0 = calculatePenmanMonteithET0(base);
+        expect(calculatePenmanMonteithET0({ ...base, windSpeed: 6 })).toBeGreaterThan(et0);
+        expect(calculatePenmanMonteithET0({ ...base, humidity: 95 })).toBeLessThan(et0);
+    });
+
+    it('never goes negative', () => {
+        expect(calculatePenmanMonteithET0({ ...base, tempMin: -5, tempMax: -4, humidity: 100, ra: 2 })).toBeGreaterThanOrEqual(0);
+    });
+});
+
+describe('toPressureKPa', () => {
+    it('converts hPa and falls back to standard pressure', () => {
+        expect(toPressureKPa(1013)).toBe(101.3);
+        expect(toPressureKPa(null)).toBe(101.3);
+        expect(toPressureKPa(undefined)).toBe(101.3);
+    });
+});
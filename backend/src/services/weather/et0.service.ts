@@ -0,0 +1,116 @@
+// src/services/weather/et0.service.ts
+/**
+ * Reference Evapotranspiration (ET0) Calculations
+ * Source: FAO-56 Chapter 3 and 4
+ * - Hargreaves-Samani: temperature + extraterrestrial radiation
+ * - Penman-Monteith: adds humidity, pressure and wind (radiation from temperature range)
+ */
+
+const SOLAR_CONSTANT = 0.0820;          // MJ m⁻² min⁻¹
+const STEFAN_BOLTZMANN = 4.903e-9;      // MJ K⁻⁴ m⁻² day⁻¹
+const MJ_TO_MM = 0.408;                 // Equivalent evaporation (mm per MJ m⁻²)
+const KRS_INTERIOR = 0.16;              // Hargreaves radiation adjustment (interior locations)
+const ALBEDO = 0.23;                    // Reference grass
+const WIND_MEASUREMENT_HEIGHT_M = 10;   // OpenWeatherMap reports 10 m wind
+const STANDARD_PRESSURE_KPA = 101.3;
+
+export interface PenmanMonteithInput {
+    tempMin: number;        // °C
+    tempMax: number;        // °C
+    humidity: number;       // Mean relative humidity (%)
+    pressureKPa: number;    // Atmospheric pressure (kPa)
+    windSpeed: number;      // Wind speed at 10 m (m/s)
+    ra: number;             // Extraterrestrial radiation (MJ m⁻² day⁻¹)
+}
+
+/**
+ * Day of year (1-366)
+ */
+export function getDayOfYear(date: Date): number {
+    const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+    const current = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    return Math.floor((current - start) / 86400000);
+}
+
+/**
+ * Extraterrestrial radiation Ra (MJ m⁻² day⁻¹), FAO-56 Eq. 21
+ */
+export function calculateExtraterrestrialRadiation(latitude: number, dayOfYear: number): number {
+    const phi = (latitude * Math.PI) / 180;
+
+    // Inverse relative Earth-Sun distance (Eq. 23) and solar declination (Eq. 24)
+    const dr = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+    const delta = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+
+    // Sunset hour angle (Eq. 25), clamped for polar day/night
+    const cosWs = Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta)));
+    const ws = Math.acos(cosWs);
+
+    const ra = ((24 * 60) / Math.PI) * SOLAR_CONSTANT * dr *
+        (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+
+    return Math.max(0, ra);
+}
+
+/**
+ * Hargreaves-Samani ET0 (mm/day), FAO-56 Eq. 52
+ */
+export function calculateHargreavesET0(tempMin: number, tempMax: number, ra: number): number {
+    const tempMean = (tempMax + tempMin) / 2;
+    const tempRange = Math.max(tempMax - tempMin, 0);
+
+    const et0 = 0.0023 * (tempMean + 17.8) * Math.sqrt(tempRange) * MJ_TO_MM * ra;
+
+    return Math.max(0, et0);
+}
+
+/**
+ * Saturation vapour pressure at temperature (kPa), FAO-56 Eq. 11
+ */
+function saturationVapourPressure(temp: number): number {
+    return 0.6108 * Math.exp((17.27 * temp) / (temp + 237.3));
+}
+
+/**
+ * FAO-56 Penman-Monteith ET0 (mm/day), Eq. 6
+ * Solar radiation estimated from temperature range (Eq. 50), G = 0 for daily steps
+ */
+export function calculatePenmanMonteithET0(input: PenmanMonteithInput): number {
+    const { tempMin, tempMax, humidity, pressureKPa, windSpeed, ra } = input;
+    const tempMean = (tempMax + tempMin) / 2;
+
+    // Vapour pressure (Eq. 12, Eq. 19 using mean RH)
+    const es = (saturationVapourPressure(tempMax) + saturationVapourPressure(tempMin)) / 2;
+    const ea = es * Math.min(100, Math.max(0, humidity)) / 100;
+
+    // Slope of vapour pressure curve (Eq. 13) and psychrometric constant (Eq. 8)
+    const slope = (4098 * saturationVapourPressure(tempMean)) / Math.pow(tempMean + 237.3, 2);
+    const gamma = 0.000665 * pressureKPa;
+
+    // Wind at 2 m (Eq. 47)
+    const u2 = windSpeed * (4.87 / Math.log(67.8 * WIND_MEASUREMENT_HEIGHT_M - 5.42));
+
+    // Net radiation (Eq. 50, 37, 38, 39, 40)
+    const rs = KRS_INTERIOR * Math.sqrt(Math.max(tempMax - tempMin, 0)) * ra;
+    const rso = 0.75 * ra;
+    const rns = (1 - ALBEDO) * rs;
+    const tMaxK4 = Math.pow(tempMax + 273.16, 4);
+    const tMinK4 = Math.pow(tempMin + 273.16, 4);
+    const relativeShortwave = rso > 0 ? Math.min(rs / rso, 1) : 0;
+    const rnl = STEFAN_BOLTZMANN * ((tMaxK4 + tMinK4) / 2) *
+        (0.34 - 0.14 * Math.sqrt(ea)) *
+        (1.35 * relativeShortwave - 0.35);
+    const rn = rns - rnl;
+
+    const numerator = MJ_TO_MM * slope * rn + gamma * (900 / (tempMean + 273)) * u2 * (es - ea);
+    const denominator = slope + gamma * (1 + 0.34 * u2);
+
+    return Math.max(0, numerator / denominator);
+}
+
+/**
+ * Convert BME280 pressure (hPa) to kPa, standard atmosphere if unknown
+ */
+export function toPressureKPa(pressureHPa: number | null | undefined): number {
+    return pressureHPa ? pressureHPa / 10 : STANDARD_PRESSURE_KPA;
+}
@@ -11,8 +11,16 @@ import { WEATHER_CONSTANTS } from '../../utils/constants.js';
 import {
     cacheWeatherForecast,
     getCachedWeatherForecast,
+    getWeatherReadingsForDateRange,
 } from '../../repositories/weather.repository.js';
-import type { WeatherForecast, WeatherForecastDay } from '../../models/common.types.js';
+import {
+    getDayOfYear,
+    calculateExtraterrestrialRadiation,
+    calculateHargreavesET0,
+    calculatePenmanMonteithET0,
+    toPressureKPa,
+} from './et0.service.js';
+import type { WeatherForecast, WeatherForecastDay, ET0ForecastDay } from '../../models/common.types.js';
 import { ExternalServiceError } from '../../utils/errors.js';
 
 const logger = createLogger({ service: 'weather' });
@@ -31,6 +39,9 @@ interface OpenWeatherResponse {
         weather: Array<{
             description: string;
         }>;
+        wind?: {
+            speed: number;
+        };
         rain?: {
             '3h': number;
         };
@@ -59,6 +70,7 @@ async function fetchFromAPI(latitude: number, longitude: number): Promise<Weathe
         const dailyData = new Map<string, {
             temps: number[];
             humidity: number[];
+            windSpeeds: number[];
             precipitation: number;
             descriptions: string[];
         }>();
@@ -74,6 +86,7 @@ async function fetchFromAPI(latitude: number, longitude: number): Promise<Weathe
                 dailyData.set(dateStr, {
                     temps: [],
                     humidity: [],
+                    windSpeeds: [],
                     precipitation: 0,
                     descriptions: [],
                 });
@@ -83,6 +96,9 @@ async function fetchFromAPI(latitude: number, longitude: number): Promise<Weathe
             if (dayData) {
                 dayData.temps.push(item.main.temp);
                 dayData.humidity.push(item.main.humidity);
+                if (item.wind) {
+                    dayData.windSpeeds.push(item.wind.speed);
+                }
                 dayData.precipitation += item.rain?.['3h'] ?? 0;
                 dayData.descriptions.push(item.weather[0]?.description ?? 'Clear');
             }
@@ -98,6 +114,9 @@ async function fetchFromAPI(latitude: number, longitude: number): Promise<Weathe
                 tempAvg: Number((data.temps.reduce((a, b) => a + b, 0) / data.temps.length).toFixed(1)),
                 humidity: Number((data.humidity.reduce((a, b) => a + b, 0) / data.humidity.length).toFixed(0)),
                 precipitation: Number(data.precipitation.toFixed(1)),
+                windSpeed: data.windSpeeds.length > 0
+                    ? Number((data.windSpeeds.reduce((a, b) => a + b, 0) / data.windSpeeds.length).toFixed(1))
+                    : undefined,
                 description: data.descriptions[0] ?? 'Clear',
             }));
 
@@ -221,33 +240,102 @@ export async function isRainExpected(
 }
 
 /**
- * Get simplified ET estimation using Hargreaves method
- * ET0 ≈ 0.0023 × (Tmean + 17.8) × (Tmax - Tmin)^0.5 × Ra
- * Simplified without solar radiation: ET0 ≈ 0.0135 × (Tmean + 17.8) × TD
+ * Mean humidity and pressure from gateway BME280 over the last 24 hours
+ */
+async function getGatewayAtmosphere(gatewayId: string) {
+    const end = new Date();
+    const start = new Date(end.getTime() - 24 * 60 * 60 * 1000);
+    const readings = await getWeatherReadingsForDateRange(gatewayId, start, end);
+
+    if (readings.length === 0) {
+        return null;
+    }
+
+    const pressures = readings
+        .map(r => r.pressure)
+        .filter((p): p is number => p !== null);
+
+    return {
+        humidity: readings.reduce((sum, r) => sum + r.humidity, 0) / readings.length,
+        pressureHPa: pressures.length > 0
+            ? pressures.reduce((a, b) => a + b, 0) / pressures.length
+            : null,
+    };
+}
+
+/**
+ * Get daily ET0 series for forecast window
+ * Penman-Monteith when gateway humidity/pressure and forecast wind are available,
+ * Hargreaves-Samani otherwise
+ */
+export async function getET0Series(
+    latitude: number,
+    longitude: number,
+    gatewayId?: string
+): Promise<ET0ForecastDay[]> {
+    const forecast = await getWeatherForecast(latitude, longitude);
+
+    let atmosphere: Awaited<ReturnType<typeof getGatewayAtmosphere>> = null;
+    if (gatewayId) {
+        try {
+            atmosphere = await getGatewayAtmosphere(gatewayId);
+        } catch (error) {
+            logger.warn({ error, gatewayId }, 'Gateway readings unavailable, using Hargreaves-Samani');
+        }
+    }
+
+    return forecast.forecast.map((day, index) => {
+        const ra = calculateExtraterrestrialRadiation(latitude, getDayOfYear(new Date(day.date)));
+
+        let et0: number;
+        let method: ET0ForecastDay['method'];
+
+        if (atmosphere && day.windSpeed !== undefined) {
+            et0 = calculatePenmanMonteithET0({
+                tempMin: day.tempMin,
+                tempMax: day.tempMax,
+                // Measured humidity for today, forecast humidity for later days
+                humidity: index === 0 ? atmosphere.humidity : day.humidity,
+                pressureKPa: toPressureKPa(atmosphere.pressureHPa),
+                windSpeed: day.windSpeed,
+                ra,
+            });
+            method = 'penman_monteith';
+        } else {
+            et0 = calculateHargreavesET0(day.tempMin, day.tempMax, ra);
+            method = 'hargreaves_samani';
+        }
+
+        return {
+            date: day.date,
+            et0: Number(et0.toFixed(2)),
+            method,
+            ra: Number(ra.toFixed(2)),
+            tempMin: day.tempMin,
+            tempMax: day.tempMax,
+            precipitation: day.precipitation,
+        };
+    });
+}
+
+/**
+ * Estimate today's reference ET (mm/day)
+ * Falls back to regional default when forecast is unavailable
  */
 export async function estimateDailyET(
     latitude: number,
-    longitude: number
+    longitude: number,
+    gatewayId?: string
 ): Promise<number> {
     try {
-        const forecast = await getWeatherForecast(latitude, longitude);
-
-        if (forecast.forecast.length === 0) {
-            return 4.0; // Default ET for UP region (mm/day)
-        }
+        const series = await getET0Series(latitude, longitude, gatewayId);
 
-        const today = forecast.forecast[0];
+        const today = series[0];
         if (!today) {
-            return 4.0;
+            return 4.0; // Default ET for UP region (mm/day)
         }
 
-        const tempDiff = Math.max(today.tempMax - today.tempMin, 1);
-        const tempMean = today.tempAvg;
-
-        // Simplified Hargreaves formula (without Ra calculation)
-        const et0 = 0.0135 * (tempMean + 17.8) * tempDiff;
-
-        return Number(Math.max(et0, 1.0).toFixed(2)); // Minimum 1mm/day
+        return Number(Math.max(today.et0, 1.0).toFixed(2)); // Minimum 1mm/day
 
     } catch (error) {
         logger.warn({ error }, 'ET estimation failed, using default');
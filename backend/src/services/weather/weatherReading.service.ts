@@ -0,0 +1,53 @@
+// src/services/weather/weatherReading.service.ts
+/**
+ * Gateway Weather Reading Service
+ * Stores BME280 air measurements reported by gateways
+ */
+
+import { createLogger } from '../../config/logger.js';
+import { ALERT_CONSTANTS } from '../../utils/constants.js';
+import { createWeatherReading } from '../../repositories/weather.repository.js';
+import { evaluateWeatherAlerts } from '../alert/alert.service.js';
+import { recordGatewayActivity } from '../gateway/gateway.service.js';
+import type { WeatherPayload } from '../../models/common.types.js';
+
+const logger = createLogger({ service: 'weather' });
+
+/**
+ * Process weather data from gateway
+ */
+export async function processWeatherData(payload: WeatherPayload) {
+    try {
+        const timestamp = payload.timestamp ? new Date(payload.timestamp) : new Date();
+
+        const reading = await createWeatherReading({
+            gatewayId: payload.gatewayId,
+            airTemperature: payload.airTemperature,
+            humidity: payload.humidity,
+            pressure: payload.pressure,
+            timestamp,
+        });
+
+        await recordGatewayActivity(payload.gatewayId, timestamp, payload.firmwareVersion);
+
+        // Backfilled readings from buffered uploads no longer describe current conditions
+        const ageMinutes = (Date.now() - timestamp.getTime()) / 60000;
+        if (ageMinutes <= ALERT_CONSTANTS.WEATHER_MAX_AGE_MINUTES) {
+            try {
+                await evaluateWeatherAlerts(payload.gatewayId, payload.airTemperature);
+            } catch (error) {
+                logger.warn({ error, gatewayId: payload.gatewayId }, 'Alert evaluation failed for weather data');
+            }
+        }
+
+        logger.info(
+            { gatewayId: payload.gatewayId, airTemp: payload.airTemperature },
+            'Weather data processed'
+        );
+
+        return reading;
+    } catch (error) {
+        logger.error({ error, payload }, 'Failed to process weather data');
+        throw error;
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * WebSocket Service
+ * Pushes processed data to dashboard clients, which subscribe per field or node
+ *
+ * Client → server:
+ *   { "action": "subscribe" | "unsubscribe", "fieldId": 3 }   (or "nodeId": 12)
+ *   { "action": "ping" }
+ * Server → client:
+ *   { "type": "READING" | "IRRIGATION_DECISION" | "GDD_STAGE" | "ALERT",
+ *     "nodeId": 12, "fieldId": 3, "data": { ... }, "timestamp": "..." }
+ *   { "type": "SUBSCRIBED" | "UNSUBSCRIBED" | "PONG" | "ERROR", ... }
+ *
+ * A field subscription receives events of all its nodes (primary and members).
+ */
+
+import type { Server, IncomingMessage } from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { RawData } from 'ws';
+import { z } from 'zod';
+import { createLogger } from '../config/logger.js';
+import { WEBSOCKET_CONSTANTS } from '../utils/constants.js';
+import type { RealtimeEventType } from '../utils/constants.js';
+import { getFieldById, getFieldByNodeId } from '../repositories/field.repository.js';
+import { NotFoundError } from '../utils/errors.js';
+
+const logger = createLogger({ service: 'websocket' });
+
+interface ClientState {
+    alive: boolean;
+    fieldIds: Set<number>;
+    nodeIds: Set<number>;
+}
+
+export interface RealtimeTarget {
+    nodeId: number;
+    fieldId?: number | null | undefined;    // Resolved from nodeId when omitted
+}
+
+const clientMessageSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.enum(['subscribe', 'unsubscribe']),
+        fieldId: z.number().int().positive().optional(),
+        nodeId: z.number().int().positive().optional(),
+    }),
+    z.object({ action: z.literal('ping') }),
+]);
+
+let wss: WebSocketServer | null = null;
+let heartbeat: NodeJS.Timeout | null = null;
+const clients = new Map<WebSocket, ClientState>();
+
+function send(socket: WebSocket, message: object): void {
+    if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+}
+
+/**
+ * Apply subscribe / unsubscribe command from client
+ */
+async function handleClientMessage(socket: WebSocket, state: ClientState, raw: RawData): Promise<void> {
+    let parsed;
+    try {
+        parsed = clientMessageSchema.safeParse(JSON.parse(raw.toString()));
+    } catch {
+        send(socket, { type: 'ERROR', message: 'Message must be JSON' });
+        return;
+    }
+
+    if (!parsed.success) {
+        send(socket, { type: 'ERROR', message: 'Invalid message', details: parsed.error.flatten() });
+        return;
+    }
+
+    const message = parsed.data;
+
+    if (message.action === 'ping') {
+        send(socket, { type: 'PONG', timestamp: new Date().toISOString() });
+        return;
+    }
+
+    const { fieldId, nodeId } = message;
+    if ((fieldId === undefined) === (nodeId === undefined)) {
+        send(socket, { type: 'ERROR', message: 'Provide exactly one of fieldId or nodeId' });
+        return;
+    }
+
+    if (message.action === 'unsubscribe') {
+        if (fieldId !== undefined) state.fieldIds.delete(fieldId);
+        if (nodeId !== undefined) state.nodeIds.delete(nodeId);
+        send(socket, { type: 'UNSUBSCRIBED', fieldId, nodeId });
+        return;
+    }
+
+    if (state.fieldIds.size + state.nodeIds.size >= WEBSOCKET_CONSTANTS.MAX_SUBSCRIPTIONS) {
+        send(socket, { type: 'ERROR', message: `At most ${WEBSOCKET_CONSTANTS.MAX_SUBSCRIPTIONS} subscriptions per connection` });
+        return;
+    }
+
+    // Nodes may not belong to a field yet (pending), so only fields are checked
+    if (fieldId !== undefined) {
+        try {
+            await getFieldById(fieldId);
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+            send(socket, { type: 'ERROR', message: `Field ${fieldId} not found` });
+            return;
+        }
+        state.fieldIds.add(fieldId);
+    } else if (nodeId !== undefined) {
+        state.nodeIds.add(nodeId);
+    }
+
+    send(socket, { type: 'SUBSCRIBED', fieldId, nodeId });
+}
+
+function handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const state: ClientState = { alive: true, fieldIds: new Set(), nodeIds: new Set() };
+    clients.set(socket, state);
+
+    logger.info({ remote: request.socket.remoteAddress, clients: clients.size }, 'WebSocket client connected');
+
+    socket.on('pong', () => {
+        state.alive = true;
+    });
+
+    socket.on('message', (raw) => {
+        handleClientMessage(socket, state, raw).catch((error) => {
+            logger.error({ error }, 'Failed to handle WebSocket message');
+            send(socket, { type: 'ERROR', message: 'Internal error' });
+        });
+    });
+
+    socket.on('close', () => {
+        clients.delete(socket);
+        logger.info({ clients: clients.size }, 'WebSocket client disconnected');
+    });
+
+    socket.on('error', (error) => {
+        logger.warn({ error }, 'WebSocket client error');
+    });
+}
+
+/**
+ * Attach WebSocket endpoint to HTTP server
+ */
+export function initializeWebSocket(server: Server): void {
+    if (wss) {
+        logger.warn('WebSocket already initialized');
+        return;
+    }
+
+    wss = new WebSocketServer({
+        server,
+        path: WEBSOCKET_CONSTANTS.PATH,
+        maxPayload: WEBSOCKET_CONSTANTS.MAX_MESSAGE_BYTES,
+    });
+
+    wss.on('connection', handleConnection);
+    wss.on('error', (error) => logger.error({ error }, 'WebSocket server error'));
+
+    // Drop clients that stopped answering pings (mobile networks rarely close cleanly)
+    heartbeat = setInterval(() => {
+        for (const [socket, state] of clients) {
+            if (!state.alive) {
+                socket.terminate();
+                clients.delete(socket);
+                continue;
+            }
+            state.alive = false;
+            socket.ping();
+        }
+    }, WEBSOCKET_CONSTANTS.HEARTBEAT_INTERVAL_MS);
+
+    logger.info({ path: WEBSOCKET_CONSTANTS.PATH }, 'WebSocket endpoint ready');
+}
+
+async function deliver(type: RealtimeEventType, target: RealtimeTarget, data: object): Promise<void> {
+    let fieldId = target.fieldId;
+
+    // Field lookup only when some client listens by field
+    if (fieldId === undefined && [...clients.values()].some(state => state.fieldIds.size > 0)) {
+        try {
+            fieldId = (await getFieldByNodeId(target.nodeId)).id;
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+            fieldId = null;
+        }
+    }
+
+    const message = JSON.stringify({
+        type,
+        nodeId: target.nodeId,
+        fieldId: fieldId ?? null,
+        data,
+        timestamp: new Date().toISOString(),
+    });
+
+    let delivered = 0;
+    for (const [socket, state] of clients) {
+        const subscribed = state.nodeIds.has(target.nodeId) || (fieldId != null && state.fieldIds.has(fieldId));
+
+        if (subscribed && socket.readyState === WebSocket.OPEN) {
+            socket.send(message);
+            delivered++;
+        }
+    }
+
+    if (delivered > 0) {
+        logger.debug({ type, nodeId: target.nodeId, fieldId, delivered }, 'Realtime event pushed');
+    }
+}
+
+/**
+ * Push event to subscribed clients
+ * Fire-and-forget: delivery problems must not fail the processing that produced the event
+ */
+export function broadcastEvent(type: RealtimeEventType, target: RealtimeTarget, data: object): void {
+    if (!wss || clients.size === 0) {
+        return;
+    }
+
+    deliver(type, target, data).catch((error) => {
+        logger.warn({ error, type, nodeId: target.nodeId }, 'Failed to push realtime event');
+    });
+}
+
+/**
+ * Close all client connections and the WebSocket server
+ */
+export async function closeWebSocket(): Promise<void> {
+    if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+    }
+
+    if (!wss) {
+        return;
+    }
+
+    for (const socket of clients.keys()) {
+        socket.close(1001, 'Server shutting down');
+    }
+    clients.clear();
+
+    const server = wss;
+    wss = null;
+
+    return new Promise((resolve) => {
+        server.close(() => {
+            logger.info('WebSocket server closed');
+            resolve();
+        });
+    });
+}
@@ -82,6 +82,55 @@ export const IRRIGATION_METHODS = {
 
 export type IrrigationMethod = typeof IRRIGATION_METHODS[keyof typeof IRRIGATION_METHODS];
 
+/**
+ * Alert Types
+ */
+export const ALERT_TYPES = {
+    VWC_CRITICAL: 'VWC_CRITICAL',
+    FROST: 'FROST',
+    HEAT_STRESS: 'HEAT_STRESS',
+    NODE_OFFLINE: 'NODE_OFFLINE',
+    LOW_BATTERY: 'LOW_BATTERY',
+    WATERLOGGING: 'WATERLOGGING',
+    CUSTOM_RULE: 'CUSTOM_RULE',
+} as const;
+
+export type AlertType = keyof typeof ALERT_TYPES;
+
+/**
+ * Alert Severity
+ */
+export const ALERT_SEVERITY = {
+    INFO: 'INFO',
+    WARNING: 'WARNING',
+    CRITICAL: 'CRITICAL',
+} as const;
+
+export type AlertSeverity = keyof typeof ALERT_SEVERITY;
+
+/**
+ * Metrics available to per-field alert rules
+ */
+export const ALERT_RULE_METRICS = {
+    VWC: 'VWC',                                     // Soil VWC (%)
+    SOIL_TEMPERATURE: 'SOIL_TEMPERATURE',           // °C
+    AIR_TEMPERATURE: 'AIR_TEMPERATURE',             // Gateway °C
+    BATTERY: 'BATTERY',                             // %
+    MINUTES_SINCE_READING: 'MINUTES_SINCE_READING', // Longest silence among the field's nodes
+} as const;
+
+export type AlertRuleMetric = keyof typeof ALERT_RULE_METRICS;
+
+/**
+ * Alert rule comparison operators
+ */
+export const ALERT_RULE_OPERATORS = {
+    LT: 'LT',
+    GT: 'GT',
+} as const;
+
+export type AlertRuleOperator = keyof typeof ALERT_RULE_OPERATORS;
+
 /**
  * Soil Water Constants (VWC %)
  * Source: FAO-56 Table 19, adapted for Indian soils
@@ -121,6 +170,7 @@ export const SOIL_WATER_CONSTANTS = {
 
 /**
  * Crop Parameters Database (9 UP-Valid Crops)
+ * Crop coefficients (kc) from FAO-56 Table 12
  */
 export interface CropParameters {
     name: UPCropName;
@@ -141,6 +191,11 @@ export interface CropParameters {
         midSeason: number;
         lateSeason: number;
     };
+    kc: {
+        initial: number;
+        midSeason: number;
+        end: number;
+    };
 }
 
 export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
@@ -163,6 +218,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 70,
             lateSeason: 95,
         },
+        kc: {
+            initial: 0.40,
+            midSeason: 1.15,
+            end: 0.30,
+        },
     },
 
     rice: {
@@ -184,6 +244,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 65,
             lateSeason: 90,
         },
+        kc: {
+            initial: 1.05,
+            midSeason: 1.20,
+            end: 0.75,
+        },
     },
 
     maize: {
@@ -205,6 +270,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 65,
             lateSeason: 90,
         },
+        kc: {
+            initial: 0.30,
+            midSeason: 1.20,
+            end: 0.35,
+        },
     },
 
     chickpea: {
@@ -226,6 +296,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 70,
             lateSeason: 95,
         },
+        kc: {
+            initial: 0.40,
+            midSeason: 1.00,
+            end: 0.35,
+        },
     },
 
     lentil: {
@@ -247,6 +322,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 65,
             lateSeason: 90,
         },
+        kc: {
+            initial: 0.40,
+            midSeason: 1.10,
+            end: 0.30,
+        },
     },
 
     pea: {
@@ -268,6 +348,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 60,
             lateSeason: 85,
         },
+        kc: {
+            initial: 0.50,
+            midSeason: 1.15,
+            end: 0.30,
+        },
     },
 
     mustard: {
@@ -289,6 +374,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 65,
             lateSeason: 90,
         },
+        kc: {
+            initial: 0.35,
+            midSeason: 1.10,
+            end: 0.35,
+        },
     },
 
     sugarcane: {
@@ -310,6 +400,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 180,
             lateSeason: 240,
         },
+        kc: {
+            initial: 0.40,
+            midSeason: 1.25,
+            end: 0.75,
+        },
     },
 
     potato: {
@@ -331,6 +426,11 @@ export const CROP_DATABASE: Record<UPCropName, CropParameters> = {
             midSeason: 65,
             lateSeason: 90,
         },
+        kc: {
+            initial: 0.50,
+            midSeason: 1.15,
+            end: 0.75,
+        },
     },
 };
 
@@ -373,4 +473,401 @@ export const IRRIGATION_CONSTANTS = {
     RAIN_FORECAST_HOURS: 48,
     MIN_IRRIGATION_DEPTH_MM: 15,
     MAX_IRRIGATION_DEPTH_MM: 75,
+    ACTION_MATCH_WINDOW_HOURS: 48,  // Max age of a decision an action can be linked to
+    ACTION_MAX_CLOCK_SKEW_MINUTES: 5, // Future appliedAt tolerated from client clocks
+    STALE_READING_HOURS: 24,        // Older readings defer to the water balance ledger
+} as const;
+
+/**
+ * Application efficiency by irrigation method (fraction reaching root zone)
+ * Source: FAO Irrigation Water Management Training Manual 4
+ */
+export const IRRIGATION_EFFICIENCY: Record<IrrigationMethod, number> = {
+    drip: 0.90,
+    sprinkler: 0.75,
+    flood: 0.60,
+};
+
+/**
+ * Typical application rate by irrigation method (mm/hour)
+ */
+export const APPLICATION_RATE_MM_PER_HOUR: Record<IrrigationMethod, number> = {
+    drip: 5,
+    sprinkler: 10,
+    flood: 25,
+};
+
+/**
+ * Hours for applied water to infiltrate and register at sensor depth
+ * Repeat irrigation is suppressed within this window
+ */
+export const INFILTRATION_WINDOW_HOURS: Record<SoilTexture, number> = {
+    SANDY: 6,
+    SANDY_LOAM: 12,
+    LOAM: 24,
+    CLAY_LOAM: 36,
+    CLAY: 48,
+};
+
+/**
+ * Alert Rule Thresholds
+ */
+export const ALERT_CONSTANTS = {
+    FROST_AIR_TEMP_C: 2,            // Gateway air temperature at or below
+    HEAT_STRESS_AIR_TEMP_C: 40,     // Gateway air temperature at or above
+    LOW_BATTERY_PERCENT: 20,
+    WEATHER_MAX_AGE_MINUTES: 30,    // Ignore gateway readings older than this on scheduler ticks
+} as const;
+
+/**
+ * Minimum minutes between repeat alerts of the same type for a node
+ */
+export const ALERT_COOLDOWN_MINUTES: Record<AlertType, number> = {
+    VWC_CRITICAL: 360,
+    FROST: 180,
+    HEAT_STRESS: 180,
+    NODE_OFFLINE: 720,
+    LOW_BATTERY: 1440,
+    WATERLOGGING: 360,
+    CUSTOM_RULE: 0,     // Field rules re-arm through hysteresis instead
+};
+
+/**
+ * Node Reporting Status
+ */
+export const NODE_STATUS = {
+    ONLINE: 'ONLINE',
+    LATE: 'LATE',
+    OFFLINE: 'OFFLINE',
+} as const;
+
+export type NodeStatus = keyof typeof NODE_STATUS;
+
+/**
+ * Node Moisture Payload Encodings
+ */
+export const PAYLOAD_ENCODINGS = {
+    PRESCALED: 'PRESCALED',     // On-board conversion, VWC % × 10
+    RAW_10BIT: 'RAW_10BIT',     // Raw ADC 0-1023
+    RAW_12BIT: 'RAW_12BIT',     // Raw ESP32 ADC 0-4095
+} as const;
+
+export type PayloadEncoding = keyof typeof PAYLOAD_ENCODINGS;
+
+/**
+ * Maximum moisture value per payload encoding
+ */
+export const PAYLOAD_ENCODING_MAX: Record<PayloadEncoding, number> = {
+    PRESCALED: 1000,
+    RAW_10BIT: 1023,
+    RAW_12BIT: 4095,
+};
+
+/**
+ * Sensor Node Constants
+ */
+export const NODE_CONSTANTS = {
+    DEFAULT_REPORT_INTERVAL_SEC: 600,   // Firmware SLEEP_INTERVAL_SEC (Node.reportIntervalSec default)
+    LATE_AFTER_MISSED_REPORTS: 2,
+    OFFLINE_AFTER_MISSED_REPORTS: 6,
+    HEALTH_WINDOW_DAYS: 7,
+    BATTERY_TREND_MIN_SPAN_HOURS: 24,   // Shorter spans are too noisy to project
+    BATTERY_STABLE_PCT_PER_DAY: 0.1,    // |slope| below this is reported as stable
+    SOS_BATTERY_PCT: 20,                // Below this firmware skips the sensors and sends zero moisture/temperature
+} as const;
+
+/**
+ * Calibration Curve Fit Methods
+ */
+export const CALIBRATION_FIT_METHODS = {
+    POLYNOMIAL: 'POLYNOMIAL',
+    PIECEWISE_LINEAR: 'PIECEWISE_LINEAR',
+} as const;
+
+export type CalibrationFitMethod = keyof typeof CALIBRATION_FIT_METHODS;
+
+/**
+ * Calibration Constants
+ */
+export const CALIBRATION_CONSTANTS = {
+    MIN_SAMPLES: 3,                 // Piecewise-linear; polynomial fits need degree + 2 (one residual degree of freedom)
+    MAX_POLYNOMIAL_DEGREE: 3,
+    DEFAULT_POLYNOMIAL_DEGREE: 2,
+} as const;
+
+/**
+ * Packet Sequence Constants
+ */
+export const SEQUENCE_CONSTANTS = {
+    MODULUS: 256,                   // Firmware seq is uint8_t
+    DEDUP_WINDOW_MINUTES: 5,        // Same seq within this window is a retry/multi-gateway copy
+    RESET_TOLERANCE_PACKETS: 3,     // Jumps this far beyond elapsed intervals are treated as a reboot
+} as const;
+
+/**
+ * Packet Sequence Outcomes
+ */
+export const SEQUENCE_STATUS = {
+    FIRST: 'FIRST',                 // No prior sequence state for node
+    IN_ORDER: 'IN_ORDER',
+    DUPLICATE: 'DUPLICATE',
+    LATE: 'LATE',                   // Older than last in-order packet (gateway backlog)
+    RESET: 'RESET',                 // Counter restarted
+} as const;
+
+export type SequenceStatus = keyof typeof SEQUENCE_STATUS;
+
+/**
+ * Raw Frame Encodings (gateway forwarding format)
+ */
+export const FRAME_ENCODINGS = {
+    HEX: 'HEX',
+    BASE64: 'BASE64',
+} as const;
+
+export type FrameEncoding = keyof typeof FRAME_ENCODINGS;
+
+/**
+ * Raw Frame Rejection Reasons
+ */
+export const FRAME_REJECTION_REASONS = {
+    ENCODING: 'ENCODING',   // Not valid hex/base64
+    LENGTH: 'LENGTH',       // Size does not match packet layout
+    VERSION: 'VERSION',     // Unknown packet version
+    CRC: 'CRC',             // CRC-16/Modbus mismatch
+    VALUES: 'VALUES',       // Decoded fields out of range
+} as const;
+
+export type FrameRejectionReason = keyof typeof FRAME_REJECTION_REASONS;
+
+/**
+ * HTTP Batch Ingest Constants
+ */
+export const INGEST_CONSTANTS = {
+    MAX_BATCH_ITEMS: 500,           // Sensor + weather items per request
+    MAX_BACKDATE_DAYS: 30,          // Oldest buffered reading accepted
+    MAX_CLOCK_SKEW_MINUTES: 5,      // Future timestamps tolerated from gateway clocks
+} as const;
+
+/**
+ * CSV Import Targets
+ */
+export const CSV_IMPORT_TYPES = {
+    SENSOR: 'SENSOR',       // → SensorReading
+    WEATHER: 'WEATHER',     // → WeatherReading
+} as const;
+
+export type CsvImportType = keyof typeof CSV_IMPORT_TYPES;
+
+/**
+ * CSV Import Units
+ */
+export const MOISTURE_UNITS = {
+    VWC_PERCENT: 'VWC_PERCENT',     // 0-100
+    VWC_FRACTION: 'VWC_FRACTION',   // 0-1 (m³/m³)
+    PRESCALED: 'PRESCALED',         // VWC % × 10, as in node payloads
+} as const;
+
+export type MoistureUnit = keyof typeof MOISTURE_UNITS;
+
+export const TEMPERATURE_UNITS = {
+    CELSIUS: 'CELSIUS',
+    FAHRENHEIT: 'FAHRENHEIT',
+    CELSIUS_X10: 'CELSIUS_X10',     // As in node payloads
+} as const;
+
+export type TemperatureUnit = keyof typeof TEMPERATURE_UNITS;
+
+export const TIMESTAMP_FORMATS = {
+    ISO: 'ISO',                     // ISO 8601 / anything Date.parse accepts
+    EPOCH_SECONDS: 'EPOCH_SECONDS',
+    EPOCH_MILLIS: 'EPOCH_MILLIS',
+} as const;
+
+export type TimestampFormat = keyof typeof TIMESTAMP_FORMATS;
+
+export const CSV_CHARSETS = {
+    UTF8: 'UTF8',
+    LATIN1: 'LATIN1',               // Older Windows logger exports
+    UTF16LE: 'UTF16LE',
+} as const;
+
+export type CsvCharset = keyof typeof CSV_CHARSETS;
+
+/**
+ * CSV Import Constants
+ */
+export const CSV_IMPORT_CONSTANTS = {
+    MAX_BODY_MB: 20,
+    MAX_ROWS: 100000,
+    MAX_REPORTED_ERRORS: 500,       // Row errors listed in the report
+    INSERT_BATCH_SIZE: 1000,
+} as const;
+
+/**
+ * Export Datasets
+ */
+export const EXPORT_DATASETS = {
+    SENSOR_READINGS: 'SENSOR_READINGS',
+    WEATHER_READINGS: 'WEATHER_READINGS',
+    GDD_RECORDS: 'GDD_RECORDS',
+    IRRIGATION_DECISIONS: 'IRRIGATION_DECISIONS',   // IrrigationLog
+    IRRIGATION_EVENTS: 'IRRIGATION_EVENTS',         // Applied water
+} as const;
+
+export type ExportDataset = keyof typeof EXPORT_DATASETS;
+
+export const EXPORT_FORMATS = {
+    CSV: 'CSV',
+    NDJSON: 'NDJSON',
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+/**
+ * Export Constants
+ */
+export const EXPORT_CONSTANTS = {
+    PAGE_SIZE: 1000,        // Rows fetched per cursor step
+} as const;
+
+/**
+ * Time-Series Buckets (API value → Postgres date_trunc unit)
+ */
+export const SERIES_BUCKETS = {
+    '1h': 'hour',
+    '1d': 'day',
+    '1w': 'week',       // ISO weeks, Monday start
+} as const;
+
+export type SeriesBucket = keyof typeof SERIES_BUCKETS;
+
+export const SERIES_DEFAULT_RANGE_DAYS: Record<SeriesBucket, number> = {
+    '1h': 2,
+    '1d': 30,
+    '1w': 182,
+};
+
+/**
+ * Time-Series Constants
+ */
+export const SERIES_CONSTANTS = {
+    MAX_BUCKETS: 2000,      // Points per series request
+} as const;
+
+/**
+ * Reading Rollup Resolutions (Postgres date_trunc unit, UTC)
+ */
+export const ROLLUP_RESOLUTIONS = {
+    HOURLY: 'hour',
+    DAILY: 'day',
+} as const;
+
+export type RollupResolution = typeof ROLLUP_RESOLUTIONS[keyof typeof ROLLUP_RESOLUTIONS];
+
+/**
+ * Gateway Constants
+ */
+export const GATEWAY_CONSTANTS = {
+    AIR_DATA_STALE_HOURS: 24,   // GDD needs at least one air reading per day
+} as const;
+
+/**
+ * Field Air-Temperature Data Status
+ */
+export const AIR_DATA_STATUS = {
+    OK: 'OK',
+    UNLINKED: 'UNLINKED',           // Field has no gateway
+    NO_READINGS: 'NO_READINGS',     // Gateway registered but never reported weather under this ID
+    STALE: 'STALE',                 // No air reading within AIR_DATA_STALE_HOURS
+} as const;
+
+export type AirDataStatus = keyof typeof AIR_DATA_STATUS;
+
+/**
+ * Pending Node Queue Constants
+ */
+export const PENDING_NODE_CONSTANTS = {
+    MAX_HELD_READINGS: 5000,        // Per node (~35 days at the 10-minute firmware interval)
+    REPROCESS_BATCH_SIZE: 500,      // Held readings replayed per page on claim
+} as const;
+
+/**
+ * Field-Level Moisture Aggregation Strategies (multi-node fields)
+ */
+export const FIELD_AGGREGATION_STRATEGIES = {
+    MEAN: 'MEAN',
+    MEDIAN: 'MEDIAN',                       // Robust to one misbehaving probe
+    DRIEST: 'DRIEST',                       // Conservative: irrigate for the driest spot
+    QUALITY_WEIGHTED: 'QUALITY_WEIGHTED',   // Weighted by per-node reading quality
+} as const;
+
+export type FieldAggregationStrategy = keyof typeof FIELD_AGGREGATION_STRATEGIES;
+
+/**
+ * Field Aggregation Constants
+ */
+export const FIELD_AGGREGATION_CONSTANTS = {
+    FRESH_REPORT_INTERVALS: 3,      // Node contributes if its latest reading is within 3 report intervals
+    RSSI_FLOOR: -120,               // dBm scoring 0.2 link quality
+    RSSI_GOOD: -80,                 // dBm at and above which link quality is 1
+    LOW_BATTERY_PCT: 20,            // Below this readings drift (brown-out)
+    LOW_BATTERY_FACTOR: 0.5,
+    UNCALIBRATED_FACTOR: 0.8,       // Default conversion is less trustworthy than a lab profile
+    UNKNOWN_RSSI_FACTOR: 0.6,
+} as const;
+
+/**
+ * Fuzzy Soil Status (dominant membership)
+ */
+export const FUZZY_SOIL_STATUS = {
+    DRY: 'DRY',
+    OPTIMAL: 'OPTIMAL',
+    WET: 'WET',
+} as const;
+
+export type FuzzySoilStatus = keyof typeof FUZZY_SOIL_STATUS;
+
+/**
+ * Fuzzy Soil Analysis Constants
+ */
+export const FUZZY_CONSTANTS = {
+    DEFAULT_MAD: 0.5,               // Refill point for fields without a crop (FAO-56 typical)
+    DEFAULT_TEMP_MAX: 30,           // °C, heat onset for fields without a crop
+    HOT_RAMP_C: 5,                  // Heat membership rises over this many °C above optimal max
+    HEAT_RULE_WEIGHT: 0.5,          // "optimal AND hot" counts half as much as "dry" toward irrigating
+    URGENCY_LOW: 0.2,               // Irrigation degree thresholds
+    URGENCY_MODERATE: 0.5,
+    URGENCY_HIGH: 0.8,
+} as const;
+
+/**
+ * Crop Recommendation History Constants
+ */
+export const CROP_RECOMMENDATION_CONSTANTS = {
+    HISTORY_WEEKS: 8,               // Default look-back before sowing (or now)
+    MAX_HISTORY_WEEKS: 52,
+    RUN_INTERVAL_MINUTES: 60,       // At most one stored run per field per interval
+} as const;
+
+/**
+ * Real-time Event Types (WebSocket push)
+ */
+export const REALTIME_EVENTS = {
+    READING: 'READING',                         // Processed sensor reading (calibrated VWC / temperature)
+    IRRIGATION_DECISION: 'IRRIGATION_DECISION',
+    GDD_STAGE: 'GDD_STAGE',                     // Growth stage changed
+    ALERT: 'ALERT',
+} as const;
+
+export type RealtimeEventType = keyof typeof REALTIME_EVENTS;
+
+/**
+ * WebSocket Constants
+ */
+export const WEBSOCKET_CONSTANTS = {
+    PATH: '/ws',
+    HEARTBEAT_INTERVAL_MS: 30_000,      // Clients missing one ping round are dropped
+    MAX_SUBSCRIPTIONS: 100,             // Per connection
+    MAX_MESSAGE_BYTES: 4096,            // Client messages are small subscribe commands
 } as const;
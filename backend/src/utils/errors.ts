@@ -2,6 +2,8 @@
  * Custom Error Classes
  */
 
+import type { FrameRejectionReason } from './constants.js';
+
 export class AppError extends Error {
     constructor(
         message: string,
@@ -21,6 +23,12 @@ export class ValidationError extends AppError {
     }
 }
 
+export class UnauthorizedError extends AppError {
+    constructor(message: string = 'Unauthorized') {
+        super(message, 401, true);
+    }
+}
+
 export class NotFoundError extends AppError {
     constructor(resource: string, identifier: string | number) {
         super(
@@ -32,12 +40,28 @@ export class NotFoundError extends AppError {
     }
 }
 
+export class ConflictError extends AppError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, 409, true, context);
+    }
+}
+
 export class SensorDataError extends AppError {
     constructor(message: string, context?: Record<string, unknown>) {
         super(message, 422, true, context);
     }
 }
 
+export class FrameDecodeError extends AppError {
+    constructor(
+        public readonly reason: FrameRejectionReason,
+        message: string,
+        context?: Record<string, unknown>
+    ) {
+        super(message, 422, true, { reason, ...context });
+    }
+}
+
 export class ExternalServiceError extends AppError {
     constructor(service: string, originalError?: Error) {
         super(